@@ -1,11 +1,13 @@
 /**
  * Custom error class for application errors
+ * Optional details are merged into the JSON error response
  */
 export class AppError extends Error {
   constructor(
     message: string,
     public statusCode: number = 500,
-    public code: string = 'INTERNAL_ERROR'
+    public code: string = 'INTERNAL_ERROR',
+    public details?: Record<string, unknown>
   ) {
     super(message);
     this.name = 'AppError';
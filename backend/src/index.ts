@@ -2,8 +2,18 @@ import express, { Application, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import cookieParser from 'cookie-parser';
 import authRouter from './routes/auth';
+import oidcRouter from './routes/oidc';
 import listsRouter from './routes/lists';
+import sharingRouter from './routes/sharing';
+import eventsRouter from './routes/events';
+import invitationsRouter from './routes/invitations';
+import trashRouter from './routes/trash';
+import templatesRouter from './routes/templates';
+import meRouter from './routes/me';
+import adminRouter from './routes/admin';
+import publicRouter from './routes/public';
 import { AppError } from './errors/AppError';
+import { startMaintenanceJobs } from './jobs';
 
 // Types
 interface HealthResponse {
@@ -15,6 +25,7 @@ interface ErrorResponse {
   error: string;
   message: string;
   statusCode: number;
+  [detail: string]: unknown;
 }
 
 // Create Express application
@@ -24,6 +35,12 @@ const app: Application = express();
 const PORT = parseInt(process.env.PORT || '3001', 10);
 const FRONTEND_ORIGIN = process.env.FRONTEND_ORIGIN || 'http://localhost:5173';
 
+// Behind a load balancer (e.g. Cloud Run) set TRUST_PROXY to the number of
+// proxy hops so req.ip is the client address in audit logs and rate limits
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', parseInt(process.env.TRUST_PROXY, 10));
+}
+
 // Middleware
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
@@ -46,8 +63,17 @@ app.get('/health', (_req: Request, res: Response<HealthResponse>) => {
 });
 
 // API routes
+app.use('/api/auth/oidc', oidcRouter);
 app.use('/api/auth', authRouter);
+app.use('/api/lists', eventsRouter);
+app.use('/api/lists', sharingRouter);
 app.use('/api/lists', listsRouter);
+app.use('/api/invitations', invitationsRouter);
+app.use('/api/trash', trashRouter);
+app.use('/api/templates', templatesRouter);
+app.use('/api/me', meRouter);
+app.use('/api/admin', adminRouter);
+app.use('/api/public', publicRouter);
 
 // 404 handler for undefined routes
 app.use((_req: Request, _res: Response, next: NextFunction) => {
@@ -60,6 +86,7 @@ app.use((err: Error, _req: Request, res: Response<ErrorResponse>, _next: NextFun
 
   if (err instanceof AppError) {
     return res.status(err.statusCode).json({
+      ...err.details,
       error: err.code,
       message: err.message,
       statusCode: err.statusCode,
@@ -80,6 +107,9 @@ app.use((err: Error, _req: Request, res: Response<ErrorResponse>, _next: NextFun
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`Health check: http://localhost:${PORT}/health`);
+
+  // Start background maintenance (expired session cleanup, etc.)
+  startMaintenanceJobs();
 });
 
 export { app, AppError };
@@ -0,0 +1,16 @@
+import { Job } from './scheduler';
+import { cleanupExpiredEmailTokens } from '../services/emailToken';
+
+const EMAIL_TOKEN_CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Deletes verification and password reset links that were never used
+ */
+export const emailTokenCleanupJob: Job = {
+  name: 'email-token-cleanup',
+  intervalMs: EMAIL_TOKEN_CLEANUP_INTERVAL_MS,
+  run: async () => {
+    const count = await cleanupExpiredEmailTokens();
+    console.log(`Email token cleanup removed ${count} expired token(s)`);
+  },
+};
@@ -0,0 +1,31 @@
+import { registerJob, startScheduler } from './scheduler';
+import { sessionCleanupJob } from './sessionCleanup';
+import { passkeyChallengeCleanupJob } from './passkeyChallengeCleanup';
+import { oidcStateCleanupJob } from './oidcStateCleanup';
+import { emailTokenCleanupJob } from './emailTokenCleanup';
+import { shareLinkCleanupJob } from './shareLinkCleanup';
+import { trashPurgeJob } from './trashPurge';
+import { loginAttemptCleanupJob } from './loginAttemptCleanup';
+import { pendingLoginCleanupJob } from './pendingLoginCleanup';
+
+/**
+ * Registers all maintenance jobs and starts the scheduler
+ * Set JOBS_ENABLED=false to run an instance without background jobs
+ */
+export function startMaintenanceJobs(): void {
+  if (process.env.JOBS_ENABLED === 'false') {
+    console.log('Maintenance jobs disabled');
+    return;
+  }
+
+  registerJob(sessionCleanupJob);
+  registerJob(passkeyChallengeCleanupJob);
+  registerJob(oidcStateCleanupJob);
+  registerJob(emailTokenCleanupJob);
+  registerJob(shareLinkCleanupJob);
+  registerJob(trashPurgeJob);
+  registerJob(loginAttemptCleanupJob);
+  registerJob(pendingLoginCleanupJob);
+
+  startScheduler();
+}
@@ -0,0 +1,16 @@
+import { Job } from './scheduler';
+import { cleanupExpiredLoginAttempts } from '../services/loginThrottle';
+
+const LOGIN_ATTEMPT_CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Deletes failed login tracking once the failures are old enough to be forgotten
+ */
+export const loginAttemptCleanupJob: Job = {
+  name: 'login-attempt-cleanup',
+  intervalMs: LOGIN_ATTEMPT_CLEANUP_INTERVAL_MS,
+  run: async () => {
+    const count = await cleanupExpiredLoginAttempts();
+    console.log(`Login attempt cleanup removed ${count} expired record(s)`);
+  },
+};
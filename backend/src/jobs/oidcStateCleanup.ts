@@ -0,0 +1,16 @@
+import { Job } from './scheduler';
+import { cleanupExpiredOidcStates } from '../services/oidc';
+
+const STATE_CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Deletes SSO sign-in states from flows that were abandoned
+ */
+export const oidcStateCleanupJob: Job = {
+  name: 'oidc-state-cleanup',
+  intervalMs: STATE_CLEANUP_INTERVAL_MS,
+  run: async () => {
+    const count = await cleanupExpiredOidcStates();
+    console.log(`SSO state cleanup removed ${count} expired state(s)`);
+  },
+};
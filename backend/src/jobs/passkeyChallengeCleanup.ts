@@ -0,0 +1,16 @@
+import { Job } from './scheduler';
+import { cleanupExpiredChallenges } from '../services/passkey';
+
+const CHALLENGE_CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Deletes passkey challenges from ceremonies that were abandoned
+ */
+export const passkeyChallengeCleanupJob: Job = {
+  name: 'passkey-challenge-cleanup',
+  intervalMs: CHALLENGE_CLEANUP_INTERVAL_MS,
+  run: async () => {
+    const count = await cleanupExpiredChallenges();
+    console.log(`Passkey challenge cleanup removed ${count} expired challenge(s)`);
+  },
+};
@@ -0,0 +1,16 @@
+import { Job } from './scheduler';
+import { cleanupExpiredPendingLogins } from '../services/twoFactor';
+
+const PENDING_LOGIN_CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Deletes two-factor sign-ins that were started but never finished
+ */
+export const pendingLoginCleanupJob: Job = {
+  name: 'pending-login-cleanup',
+  intervalMs: PENDING_LOGIN_CLEANUP_INTERVAL_MS,
+  run: async () => {
+    const count = await cleanupExpiredPendingLogins();
+    console.log(`Pending login cleanup removed ${count} expired sign-in(s)`);
+  },
+};
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+
+/**
+ * A maintenance job run periodically by the scheduler
+ */
+export interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+interface JobLease {
+  holder: string;
+  expiresAt: firestore.Timestamp;
+  acquiredAt: firestore.Timestamp;
+}
+
+// Identifies this process when competing for job leases
+const INSTANCE_ID = crypto.randomBytes(8).toString('hex');
+
+// Delay before the first run so startup isn't slowed down
+const INITIAL_DELAY_MS = 30 * 1000;
+
+const jobs: Job[] = [];
+const timers: NodeJS.Timeout[] = [];
+const runningJobs = new Set<string>();
+
+/**
+ * Tries to take (or renew) the lease for a job
+ * Only the instance holding an unexpired lease runs the job, so several
+ * Cloud Run instances don't duplicate work
+ */
+async function acquireLease(job: Job): Promise<boolean> {
+  const leaseRef = db.collection('jobLeases').doc(job.name);
+
+  return db.runTransaction(async (transaction) => {
+    const leaseDoc = await transaction.get(leaseRef);
+    const now = firestore.Timestamp.now();
+
+    if (leaseDoc.exists) {
+      const lease = leaseDoc.data() as JobLease;
+      const heldByOther = lease.holder !== INSTANCE_ID;
+
+      if (heldByOther && lease.expiresAt.toMillis() > now.toMillis()) {
+        return false;
+      }
+    }
+
+    const lease: JobLease = {
+      holder: INSTANCE_ID,
+      expiresAt: firestore.Timestamp.fromMillis(now.toMillis() + job.intervalMs),
+      acquiredAt: now,
+    };
+
+    transaction.set(leaseRef, lease);
+    return true;
+  });
+}
+
+/**
+ * Runs a job if this instance holds its lease
+ * Errors are logged so one failing run doesn't stop future runs
+ */
+async function runJob(job: Job): Promise<void> {
+  // Skip if the previous run on this instance is still going
+  if (runningJobs.has(job.name)) {
+    return;
+  }
+
+  runningJobs.add(job.name);
+
+  try {
+    if (!(await acquireLease(job))) {
+      return;
+    }
+
+    await job.run();
+  } catch (error) {
+    console.error(`Job ${job.name} failed:`, error instanceof Error ? error.message : error);
+  } finally {
+    runningJobs.delete(job.name);
+  }
+}
+
+/**
+ * Registers a job to be run once the scheduler starts
+ */
+export function registerJob(job: Job): void {
+  if (jobs.some((existing) => existing.name === job.name)) {
+    throw new Error(`Job ${job.name} is already registered`);
+  }
+
+  jobs.push(job);
+}
+
+/**
+ * Starts running every registered job on its interval
+ */
+export function startScheduler(): void {
+  for (const job of jobs) {
+    const initialTimer = setTimeout(() => {
+      void runJob(job);
+
+      const intervalTimer = setInterval(() => {
+        void runJob(job);
+      }, job.intervalMs);
+      intervalTimer.unref();
+      timers.push(intervalTimer);
+    }, INITIAL_DELAY_MS);
+
+    // Timers shouldn't keep the process alive on shutdown
+    initialTimer.unref();
+    timers.push(initialTimer);
+  }
+
+  console.log(`Scheduler started with ${jobs.length} job(s)`);
+}
+
+/**
+ * Stops all scheduled jobs
+ */
+export function stopScheduler(): void {
+  timers.forEach((timer) => clearTimeout(timer));
+  timers.length = 0;
+}
@@ -0,0 +1,16 @@
+import { Job } from './scheduler';
+import { cleanupExpiredSessions } from '../services/session';
+
+const SESSION_CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Deletes sessions whose idle timeout or absolute lifetime has passed
+ */
+export const sessionCleanupJob: Job = {
+  name: 'session-cleanup',
+  intervalMs: SESSION_CLEANUP_INTERVAL_MS,
+  run: async () => {
+    const count = await cleanupExpiredSessions();
+    console.log(`Session cleanup removed ${count} expired session(s)`);
+  },
+};
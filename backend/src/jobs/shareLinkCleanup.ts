@@ -0,0 +1,16 @@
+import { Job } from './scheduler';
+import { cleanupExpiredShareLinks } from '../services/shareLink';
+
+const SHARE_LINK_CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000; // 1 day
+
+/**
+ * Deletes public share links that have expired
+ */
+export const shareLinkCleanupJob: Job = {
+  name: 'share-link-cleanup',
+  intervalMs: SHARE_LINK_CLEANUP_INTERVAL_MS,
+  run: async () => {
+    const count = await cleanupExpiredShareLinks();
+    console.log(`Share link cleanup removed ${count} expired link(s)`);
+  },
+};
@@ -0,0 +1,16 @@
+import { Job } from './scheduler';
+import { purgeExpiredTrash } from '../services/trash';
+
+const TRASH_PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000; // 1 day
+
+/**
+ * Permanently deletes lists and tasks that have outlived the trash retention period
+ */
+export const trashPurgeJob: Job = {
+  name: 'trash-purge',
+  intervalMs: TRASH_PURGE_INTERVAL_MS,
+  run: async () => {
+    const count = await purgeExpiredTrash();
+    console.log(`Trash purge removed ${count} list(s) and task(s)`);
+  },
+};
@@ -1,16 +1,32 @@
 import { Request, Response, NextFunction } from 'express';
 import { db } from '../config/firebase';
-import { getSession, validateCsrfToken, SessionWithId } from '../services/session';
+import {
+  getSession,
+  touchSession,
+  validateCsrfToken,
+  isCsrfRotationDue,
+  rotateCsrfToken,
+  getSessionCookieOptions,
+  getCsrfCookieOptions,
+  SessionWithId,
+} from '../services/session';
+import { getApiToken, ApiTokenWithId } from '../services/apiToken';
+import { recordAuditEvent, getAuditContext } from '../services/audit';
 import { AppError } from '../errors/AppError';
+import { User, UserRole } from '../models/user';
 
-// Extend Express Request to include session and user
+// Extend Express Request to include session, API token and user
 declare global {
   namespace Express {
     interface Request {
       session?: SessionWithId;
+      apiToken?: ApiTokenWithId;
       user?: {
         id: string;
         username: string;
+        role: UserRole;
+        // False for accounts provisioned through single sign-on
+        hasPassword: boolean;
       };
     }
   }
@@ -18,56 +34,168 @@ declare global {
 
 // Session cookie name
 export const SESSION_COOKIE_NAME = 'session_id';
+export const CSRF_COOKIE_NAME = 'csrf_token';
 export const CSRF_HEADER_NAME = 'x-csrf-token';
 
 // State-changing HTTP methods that require CSRF validation
 const STATE_CHANGING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
 
+// Prefix of the Authorization header carrying a personal access token
+const BEARER_PREFIX = 'Bearer ';
+
 /**
- * Middleware that validates session and adds user to request
- * Returns 401 if no valid session exists
+ * Rejects accounts an administrator has disabled
  */
-export async function requireAuth(
-  req: Request,
-  _res: Response,
-  next: NextFunction
-): Promise<void> {
-  try {
-    const sessionId = req.cookies?.[SESSION_COOKIE_NAME];
+export function assertAccountEnabled(userData: User): void {
+  if (userData.disabled) {
+    throw new AppError('This account has been disabled', 403, 'ACCOUNT_DISABLED');
+  }
+}
 
-    if (!sessionId) {
-      throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
-    }
+/**
+ * Authenticates a request carrying a personal access token
+ * Read-only tokens are rejected on state-changing methods
+ */
+async function authenticateApiToken(req: Request, token: string): Promise<void> {
+  const apiToken = await getApiToken(token);
+
+  if (!apiToken) {
+    throw new AppError('Invalid or expired API token', 401, 'TOKEN_INVALID');
+  }
+
+  if (apiToken.scope === 'read' && STATE_CHANGING_METHODS.includes(req.method)) {
+    throw new AppError('This API token is read-only', 403, 'TOKEN_SCOPE_INSUFFICIENT');
+  }
 
-    // Get and validate session
-    const session = await getSession(sessionId);
+  const userDoc = await db.collection('users').doc(apiToken.userId).get();
 
-    if (!session) {
-      throw new AppError('Invalid or expired session', 401, 'SESSION_INVALID');
-    }
+  if (!userDoc.exists) {
+    throw new AppError('User not found', 401, 'USER_NOT_FOUND');
+  }
+
+  const userData = userDoc.data() as User;
+  assertAccountEnabled(userData);
+
+  req.apiToken = apiToken;
+  req.user = {
+    id: apiToken.userId,
+    username: userData.username || '',
+    role: userData.role ?? 'user',
+    hasPassword: Boolean(userData.passwordHash),
+  };
+}
+
+/**
+ * Validates the session or API token and adds the user to the request
+ * Activity tracking slides the session's idle expiry forward and rotates the
+ * CSRF token when due - passive requests leave the session untouched
+ */
+async function authenticateRequest(req: Request, res: Response, trackActivity: boolean): Promise<void> {
+  const authorization = req.headers.authorization;
+
+  if (authorization?.startsWith(BEARER_PREFIX)) {
+    await authenticateApiToken(req, authorization.slice(BEARER_PREFIX.length).trim());
+    return;
+  }
+
+  const sessionId = req.cookies?.[SESSION_COOKIE_NAME];
 
-    // Get user data
-    const userDoc = await db.collection('users').doc(session.userId).get();
+  if (!sessionId) {
+    throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+  }
+
+  // Get and validate session
+  const session = await getSession(sessionId);
+
+  if (!session) {
+    throw new AppError('Invalid or expired session', 401, 'SESSION_INVALID');
+  }
+
+  // Get user data
+  const userDoc = await db.collection('users').doc(session.userId).get();
+
+  if (!userDoc.exists) {
+    throw new AppError('User not found', 401, 'USER_NOT_FOUND');
+  }
 
-    if (!userDoc.exists) {
-      throw new AppError('User not found', 401, 'USER_NOT_FOUND');
+  const userData = userDoc.data() as User;
+  assertAccountEnabled(userData);
+
+  if (trackActivity) {
+    // Track activity and slide the idle expiry forward
+    const touched = await touchSession(session);
+
+    // Rotate the CSRF token periodically - the previous token stays valid for
+    // a grace period, so this request's own token is still accepted
+    const rotated = isCsrfRotationDue(session);
+
+    if (rotated) {
+      await rotateCsrfToken(session);
     }
 
-    const userData = userDoc.data();
+    // Keep remember-me cookies in step with the sliding server-side expiry
+    if (rotated || (touched && session.rememberMe)) {
+      setAuthCookies(res, session);
+    }
+  }
+
+  // Attach session and user to request
+  req.session = session;
+  req.user = {
+    id: session.userId,
+    username: userData.username || '',
+    role: userData.role ?? 'user',
+    hasPassword: Boolean(userData.passwordHash),
+  };
+}
 
-    // Attach session and user to request
-    req.session = session;
-    req.user = {
-      id: session.userId,
-      username: userData?.username || '',
-    };
+/**
+ * Middleware that validates session and adds user to request
+ * Also accepts a personal access token via "Authorization: Bearer <token>"
+ * Returns 401 if no valid session or token exists or it has expired
+ */
+export async function requireAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await authenticateRequest(req, res, true);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
 
+/**
+ * Like requireAuth, but doesn't count the request as user activity
+ * For connections the browser opens and reopens by itself, such as event
+ * streams, which must not keep an idle session alive
+ */
+export async function requirePassiveAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await authenticateRequest(req, res, false);
     next();
   } catch (error) {
     next(error);
   }
 }
 
+/**
+ * Records a rejected CSRF token in the audit log
+ */
+function recordCsrfFailure(req: Request, reason: 'missing' | 'invalid'): void {
+  recordAuditEvent('csrf_failure', req.session?.userId ?? null, getAuditContext(req), {
+    reason,
+    method: req.method,
+    path: req.originalUrl,
+  });
+}
+
 /**
  * Middleware that validates CSRF token for state-changing requests
  * Must be used after requireAuth middleware
@@ -83,6 +211,11 @@ export async function validateCsrf(
       return next();
     }
 
+    // Bearer tokens are never sent automatically by browsers, so CSRF doesn't apply
+    if (req.apiToken) {
+      return next();
+    }
+
     // Session must be present (should be set by requireAuth)
     if (!req.session) {
       throw new AppError('Session required for CSRF validation', 401, 'SESSION_REQUIRED');
@@ -92,11 +225,13 @@ export async function validateCsrf(
     const csrfToken = req.headers[CSRF_HEADER_NAME] as string;
 
     if (!csrfToken) {
+      recordCsrfFailure(req, 'missing');
       throw new AppError('CSRF token required', 403, 'CSRF_TOKEN_MISSING');
     }
 
     // Validate CSRF token
     if (!validateCsrfToken(req.session, csrfToken)) {
+      recordCsrfFailure(req, 'invalid');
       throw new AppError('Invalid CSRF token', 403, 'CSRF_TOKEN_INVALID');
     }
 
@@ -106,8 +241,100 @@ export async function validateCsrf(
   }
 }
 
+/**
+ * Sets the session and CSRF cookies for a newly created session
+ */
+export function setAuthCookies(res: Response, session: SessionWithId): void {
+  res.cookie(
+    SESSION_COOKIE_NAME,
+    session.sessionId,
+    getSessionCookieOptions(session.rememberMe)
+  );
+
+  // CSRF token cookie is readable by JavaScript
+  res.cookie(
+    CSRF_COOKIE_NAME,
+    session.csrfToken,
+    getCsrfCookieOptions(session.rememberMe)
+  );
+}
+
+/**
+ * Issues a new CSRF token for the current session after a privilege change
+ * (e.g. turning on two-factor authentication), so a token captured before
+ * the change stops working once the grace period ends
+ */
+export async function rotateSessionCsrfToken(req: Pick<Request, 'session'>, res: Response): Promise<void> {
+  if (!req.session) {
+    return;
+  }
+
+  await rotateCsrfToken(req.session);
+  setAuthCookies(res, req.session);
+}
+
+/**
+ * Clears the session and CSRF cookies from the browser
+ */
+export function clearAuthCookies(res: Response): void {
+  res.clearCookie(SESSION_COOKIE_NAME, { path: '/' });
+  res.clearCookie(CSRF_COOKIE_NAME, { path: '/' });
+}
+
+/**
+ * Middleware that rejects requests authenticated with an API token
+ * Used for account management that must go through a browser session
+ * Must be used after requireAuth middleware
+ */
+export function requireSession(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void {
+  if (!req.session) {
+    return next(new AppError('This action requires a signed-in session', 403, 'SESSION_REQUIRED'));
+  }
+
+  next();
+}
+
+/**
+ * Middleware that only lets administrators through
+ * Must be used after requireAuth middleware
+ */
+export function requireAdmin(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void {
+  if (req.user?.role !== 'admin') {
+    return next(new AppError('Administrator access required', 403, 'FORBIDDEN'));
+  }
+
+  next();
+}
+
 /**
  * Combined middleware for protected routes with CSRF validation
  * Usage: router.post('/protected', protectedRoute, handler)
  */
 export const protectedRoute = [requireAuth, validateCsrf];
+
+/**
+ * Combined middleware for long-lived streams that shouldn't extend the session
+ * Usage: router.get('/events', streamRoute, handler)
+ */
+export const streamRoute = [requirePassiveAuth, validateCsrf];
+
+/**
+ * Combined middleware for account management routes that only accept sessions
+ * Usage: router.post('/account-action', sessionRoute, handler)
+ */
+export const sessionRoute = [requireAuth, requireSession, validateCsrf];
+
+/**
+ * Combined middleware for administration routes
+ * Admin actions must come from a browser session, never an API token
+ * Usage: router.use(adminRoute)
+ */
+export const adminRoute = [requireAuth, requireSession, requireAdmin, validateCsrf];
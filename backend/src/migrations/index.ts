@@ -0,0 +1,23 @@
+import { Migration, runMigrations } from './runner';
+import { usernameReservationsMigration } from './usernameReservations';
+import { listTaskCountersMigration } from './listTaskCounters';
+
+/**
+ * All migrations, in the order they must be applied
+ * Append new migrations to the end - never reorder or remove applied ones
+ */
+const migrations: Migration[] = [
+  usernameReservationsMigration,
+  listTaskCountersMigration,
+];
+
+// Run with `npm run migrate`
+runMigrations(migrations)
+  .then(() => {
+    console.log('Migrations complete');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
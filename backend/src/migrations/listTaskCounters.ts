@@ -0,0 +1,16 @@
+import { repairAllListCounters } from '../services/listCounters';
+import { Migration } from './runner';
+
+/**
+ * Stores taskCount and completedCount on lists created before the counters
+ * were kept on the list document
+ * Run `npm run repair-counters` to recount again later if they ever drift
+ */
+export const listTaskCountersMigration: Migration = {
+  id: '002-list-task-counters',
+  description: 'Store task counters on existing lists',
+  run: async () => {
+    const repaired = await repairAllListCounters();
+    console.log(`Stored task counters on ${repaired} list(s)`);
+  },
+};
@@ -0,0 +1,44 @@
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+
+/**
+ * A one-off data migration, applied at most once per database
+ */
+export interface Migration {
+  id: string;
+  description: string;
+  run: () => Promise<void>;
+}
+
+interface MigrationRecord {
+  description: string;
+  appliedAt: firestore.Timestamp;
+}
+
+/**
+ * Applies migrations in order, skipping any already recorded in the
+ * `migrations` collection
+ * A failed migration stops the run and is not recorded, so it is retried next time
+ */
+export async function runMigrations(migrations: Migration[]): Promise<void> {
+  for (const migration of migrations) {
+    const recordRef = db.collection('migrations').doc(migration.id);
+    const recordDoc = await recordRef.get();
+
+    if (recordDoc.exists) {
+      console.log(`Skipping ${migration.id} (already applied)`);
+      continue;
+    }
+
+    console.log(`Applying ${migration.id}: ${migration.description}`);
+    await migration.run();
+
+    const record: MigrationRecord = {
+      description: migration.description,
+      appliedAt: firestore.Timestamp.now(),
+    };
+
+    await recordRef.set(record);
+    console.log(`Applied ${migration.id}`);
+  }
+}
@@ -0,0 +1,66 @@
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { User } from '../models/user';
+import { reserveExistingUsername } from '../services/username';
+import { Migration } from './runner';
+
+const PAGE_SIZE = 500;
+
+/**
+ * Creates `usernames/{normalized}` reservations for users registered before
+ * case-insensitive uniqueness was enforced
+ * Accounts whose names collide only by case keep working via the exact-match
+ * login fallback and are logged so they can be renamed by hand
+ */
+export const usernameReservationsMigration: Migration = {
+  id: '001-username-reservations',
+  description: 'Reserve usernames of existing users',
+  run: async () => {
+    let reserved = 0;
+    const conflicts: string[] = [];
+    let lastDoc: firestore.QueryDocumentSnapshot | undefined;
+
+    for (;;) {
+      let query = db
+        .collection('users')
+        .orderBy(firestore.FieldPath.documentId())
+        .limit(PAGE_SIZE);
+
+      if (lastDoc) {
+        query = query.startAfter(lastDoc);
+      }
+
+      const usersSnapshot = await query.get();
+
+      for (const userDoc of usersSnapshot.docs) {
+        const { username } = userDoc.data() as User;
+
+        try {
+          const result = await reserveExistingUsername(userDoc.id, username);
+
+          if (result === 'reserved') {
+            reserved++;
+          } else if (result === 'conflict') {
+            conflicts.push(`${userDoc.id} (${username})`);
+          }
+        } catch (error) {
+          // e.g. legacy names that aren't valid document IDs
+          console.error(`Could not reserve username for ${userDoc.id}:`, error);
+          conflicts.push(`${userDoc.id} (${username})`);
+        }
+      }
+
+      if (usersSnapshot.size < PAGE_SIZE) {
+        break;
+      }
+
+      lastDoc = usersSnapshot.docs[usersSnapshot.docs.length - 1];
+    }
+
+    console.log(`Reserved ${reserved} username(s)`);
+
+    if (conflicts.length > 0) {
+      console.warn(`${conflicts.length} user(s) need a manual rename: ${conflicts.join(', ')}`);
+    }
+  },
+};
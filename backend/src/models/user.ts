@@ -0,0 +1,60 @@
+import { firestore } from 'firebase-admin';
+
+/**
+ * Roles a user can hold - admins can manage other accounts
+ */
+export type UserRole = 'user' | 'admin';
+
+/**
+ * How the lists page orders lists within each section
+ */
+export type ListSortMode = 'manual' | 'updated';
+
+/**
+ * Plans set the default list and task limits - see services/quota
+ */
+export type UserPlan = 'free' | 'pro';
+
+/**
+ * Limits an admin has set for one user, replacing their plan's
+ */
+export interface QuotaOverrides {
+  maxLists?: number;
+  maxTasksPerList?: number;
+}
+
+/**
+ * User document stored in the `users` collection
+ */
+export interface User {
+  username: string;
+  passwordHash: string; // Empty for accounts provisioned through single sign-on
+  createdAt: firestore.Timestamp;
+  updatedAt: firestore.Timestamp;
+  // Administration (absent on users created before roles existed)
+  role?: UserRole;
+  disabled?: boolean;
+  disabledAt?: firestore.Timestamp | null;
+  // Email, used for verification and password reset (normalized to lowercase)
+  email?: string | null;
+  emailVerified?: boolean;
+  emailVerifiedAt?: firestore.Timestamp | null;
+  // Two-factor authentication (TOTP)
+  totpEnabled?: boolean;
+  totpSecret?: string | null;
+  totpPendingSecret?: string | null;
+  totpLastUsedStep?: number | null;
+  backupCodeHashes?: string[];
+  // Preferences (absent until the user changes them)
+  listSortMode?: ListSortMode;
+  // Quotas (absent on users on the default plan without overrides)
+  plan?: UserPlan;
+  quotaOverrides?: QuotaOverrides | null;
+}
+
+/**
+ * User document together with its ID
+ */
+export interface UserWithId extends User {
+  id: string;
+}
@@ -0,0 +1,300 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { db } from '../config/firebase';
+import { AppError } from '../errors/AppError';
+import { QuotaOverrides, User, UserPlan, UserRole, UserWithId } from '../models/user';
+import { adminRoute } from '../middleware/auth';
+import { searchUsers, getUserUsage, setUserDisabled } from '../services/admin';
+import { deleteUserSessions } from '../services/session';
+import { deleteUserAccount } from '../services/account';
+import {
+  QUOTA_MAX_LISTS,
+  QUOTA_MAX_TASKS_PER_LIST,
+  USER_PLANS,
+  UserLimits,
+  resolveUserLimits,
+  setUserQuota,
+} from '../services/quota';
+import { getAuditContext, recordAuditEvent } from '../services/audit';
+
+const router = Router();
+
+// Every admin route requires a signed-in administrator
+router.use(adminRoute);
+
+// Pagination
+const USERS_PAGE_SIZE_DEFAULT = 25;
+const USERS_PAGE_SIZE_MAX = 100;
+
+// Types
+interface UpdateUserRequest {
+  disabled?: boolean;
+}
+
+interface UpdateQuotaRequest {
+  plan?: UserPlan;
+  maxLists?: number | null; // Null goes back to the plan's limit
+  maxTasksPerList?: number | null;
+}
+
+interface AdminUserResponse {
+  id: string;
+  username: string;
+  role: UserRole;
+  disabled: boolean;
+  twoFactorEnabled: boolean;
+  createdAt: string;
+  disabledAt: string | null;
+  limits: UserLimits;
+  quotaOverrides: QuotaOverrides;
+}
+
+/**
+ * Async handler wrapper to properly catch errors in async routes
+ */
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+};
+
+function toAdminUserResponse(user: UserWithId): AdminUserResponse {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role ?? 'user',
+    disabled: user.disabled ?? false,
+    twoFactorEnabled: user.totpEnabled ?? false,
+    createdAt: user.createdAt.toDate().toISOString(),
+    disabledAt: user.disabledAt ? user.disabledAt.toDate().toISOString() : null,
+    limits: resolveUserLimits(user),
+    quotaOverrides: user.quotaOverrides ?? {},
+  };
+}
+
+/**
+ * Loads the user an admin action targets
+ * Throws NOT_FOUND if the user doesn't exist
+ */
+async function getTargetUser(userId: string): Promise<UserWithId> {
+  const userDoc = await db.collection('users').doc(userId).get();
+
+  if (!userDoc.exists) {
+    throw new AppError('User not found', 404, 'NOT_FOUND');
+  }
+
+  return { id: userDoc.id, ...(userDoc.data() as User) };
+}
+
+/**
+ * Validates an override from an UpdateQuotaRequest
+ * Undefined keeps the current override, null removes it
+ */
+function parseQuotaOverride(
+  name: string,
+  value: unknown,
+  max: number,
+  current: number | undefined
+): number | undefined {
+  if (value === undefined) {
+    return current;
+  }
+
+  if (value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > max) {
+    throw new AppError(`${name} must be a whole number between 1 and ${max}`, 400, 'VALIDATION_ERROR');
+  }
+
+  return value;
+}
+
+/**
+ * Stops admins from disabling or deleting their own account
+ */
+function assertNotSelf(req: Request, userId: string): void {
+  if (req.user!.id === userId) {
+    throw new AppError('You cannot do this to your own account', 400, 'CANNOT_MODIFY_SELF');
+  }
+}
+
+/**
+ * GET /api/admin/users
+ * List users alphabetically, optionally filtered by username prefix
+ * Query: q (username prefix), limit (1-100, default 25), cursor (from the previous page's nextCursor)
+ */
+router.get('/users', asyncHandler(async (req: Request, res: Response) => {
+  const query = typeof req.query.q === 'string' ? req.query.q : '';
+  const cursor = typeof req.query.cursor === 'string' ? req.query.cursor : undefined;
+  const limitParam = req.query.limit;
+
+  let limit = USERS_PAGE_SIZE_DEFAULT;
+
+  if (limitParam !== undefined) {
+    limit = Number(limitParam);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > USERS_PAGE_SIZE_MAX) {
+      throw new AppError(`Limit must be between 1 and ${USERS_PAGE_SIZE_MAX}`, 400, 'VALIDATION_ERROR');
+    }
+  }
+
+  const { users, nextCursor } = await searchUsers(query, limit, cursor);
+
+  res.status(200).json({
+    success: true,
+    users: users.map(toAdminUserResponse),
+    nextCursor,
+  });
+}));
+
+/**
+ * GET /api/admin/users/:userId
+ * Get a user with their usage - list and task counts, sessions and API tokens
+ */
+router.get('/users/:userId', asyncHandler(async (req: Request, res: Response) => {
+  const user = await getTargetUser(req.params.userId as string);
+  const usage = await getUserUsage(user.id);
+
+  res.status(200).json({
+    success: true,
+    user: toAdminUserResponse(user),
+    usage,
+  });
+}));
+
+/**
+ * PATCH /api/admin/users/:userId
+ * Disable or re-enable an account
+ * Disabling also signs the user out everywhere
+ */
+router.patch('/users/:userId', asyncHandler(async (req: Request, res: Response) => {
+  const { disabled } = req.body as UpdateUserRequest;
+
+  if (typeof disabled !== 'boolean') {
+    throw new AppError('disabled must be a boolean', 400, 'VALIDATION_ERROR');
+  }
+
+  const user = await getTargetUser(req.params.userId as string);
+  assertNotSelf(req, user.id);
+
+  await setUserDisabled(user.id, disabled);
+
+  if (disabled) {
+    await deleteUserSessions(user.id);
+  }
+
+  recordAuditEvent(disabled ? 'account_disabled' : 'account_enabled', user.id, getAuditContext(req), {
+    by: req.user!.username,
+  });
+
+  const updatedUser = await getTargetUser(user.id);
+
+  res.status(200).json({
+    success: true,
+    message: disabled ? 'Account disabled' : 'Account enabled',
+    user: toAdminUserResponse(updatedUser),
+  });
+}));
+
+/**
+ * PATCH /api/admin/users/:userId/quota
+ * Change a user's plan, or override its list and task limits for them
+ */
+router.patch('/users/:userId/quota', asyncHandler(async (req: Request, res: Response) => {
+  const { plan, maxLists, maxTasksPerList } = req.body as UpdateQuotaRequest;
+
+  if (plan === undefined && maxLists === undefined && maxTasksPerList === undefined) {
+    throw new AppError(
+      'At least one field (plan, maxLists or maxTasksPerList) is required',
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  if (plan !== undefined && !USER_PLANS.includes(plan)) {
+    throw new AppError(`plan must be one of: ${USER_PLANS.join(', ')}`, 400, 'VALIDATION_ERROR');
+  }
+
+  const user = await getTargetUser(req.params.userId as string);
+  const currentOverrides = user.quotaOverrides ?? {};
+
+  const quotaOverrides: QuotaOverrides = {};
+  const newMaxLists = parseQuotaOverride('maxLists', maxLists, QUOTA_MAX_LISTS, currentOverrides.maxLists);
+  const newMaxTasksPerList = parseQuotaOverride(
+    'maxTasksPerList',
+    maxTasksPerList,
+    QUOTA_MAX_TASKS_PER_LIST,
+    currentOverrides.maxTasksPerList
+  );
+
+  // Firestore rejects undefined values, so only set overrides that exist
+  if (newMaxLists !== undefined) {
+    quotaOverrides.maxLists = newMaxLists;
+  }
+  if (newMaxTasksPerList !== undefined) {
+    quotaOverrides.maxTasksPerList = newMaxTasksPerList;
+  }
+
+  const newPlan = plan ?? resolveUserLimits(user).plan;
+  await setUserQuota(user.id, newPlan, Object.keys(quotaOverrides).length > 0 ? quotaOverrides : null);
+
+  recordAuditEvent('quota_changed', user.id, getAuditContext(req), {
+    plan: newPlan,
+    quotaOverrides,
+    by: req.user!.username,
+  });
+
+  const updatedUser = await getTargetUser(user.id);
+
+  res.status(200).json({
+    success: true,
+    message: 'Quota updated',
+    user: toAdminUserResponse(updatedUser),
+  });
+}));
+
+/**
+ * DELETE /api/admin/users/:userId/sessions
+ * Force-logout - revoke every session belonging to a user
+ */
+router.delete('/users/:userId/sessions', asyncHandler(async (req: Request, res: Response) => {
+  const user = await getTargetUser(req.params.userId as string);
+  const revokedCount = await deleteUserSessions(user.id);
+
+  recordAuditEvent('session_revoked', user.id, getAuditContext(req), {
+    scope: 'all',
+    revokedCount,
+    by: req.user!.username,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Signed the user out of all sessions',
+    revokedCount,
+  });
+}));
+
+/**
+ * DELETE /api/admin/users/:userId
+ * Permanently delete a user's account and all of their data
+ */
+router.delete('/users/:userId', asyncHandler(async (req: Request, res: Response) => {
+  const user = await getTargetUser(req.params.userId as string);
+  assertNotSelf(req, user.id);
+
+  await deleteUserAccount(user.id);
+
+  // The deleted user's own log is gone, so record it on the admin's
+  recordAuditEvent('admin_account_deleted', req.user!.id, getAuditContext(req), {
+    userId: user.id,
+    username: user.username,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Account deleted successfully',
+  });
+}));
+
+export default router;
@@ -1,19 +1,101 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import bcrypt from 'bcrypt';
 import { firestore } from 'firebase-admin';
 import rateLimit from 'express-rate-limit';
+import { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simplewebauthn/server';
 import { db } from '../config/firebase';
 import { AppError } from '../errors/AppError';
+import { User, UserWithId } from '../models/user';
 import {
   createSession,
   deleteSession,
-  getSessionCookieOptions,
-  getCsrfCookieOptions,
+  deleteUserSessions,
+  listUserSessions,
+  getSessionPublicId,
+  getSessionExpiry,
+  isRecentlyReauthenticated,
+  SessionWithId,
 } from '../services/session';
+import { deleteUserAccount } from '../services/account';
+import {
+  startPasskeyRegistration,
+  finishPasskeyRegistration,
+  startPasskeyAuthentication,
+  finishPasskeyAuthentication,
+  listUserPasskeys,
+  deletePasskey,
+  PasskeyWithId,
+} from '../services/passkey';
+import {
+  recordAuditEvent,
+  getAuditContext,
+  listUserAuditEvents,
+  AuditContext,
+  AuditEventType,
+  AuditEventWithId,
+} from '../services/audit';
+import {
+  USERNAME_MAX_LENGTH,
+  validateUsername,
+  createUserWithUsername,
+  findUserByUsername,
+  changeUsername,
+} from '../services/username';
+import {
+  createApiToken,
+  listUserApiTokens,
+  deleteApiToken,
+  ApiTokenScope,
+  ApiTokenWithId,
+} from '../services/apiToken';
+import {
+  generateTotpSecret,
+  buildOtpauthUri,
+  verifyTotp,
+  generateBackupCodes,
+  hashBackupCode,
+} from '../services/totp';
+import {
+  createPendingLogin,
+  getPendingLogin,
+  recordPendingLoginFailure,
+  deletePendingLogin,
+  deleteUserPendingLogins,
+  verifySecondFactor,
+} from '../services/twoFactor';
+import {
+  getLockoutRemaining,
+  recordLoginFailure,
+  resetLoginFailures,
+} from '../services/loginThrottle';
+import {
+  getPasswordPolicy,
+  validatePassword,
+  hashPassword,
+  verifyPassword,
+  verifyDummyPassword,
+  needsRehash,
+} from '../services/passwordPolicy';
+import {
+  validateEmail,
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  findUsersByVerifiedEmail,
+  setUserEmail,
+  markEmailVerified,
+} from '../services/accountEmail';
+import {
+  getEmailToken,
+  consumeEmailToken,
+  deleteUserEmailTokens,
+} from '../services/emailToken';
 import {
   requireAuth,
-  protectedRoute,
-  SESSION_COOKIE_NAME,
+  requireSession,
+  sessionRoute,
+  setAuthCookies,
+  clearAuthCookies,
+  rotateSessionCsrfToken,
+  assertAccountEnabled,
 } from '../middleware/auth';
 
 const router = Router();
@@ -31,10 +113,63 @@ const loginRateLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Rate limiter for two-factor code submission - 5 attempts per minute
+const twoFactorRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 5, // 5 attempts per window
+  message: {
+    error: 'RATE_LIMIT_EXCEEDED',
+    message: 'Too many verification attempts. Please try again later.',
+    statusCode: 429,
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Rate limiter for passkey sign-in - 10 requests per minute (options + verification)
+const passkeyRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 10, // 10 requests per window
+  message: {
+    error: 'RATE_LIMIT_EXCEEDED',
+    message: 'Too many passkey sign-in attempts. Please try again later.',
+    statusCode: 429,
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Rate limiter for requests that send email - 5 per 15 minutes
+const emailRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // 5 emails per window
+  message: {
+    error: 'RATE_LIMIT_EXCEEDED',
+    message: 'Too many email requests. Please try again later.',
+    statusCode: 429,
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Rate limiter for redeeming emailed links - 10 attempts per minute
+const emailTokenRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 10, // 10 attempts per window
+  message: {
+    error: 'RATE_LIMIT_EXCEEDED',
+    message: 'Too many attempts. Please try again later.',
+    statusCode: 429,
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Types
 interface RegisterRequest {
   username: string;
   password: string;
+  email?: string;
 }
 
 interface LoginRequest {
@@ -43,19 +178,118 @@ interface LoginRequest {
   rememberMe?: boolean;
 }
 
-interface User {
+interface TwoFactorLoginRequest {
+  pendingToken: string;
+  code: string;
+}
+
+interface PasskeyLoginRequest {
+  challengeToken: string;
+  response: AuthenticationResponseJSON;
+  rememberMe?: boolean;
+}
+
+interface AddPasskeyRequest {
+  challengeToken: string;
+  response: RegistrationResponseJSON;
+  name?: string;
+}
+
+interface PasskeyResponse {
+  id: string;
+  name: string;
+  synced: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+interface TwoFactorCodeRequest {
+  code: string;
+}
+
+interface PasswordConfirmationRequest {
+  password: string;
+}
+
+interface ChangeUsernameRequest {
   username: string;
-  passwordHash: string;
-  createdAt: firestore.Timestamp;
-  updatedAt: firestore.Timestamp;
 }
 
-// Validation constants
-const USERNAME_MIN_LENGTH = 6;
-const USERNAME_MAX_LENGTH = 12;
-const PASSWORD_MIN_LENGTH = 8;
-const PASSWORD_MAX_LENGTH = 16;
-const BCRYPT_ROUNDS = 10;
+interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+interface ChangeEmailRequest {
+  email: string;
+  password: string;
+}
+
+interface ForgotPasswordRequest {
+  email: string;
+}
+
+interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+interface VerifyEmailRequest {
+  token: string;
+}
+
+interface SessionResponse {
+  id: string;
+  isCurrent: boolean;
+  rememberMe: boolean;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+}
+
+interface CreateApiTokenRequest {
+  name: string;
+  scope: ApiTokenScope;
+  expiresInDays?: number | null;
+}
+
+interface ApiTokenResponse {
+  id: string;
+  name: string;
+  scope: ApiTokenScope;
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+}
+
+interface AuditEventResponse {
+  id: string;
+  type: AuditEventType;
+  ip: string | null;
+  userAgent: string | null;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+// Two-factor authentication
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'TaskList';
+const BACKUP_CODE_COUNT = 10;
+
+// Passkeys
+const PASSKEY_NAME_MAX_LENGTH = 50;
+const MAX_PASSKEYS_PER_USER = 10;
+
+// Personal API tokens
+const API_TOKEN_NAME_MAX_LENGTH = 50;
+const MAX_API_TOKENS_PER_USER = 20;
+const API_TOKEN_MAX_EXPIRY_DAYS = 365;
+const API_TOKEN_SCOPES: ApiTokenScope[] = ['read', 'write'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Audit log pagination
+const AUDIT_PAGE_SIZE_DEFAULT = 20;
+const AUDIT_PAGE_SIZE_MAX = 50;
 
 /**
  * Async handler wrapper to properly catch errors in async routes
@@ -67,80 +301,106 @@ const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => P
 };
 
 /**
- * POST /api/auth/register
- * Register a new user with username and password
+ * Loads a user and verifies their current password
+ * With a session, a recent single sign-on re-authentication is accepted in
+ * place of the password - accounts provisioned through SSO don't have one
+ * Throws INVALID_PASSWORD if the password doesn't match
  */
-router.post('/register', asyncHandler(async (req: Request<object, object, RegisterRequest>, res: Response) => {
-  const { username, password } = req.body;
+async function verifyUserPassword(
+  userId: string,
+  password: unknown,
+  session?: SessionWithId
+): Promise<{ userRef: firestore.DocumentReference; userData: User }> {
+  const userRef = db.collection('users').doc(userId);
+  const userDoc = await userRef.get();
 
-  // Validate username
-  if (!username || typeof username !== 'string') {
-    throw new AppError('Username is required', 400, 'VALIDATION_ERROR');
+  if (!userDoc.exists) {
+    throw new AppError('User not found', 404, 'NOT_FOUND');
   }
 
-  const trimmedUsername = username.trim();
+  const userData = userDoc.data() as User;
 
-  if (trimmedUsername.length < USERNAME_MIN_LENGTH) {
-    throw new AppError(
-      `Username must be at least ${USERNAME_MIN_LENGTH} characters`,
-      400,
-      'VALIDATION_ERROR'
-    );
+  if (session && isRecentlyReauthenticated(session)) {
+    return { userRef, userData };
   }
 
-  if (trimmedUsername.length > USERNAME_MAX_LENGTH) {
+  if (!userData.passwordHash) {
     throw new AppError(
-      `Username must be at most ${USERNAME_MAX_LENGTH} characters`,
-      400,
-      'VALIDATION_ERROR'
+      'Sign in again with single sign-on to confirm this change',
+      403,
+      'REAUTHENTICATION_REQUIRED'
     );
   }
 
-  // Validate password
   if (!password || typeof password !== 'string') {
     throw new AppError('Password is required', 400, 'VALIDATION_ERROR');
   }
 
-  if (password.length < PASSWORD_MIN_LENGTH) {
-    throw new AppError(
-      `Password must be at least ${PASSWORD_MIN_LENGTH} characters`,
-      400,
-      'VALIDATION_ERROR'
-    );
-  }
+  const isPasswordValid = await verifyPassword(password, userData.passwordHash);
 
-  if (password.length > PASSWORD_MAX_LENGTH) {
-    throw new AppError(
-      `Password must be at most ${PASSWORD_MAX_LENGTH} characters`,
-      400,
-      'VALIDATION_ERROR'
-    );
+  if (!isPasswordValid) {
+    throw new AppError('Incorrect password', 403, 'INVALID_PASSWORD');
   }
 
-  // Check if username already exists
-  const usersRef = db.collection('users');
-  const existingUser = await usersRef
-    .where('username', '==', trimmedUsername)
-    .limit(1)
-    .get();
+  return { userRef, userData };
+}
+
+/**
+ * Builds the ACCOUNT_LOCKED error and sets the Retry-After header
+ */
+function accountLockedError(res: Response, lockRemainingMs: number): AppError {
+  const retryAfter = Math.ceil(lockRemainingMs / 1000);
+  res.set('Retry-After', String(retryAfter));
 
-  if (!existingUser.empty) {
-    throw new AppError('Username already taken', 409, 'USERNAME_TAKEN');
-  }
+  return new AppError(
+    'Too many failed login attempts. Please try again later.',
+    429,
+    'ACCOUNT_LOCKED',
+    { retryAfter }
+  );
+}
+
+/**
+ * POST /api/auth/register
+ * Register a new user with username and password
+ */
+router.post('/register', asyncHandler(async (req: Request<object, object, RegisterRequest>, res: Response) => {
+  const { username, password, email } = req.body;
 
-  // Hash password with bcrypt
-  const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+  // Validate username
+  const trimmedUsername = validateUsername(username);
+
+  // Validate password
+  validatePassword(password, trimmedUsername);
+
+  // Email is optional at sign-up
+  const normalizedEmail = email ? validateEmail(email) : null;
 
-  // Create user document
+  const passwordHash = await hashPassword(password);
+
+  // Create user document and reserve the username atomically
   const now = firestore.Timestamp.now();
   const userData: User = {
     username: trimmedUsername,
     passwordHash,
     createdAt: now,
     updatedAt: now,
+    role: 'user',
+    email: normalizedEmail,
+    emailVerified: false,
   };
 
-  const userDoc = await usersRef.add(userData);
+  const userId = await createUserWithUsername(userData);
+
+  recordAuditEvent('register', userId, getAuditContext(req), { username: trimmedUsername });
+
+  // The account is usable without a verified address, so a mail outage
+  // shouldn't fail registration - the user can resend from Settings
+  if (normalizedEmail) {
+    sendVerificationEmail(userId, trimmedUsername, normalizedEmail).catch((error) => {
+      console.error('Failed to send verification email:', error);
+    });
+  }
 
   // TODO: Create session (will be implemented in login issue)
   // For now, return success with user info
@@ -149,8 +409,9 @@ router.post('/register', asyncHandler(async (req: Request<object, object, Regist
     success: true,
     message: 'User registered successfully',
     user: {
-      id: userDoc.id,
+      id: userId,
       username: trimmedUsername,
+      role: userData.role,
     },
   });
 }));
@@ -176,59 +437,279 @@ router.post('/login', loginRateLimiter, asyncHandler(async (req: Request<object,
   }
 
   const trimmedUsername = username.trim();
+  const auditContext = getAuditContext(req);
+
+  // Refuse attempts while the account is locked, even with the right password
+  const lockRemainingMs = await getLockoutRemaining(trimmedUsername);
+
+  if (lockRemainingMs > 0) {
+    recordAuditEvent('login_failure', null, auditContext, {
+      username: trimmedUsername.slice(0, USERNAME_MAX_LENGTH),
+      reason: 'account_locked',
+    });
+    throw accountLockedError(res, lockRemainingMs);
+  }
 
-  // Look up user by username
-  const usersRef = db.collection('users');
-  const userQuery = await usersRef
-    .where('username', '==', trimmedUsername)
-    .limit(1)
-    .get();
+  // Look up user by username (case-insensitive)
+  const userDoc = await findUserByUsername(trimmedUsername);
 
-  if (userQuery.empty) {
+  if (!userDoc) {
     // User doesn't exist - return generic error
     // Add artificial delay to prevent timing attacks
-    await bcrypt.compare(password, '$2b$10$fakehashtopreventtimingattacks');
-    throw invalidCredentialsError;
+    await verifyDummyPassword(password);
+
+    recordAuditEvent('login_failure', null, auditContext, {
+      username: trimmedUsername.slice(0, USERNAME_MAX_LENGTH),
+      reason: 'unknown_user',
+    });
+
+    // Track unknown usernames too so lockouts don't reveal which exist
+    const lockDurationMs = await recordLoginFailure(trimmedUsername);
+    throw lockDurationMs > 0 ? accountLockedError(res, lockDurationMs) : invalidCredentialsError;
   }
 
-  const userDoc = userQuery.docs[0];
   const userData = userDoc.data() as User;
 
   // Compare password with stored hash
-  const isPasswordValid = await bcrypt.compare(password, userData.passwordHash);
+  const isPasswordValid = await verifyPassword(password, userData.passwordHash);
 
   if (!isPasswordValid) {
-    throw invalidCredentialsError;
+    const lockDurationMs = await recordLoginFailure(trimmedUsername);
+
+    recordAuditEvent('login_failure', userDoc.id, auditContext, {
+      reason: 'invalid_password',
+      locked: lockDurationMs > 0,
+    });
+
+    throw lockDurationMs > 0 ? accountLockedError(res, lockDurationMs) : invalidCredentialsError;
+  }
+
+  // Only reported once the password is right, so it doesn't reveal anything
+  assertAccountEnabled(userData);
+
+  // Upgrade hashes made with an older scheme or cost while we have the password
+  if (needsRehash(userData.passwordHash)) {
+    await userDoc.ref.update({ passwordHash: await hashPassword(password) });
   }
 
-  // Create session
   const rememberMeValue = rememberMe ?? false;
-  const session = await createSession(userDoc.id, rememberMeValue);
 
-  // Set session cookie
-  res.cookie(
-    SESSION_COOKIE_NAME,
-    session.sessionId,
-    getSessionCookieOptions(rememberMeValue)
-  );
+  // Two-factor users get a pending login instead of a session - failed
+  // attempts stay counted until the second factor is accepted too
+  if (userData.totpEnabled) {
+    const pendingToken = await createPendingLogin(userDoc.id, rememberMeValue);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor code required',
+      twoFactorRequired: true,
+      pendingToken,
+    });
+    return;
+  }
+
+  // Create session
+  const session = await createSession(userDoc.id, rememberMeValue, req.get('user-agent'));
+
+  // Set session and CSRF cookies
+  setAuthCookies(res, session);
+
+  // Signed in - clear the failed attempt counter
+  await resetLoginFailures(trimmedUsername);
+
+  recordAuditEvent('login_success', userDoc.id, auditContext, {
+    sessionId: getSessionPublicId(session.sessionId),
+    rememberMe: rememberMeValue,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Login successful',
+    user: {
+      id: userDoc.id,
+      username: userData.username,
+      role: userData.role ?? 'user',
+    },
+  });
+}));
+
+/**
+ * POST /api/auth/login/2fa
+ * Complete a two-factor login with a TOTP or backup code
+ */
+router.post('/login/2fa', twoFactorRateLimiter, asyncHandler(async (req: Request<object, object, TwoFactorLoginRequest>, res: Response) => {
+  const { pendingToken, code } = req.body;
+
+  if (!pendingToken || typeof pendingToken !== 'string') {
+    throw new AppError('Login expired. Please sign in again.', 401, 'PENDING_LOGIN_INVALID');
+  }
+
+  if (!code || typeof code !== 'string') {
+    throw new AppError('Verification code is required', 400, 'VALIDATION_ERROR');
+  }
 
-  // Set CSRF token cookie (readable by JavaScript)
-  res.cookie(
-    'csrf_token',
-    session.csrfToken,
-    getCsrfCookieOptions(rememberMeValue)
+  const pendingLogin = await getPendingLogin(pendingToken);
+
+  if (!pendingLogin) {
+    throw new AppError('Login expired. Please sign in again.', 401, 'PENDING_LOGIN_INVALID');
+  }
+
+  const userDoc = await db.collection('users').doc(pendingLogin.userId).get();
+
+  if (!userDoc.exists) {
+    throw new AppError('Login expired. Please sign in again.', 401, 'PENDING_LOGIN_INVALID');
+  }
+
+  const userData = userDoc.data() as User;
+
+  // Code guesses count towards the same per-account lockout as passwords, so
+  // fresh pending logins don't give an attacker who knows the password more tries
+  const lockRemainingMs = await getLockoutRemaining(userData.username);
+
+  if (lockRemainingMs > 0) {
+    recordAuditEvent('login_failure', userDoc.id, getAuditContext(req), {
+      reason: 'account_locked',
+    });
+    throw accountLockedError(res, lockRemainingMs);
+  }
+
+  const isCodeValid = await verifySecondFactor(pendingLogin.userId, code);
+
+  if (!isCodeValid) {
+    await recordPendingLoginFailure(pendingToken);
+    const lockDurationMs = await recordLoginFailure(userData.username);
+
+    recordAuditEvent('login_failure', pendingLogin.userId, getAuditContext(req), {
+      reason: 'invalid_two_factor_code',
+      locked: lockDurationMs > 0,
+    });
+
+    throw lockDurationMs > 0
+      ? accountLockedError(res, lockDurationMs)
+      : new AppError('Invalid verification code', 401, 'INVALID_TWO_FACTOR_CODE');
+  }
+
+  await deletePendingLogin(pendingToken);
+  assertAccountEnabled(userData);
+
+  // Create session
+  const session = await createSession(
+    userDoc.id,
+    pendingLogin.rememberMe,
+    req.get('user-agent')
   );
 
+  // Set session and CSRF cookies
+  setAuthCookies(res, session);
+
+  // Signed in - clear the failed attempt counter
+  await resetLoginFailures(userData.username);
+
+  recordAuditEvent('login_success', userDoc.id, getAuditContext(req), {
+    sessionId: getSessionPublicId(session.sessionId),
+    rememberMe: pendingLogin.rememberMe,
+    twoFactor: true,
+  });
+
   res.status(200).json({
     success: true,
     message: 'Login successful',
     user: {
       id: userDoc.id,
       username: userData.username,
+      role: userData.role ?? 'user',
+    },
+  });
+}));
+
+/**
+ * POST /api/auth/login/passkey/options
+ * Start a passkey sign-in - returns WebAuthn request options and a challenge token
+ */
+router.post('/login/passkey/options', passkeyRateLimiter, asyncHandler(async (_req: Request, res: Response) => {
+  const { options, challengeToken } = await startPasskeyAuthentication();
+
+  res.status(200).json({
+    success: true,
+    options,
+    challengeToken,
+  });
+}));
+
+/**
+ * POST /api/auth/login/passkey
+ * Complete a passkey sign-in with the authenticator's assertion
+ * Passkeys verify the user themselves, so no two-factor step follows
+ */
+router.post('/login/passkey', passkeyRateLimiter, asyncHandler(async (req: Request<object, object, PasskeyLoginRequest>, res: Response) => {
+  const { challengeToken, response, rememberMe } = req.body;
+  const auditContext = getAuditContext(req);
+
+  const userId = await finishPasskeyAuthentication(challengeToken, response);
+
+  if (!userId) {
+    recordAuditEvent('login_failure', null, auditContext, { reason: 'invalid_passkey' });
+    throw new AppError('Passkey sign-in failed. Please try again.', 401, 'PASSKEY_LOGIN_FAILED');
+  }
+
+  const userDoc = await db.collection('users').doc(userId).get();
+
+  if (!userDoc.exists) {
+    throw new AppError('Passkey sign-in failed. Please try again.', 401, 'PASSKEY_LOGIN_FAILED');
+  }
+
+  const userData = userDoc.data() as User;
+  assertAccountEnabled(userData);
+  const rememberMeValue = rememberMe ?? false;
+
+  // Create session
+  const session = await createSession(userId, rememberMeValue, req.get('user-agent'));
+
+  // Set session and CSRF cookies
+  setAuthCookies(res, session);
+
+  recordAuditEvent('login_success', userId, auditContext, {
+    sessionId: getSessionPublicId(session.sessionId),
+    rememberMe: rememberMeValue,
+    passkey: true,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Login successful',
+    user: {
+      id: userId,
+      username: userData.username,
+      role: userData.role ?? 'user',
     },
   });
 }));
 
+/**
+ * GET /api/auth/password-policy
+ * Get the password rules so clients can check new passwords as they're typed
+ */
+router.get('/password-policy', (_req: Request, res: Response) => {
+  res.status(200).json({
+    success: true,
+    policy: getPasswordPolicy(),
+  });
+});
+
+/**
+ * GET /api/auth/csrf
+ * Re-issue the CSRF token for the current session
+ * Lets the frontend recover when the csrf_token cookie was cleared or is stale
+ */
+router.get('/csrf', requireAuth, requireSession, asyncHandler(async (req: Request, res: Response) => {
+  setAuthCookies(res, req.session!);
+
+  res.status(200).json({
+    success: true,
+    csrfToken: req.session!.csrfToken,
+  });
+}));
+
 /**
  * GET /api/auth/me
  * Get current authenticated user information
@@ -245,15 +726,17 @@ router.get('/me', requireAuth, asyncHandler(async (req: Request, res: Response)
  * POST /api/auth/logout
  * Logout current user and destroy session
  */
-router.post('/logout', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+router.post('/logout', sessionRoute, asyncHandler(async (req: Request, res: Response) => {
   // Delete session from Firestore
   if (req.session) {
     await deleteSession(req.session.sessionId);
+    recordAuditEvent('logout', req.user!.id, getAuditContext(req), {
+      sessionId: getSessionPublicId(req.session.sessionId),
+    });
   }
 
   // Clear cookies
-  res.clearCookie(SESSION_COOKIE_NAME, { path: '/' });
-  res.clearCookie('csrf_token', { path: '/' });
+  clearAuthCookies(res);
 
   res.status(200).json({
     success: true,
@@ -261,4 +744,786 @@ router.post('/logout', protectedRoute, asyncHandler(async (req: Request, res: Re
   });
 }));
 
+/**
+ * PATCH /api/auth/username
+ * Rename the current user - the old username becomes available to others
+ */
+router.patch('/username', sessionRoute, asyncHandler(async (req: Request<object, object, ChangeUsernameRequest>, res: Response) => {
+  const trimmedUsername = validateUsername(req.body.username);
+  const userId = req.user!.id;
+
+  await changeUsername(userId, trimmedUsername);
+
+  await rotateSessionCsrfToken(req, res);
+
+  recordAuditEvent('username_changed', userId, getAuditContext(req), {
+    from: req.user!.username,
+    to: trimmedUsername,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Username changed successfully',
+    user: {
+      id: userId,
+      username: trimmedUsername,
+      role: req.user!.role,
+    },
+  });
+}));
+
+/**
+ * POST /api/auth/password
+ * Change the current user's password
+ * Signs out every other session and rotates the current session ID and CSRF token
+ */
+router.post('/password', sessionRoute, asyncHandler(async (req: Request<object, object, ChangePasswordRequest>, res: Response) => {
+  const { currentPassword, newPassword } = req.body;
+  const userId = req.user!.id;
+
+  if (!currentPassword || typeof currentPassword !== 'string') {
+    throw new AppError('Current password is required', 400, 'VALIDATION_ERROR');
+  }
+
+  // Apply the same rules as registration
+  validatePassword(newPassword, req.user!.username);
+
+  const { userRef } = await verifyUserPassword(userId, currentPassword);
+
+  // Hash and store the new password
+  const passwordHash = await hashPassword(newPassword);
+  await userRef.update({
+    passwordHash,
+    updatedAt: firestore.Timestamp.now(),
+  });
+
+  // Invalidate every session, including the current one, and any sign-in
+  // waiting on a second factor, then issue a fresh session so the old session
+  // ID and CSRF token can no longer be used
+  const rememberMe = req.session!.rememberMe;
+  const [revokedCount] = await Promise.all([
+    deleteUserSessions(userId),
+    deleteUserPendingLogins(userId),
+  ]);
+  const session = await createSession(userId, rememberMe, req.get('user-agent'));
+
+  setAuthCookies(res, session);
+
+  recordAuditEvent('password_changed', userId, getAuditContext(req), {
+    revokedSessions: revokedCount,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Password changed successfully',
+  });
+}));
+
+/**
+ * GET /api/auth/email
+ * Get the current user's email address and whether it is verified
+ */
+router.get('/email', requireAuth, requireSession, asyncHandler(async (req: Request, res: Response) => {
+  const userDoc = await db.collection('users').doc(req.user!.id).get();
+  const userData = userDoc.data() as User;
+
+  res.status(200).json({
+    success: true,
+    email: userData.email ?? null,
+    emailVerified: userData.emailVerified ?? false,
+  });
+}));
+
+/**
+ * PUT /api/auth/email
+ * Set or change the current user's email address - requires the password
+ * The new address must be verified before it can be used to reset the password
+ */
+router.put('/email', sessionRoute, emailRateLimiter, asyncHandler(async (req: Request<object, object, ChangeEmailRequest>, res: Response) => {
+  const { email, password } = req.body;
+  const userId = req.user!.id;
+
+  const normalizedEmail = validateEmail(email);
+  const { userData } = await verifyUserPassword(userId, password, req.session);
+
+  await setUserEmail(userId, normalizedEmail);
+  await sendVerificationEmail(userId, req.user!.username, normalizedEmail);
+
+  recordAuditEvent('email_changed', userId, getAuditContext(req), {
+    from: userData.email ?? null,
+    to: normalizedEmail,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Check your inbox to verify your email address',
+    email: normalizedEmail,
+    emailVerified: false,
+  });
+}));
+
+/**
+ * DELETE /api/auth/email
+ * Remove the current user's email address - requires the password
+ */
+router.delete('/email', sessionRoute, asyncHandler(async (req: Request<object, object, PasswordConfirmationRequest>, res: Response) => {
+  const userId = req.user!.id;
+  const { userData } = await verifyUserPassword(userId, req.body.password, req.session);
+
+  await setUserEmail(userId, null);
+
+  recordAuditEvent('email_changed', userId, getAuditContext(req), {
+    from: userData.email ?? null,
+    to: null,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Email address removed',
+  });
+}));
+
+/**
+ * POST /api/auth/email/verification
+ * Send a fresh verification link to the current user's unverified address
+ */
+router.post('/email/verification', sessionRoute, emailRateLimiter, asyncHandler(async (req: Request, res: Response) => {
+  const userDoc = await db.collection('users').doc(req.user!.id).get();
+  const userData = userDoc.data() as User;
+
+  if (!userData.email) {
+    throw new AppError('Add an email address first', 400, 'EMAIL_NOT_SET');
+  }
+
+  if (userData.emailVerified) {
+    throw new AppError('Your email address is already verified', 400, 'EMAIL_ALREADY_VERIFIED');
+  }
+
+  await sendVerificationEmail(req.user!.id, req.user!.username, userData.email);
+
+  res.status(200).json({
+    success: true,
+    message: 'Verification email sent',
+  });
+}));
+
+/**
+ * POST /api/auth/email/verify
+ * Confirm an email address with the token from a verification link
+ * Public so the link works in any browser, signed in or not
+ */
+router.post('/email/verify', emailTokenRateLimiter, asyncHandler(async (req: Request<object, object, VerifyEmailRequest>, res: Response) => {
+  const tokenData = await consumeEmailToken(req.body.token, 'verify_email');
+
+  // The address must still be the one the link was sent to
+  if (!tokenData || !(await markEmailVerified(tokenData.userId, tokenData.email))) {
+    throw new AppError('This verification link is invalid or has expired', 400, 'EMAIL_TOKEN_INVALID');
+  }
+
+  recordAuditEvent('email_verified', tokenData.userId, getAuditContext(req), {
+    email: tokenData.email,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Email address verified',
+  });
+}));
+
+/**
+ * Emails reset links in the background so the response time doesn't reveal
+ * whether the address belongs to an account
+ */
+function deliverPasswordResets(
+  users: UserWithId[],
+  email: string,
+  auditContext: AuditContext
+): void {
+  for (const user of users) {
+    if (user.disabled) {
+      continue;
+    }
+
+    sendPasswordResetEmail(user, email)
+      .then(() => recordAuditEvent('password_reset_requested', user.id, auditContext))
+      .catch((error) => {
+        console.error('Failed to send password reset email:', error);
+      });
+  }
+}
+
+/**
+ * POST /api/auth/forgot
+ * Email a password reset link to every account that verified the address
+ * Always responds the same way so it can't be used to discover accounts
+ */
+router.post('/forgot', emailRateLimiter, asyncHandler(async (req: Request<object, object, ForgotPasswordRequest>, res: Response) => {
+  const email = validateEmail(req.body.email);
+  const users = await findUsersByVerifiedEmail(email);
+
+  deliverPasswordResets(users, email, getAuditContext(req));
+
+  res.status(200).json({
+    success: true,
+    message: 'If that address belongs to a verified account, a reset link is on its way',
+  });
+}));
+
+/**
+ * POST /api/auth/reset
+ * Choose a new password with the token from a reset link
+ * Signs out every session - the user then signs in with the new password
+ */
+router.post('/reset', emailTokenRateLimiter, asyncHandler(async (req: Request<object, object, ResetPasswordRequest>, res: Response) => {
+  const { token, password } = req.body;
+  const invalidLinkError = new AppError(
+    'This reset link is invalid or has expired',
+    400,
+    'EMAIL_TOKEN_INVALID'
+  );
+
+  // Check the password before redeeming, so a rejected password doesn't use up the link
+  const pendingReset = await getEmailToken(token, 'password_reset');
+
+  if (!pendingReset) {
+    throw invalidLinkError;
+  }
+
+  const userRef = db.collection('users').doc(pendingReset.userId);
+  const userDoc = await userRef.get();
+
+  if (!userDoc.exists) {
+    throw invalidLinkError;
+  }
+
+  const userData = userDoc.data() as User;
+  assertAccountEnabled(userData);
+  validatePassword(password, userData.username);
+
+  const tokenData = await consumeEmailToken(token, 'password_reset');
+
+  if (!tokenData) {
+    throw invalidLinkError;
+  }
+
+  await userRef.update({
+    passwordHash: await hashPassword(password),
+    updatedAt: firestore.Timestamp.now(),
+  });
+
+  const [revokedCount] = await Promise.all([
+    deleteUserSessions(tokenData.userId),
+    deleteUserPendingLogins(tokenData.userId),
+  ]);
+  await deleteUserEmailTokens(tokenData.userId, 'password_reset');
+  await resetLoginFailures(userData.username);
+
+  recordAuditEvent('password_reset', tokenData.userId, getAuditContext(req), {
+    revokedSessions: revokedCount,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Password reset successfully',
+  });
+}));
+
+/**
+ * GET /api/auth/2fa
+ * Get the current user's two-factor status
+ */
+router.get('/2fa', requireAuth, requireSession, asyncHandler(async (req: Request, res: Response) => {
+  const userDoc = await db.collection('users').doc(req.user!.id).get();
+  const userData = userDoc.data() as User;
+
+  res.status(200).json({
+    success: true,
+    enabled: userData.totpEnabled ?? false,
+    backupCodesRemaining: userData.backupCodeHashes?.length ?? 0,
+  });
+}));
+
+/**
+ * POST /api/auth/2fa/setup
+ * Start two-factor enrollment - generates a secret that must be confirmed with a code
+ */
+router.post('/2fa/setup', sessionRoute, asyncHandler(async (req: Request, res: Response) => {
+  const userRef = db.collection('users').doc(req.user!.id);
+  const userDoc = await userRef.get();
+  const userData = userDoc.data() as User;
+
+  if (userData.totpEnabled) {
+    throw new AppError('Two-factor authentication is already enabled', 409, 'TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  const secret = generateTotpSecret();
+
+  await userRef.update({
+    totpPendingSecret: secret,
+    updatedAt: firestore.Timestamp.now(),
+  });
+
+  res.status(200).json({
+    success: true,
+    secret,
+    otpauthUri: buildOtpauthUri(secret, userData.username, TOTP_ISSUER),
+  });
+}));
+
+/**
+ * POST /api/auth/2fa/confirm
+ * Finish enrollment with a first code from the authenticator app
+ * Returns one-time backup codes - they are only shown once
+ */
+router.post('/2fa/confirm', sessionRoute, asyncHandler(async (req: Request<object, object, TwoFactorCodeRequest>, res: Response) => {
+  const { code } = req.body;
+
+  if (!code || typeof code !== 'string') {
+    throw new AppError('Verification code is required', 400, 'VALIDATION_ERROR');
+  }
+
+  const userRef = db.collection('users').doc(req.user!.id);
+  const userDoc = await userRef.get();
+  const userData = userDoc.data() as User;
+
+  if (userData.totpEnabled) {
+    throw new AppError('Two-factor authentication is already enabled', 409, 'TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  if (!userData.totpPendingSecret) {
+    throw new AppError('Two-factor setup has not been started', 400, 'TWO_FACTOR_NOT_STARTED');
+  }
+
+  const step = verifyTotp(userData.totpPendingSecret, code);
+
+  if (step === null) {
+    throw new AppError('Invalid verification code', 400, 'INVALID_TWO_FACTOR_CODE');
+  }
+
+  const backupCodes = generateBackupCodes(BACKUP_CODE_COUNT);
+
+  await userRef.update({
+    totpEnabled: true,
+    totpSecret: userData.totpPendingSecret,
+    totpPendingSecret: null,
+    totpLastUsedStep: step,
+    backupCodeHashes: backupCodes.map(hashBackupCode),
+    updatedAt: firestore.Timestamp.now(),
+  });
+
+  await rotateSessionCsrfToken(req, res);
+
+  recordAuditEvent('two_factor_enabled', req.user!.id, getAuditContext(req));
+
+  res.status(200).json({
+    success: true,
+    message: 'Two-factor authentication enabled',
+    backupCodes,
+  });
+}));
+
+/**
+ * POST /api/auth/2fa/backup-codes
+ * Replace all backup codes with a new set - requires the current password
+ */
+router.post('/2fa/backup-codes', sessionRoute, asyncHandler(async (req: Request<object, object, PasswordConfirmationRequest>, res: Response) => {
+  const { userRef, userData } = await verifyUserPassword(req.user!.id, req.body.password, req.session);
+
+  if (!userData.totpEnabled) {
+    throw new AppError('Two-factor authentication is not enabled', 400, 'TWO_FACTOR_NOT_ENABLED');
+  }
+
+  const backupCodes = generateBackupCodes(BACKUP_CODE_COUNT);
+
+  await userRef.update({
+    backupCodeHashes: backupCodes.map(hashBackupCode),
+    updatedAt: firestore.Timestamp.now(),
+  });
+
+  res.status(200).json({
+    success: true,
+    backupCodes,
+  });
+}));
+
+/**
+ * DELETE /api/auth/2fa
+ * Disable two-factor authentication - requires the current password
+ */
+router.delete('/2fa', sessionRoute, asyncHandler(async (req: Request<object, object, PasswordConfirmationRequest>, res: Response) => {
+  const { userRef } = await verifyUserPassword(req.user!.id, req.body.password, req.session);
+
+  await userRef.update({
+    totpEnabled: false,
+    totpSecret: null,
+    totpPendingSecret: null,
+    totpLastUsedStep: null,
+    backupCodeHashes: [],
+    updatedAt: firestore.Timestamp.now(),
+  });
+
+  await rotateSessionCsrfToken(req, res);
+
+  recordAuditEvent('two_factor_disabled', req.user!.id, getAuditContext(req));
+
+  res.status(200).json({
+    success: true,
+    message: 'Two-factor authentication disabled',
+  });
+}));
+
+/**
+ * Formats a passkey for responses - the public key and counter stay server-side
+ */
+function toPasskeyResponse(passkey: PasskeyWithId): PasskeyResponse {
+  return {
+    id: passkey.credentialId,
+    name: passkey.name,
+    synced: passkey.backedUp,
+    createdAt: passkey.createdAt.toDate().toISOString(),
+    lastUsedAt: passkey.lastUsedAt ? passkey.lastUsedAt.toDate().toISOString() : null,
+  };
+}
+
+/**
+ * GET /api/auth/passkeys
+ * List the current user's passkeys
+ */
+router.get('/passkeys', requireAuth, requireSession, asyncHandler(async (req: Request, res: Response) => {
+  const passkeys = await listUserPasskeys(req.user!.id);
+
+  res.status(200).json({
+    success: true,
+    passkeys: passkeys.map(toPasskeyResponse),
+  });
+}));
+
+/**
+ * POST /api/auth/passkeys/options
+ * Start adding a passkey - returns WebAuthn creation options and a challenge token
+ */
+router.post('/passkeys/options', sessionRoute, asyncHandler(async (req: Request, res: Response) => {
+  const existingPasskeys = await listUserPasskeys(req.user!.id);
+
+  if (existingPasskeys.length >= MAX_PASSKEYS_PER_USER) {
+    throw new AppError(`Maximum ${MAX_PASSKEYS_PER_USER} passkeys allowed per user`, 400, 'MAX_PASSKEYS_REACHED');
+  }
+
+  const { options, challengeToken } = await startPasskeyRegistration(req.user!.id, req.user!.username);
+
+  res.status(200).json({
+    success: true,
+    options,
+    challengeToken,
+  });
+}));
+
+/**
+ * POST /api/auth/passkeys
+ * Finish adding a passkey with the authenticator's attestation
+ */
+router.post('/passkeys', sessionRoute, asyncHandler(async (req: Request<object, object, AddPasskeyRequest>, res: Response) => {
+  const { challengeToken, response, name } = req.body;
+  const userId = req.user!.id;
+
+  if (name !== undefined && typeof name !== 'string') {
+    throw new AppError('Passkey name must be a string', 400, 'VALIDATION_ERROR');
+  }
+
+  const trimmedName = name?.trim() || 'Passkey';
+
+  if (trimmedName.length > PASSKEY_NAME_MAX_LENGTH) {
+    throw new AppError(`Passkey name must be at most ${PASSKEY_NAME_MAX_LENGTH} characters`, 400, 'VALIDATION_ERROR');
+  }
+
+  const passkey = await finishPasskeyRegistration(userId, challengeToken, response, trimmedName);
+
+  await rotateSessionCsrfToken(req, res);
+
+  recordAuditEvent('passkey_added', userId, getAuditContext(req), { name: trimmedName });
+
+  res.status(201).json({
+    success: true,
+    passkey: toPasskeyResponse(passkey),
+  });
+}));
+
+/**
+ * DELETE /api/auth/passkeys/:id
+ * Remove one of the current user's passkeys
+ */
+router.delete('/passkeys/:id', sessionRoute, asyncHandler(async (req: Request, res: Response) => {
+  const deleted = await deletePasskey(req.user!.id, req.params.id as string);
+
+  if (!deleted) {
+    throw new AppError('Passkey not found', 404, 'NOT_FOUND');
+  }
+
+  await rotateSessionCsrfToken(req, res);
+
+  recordAuditEvent('passkey_removed', req.user!.id, getAuditContext(req));
+
+  res.status(200).json({
+    success: true,
+    message: 'Passkey removed successfully',
+  });
+}));
+
+/**
+ * GET /api/auth/sessions
+ * List the current user's active sessions across devices
+ */
+router.get('/sessions', requireAuth, requireSession, asyncHandler(async (req: Request, res: Response) => {
+  const currentSessionId = req.session!.sessionId;
+  const userSessions = await listUserSessions(req.user!.id);
+
+  const sessions: SessionResponse[] = userSessions.map((session) => ({
+    id: getSessionPublicId(session.sessionId),
+    isCurrent: session.sessionId === currentSessionId,
+    rememberMe: session.rememberMe,
+    userAgent: session.userAgent ?? null,
+    createdAt: session.createdAt.toDate().toISOString(),
+    lastSeenAt: (session.lastSeenAt ?? session.createdAt).toDate().toISOString(),
+    expiresAt: new Date(getSessionExpiry(session)).toISOString(),
+  }));
+
+  // Most recently active first
+  sessions.sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+
+  res.status(200).json({
+    success: true,
+    sessions,
+  });
+}));
+
+/**
+ * DELETE /api/auth/sessions
+ * Log out everywhere else - revoke every session except the current one
+ */
+router.delete('/sessions', sessionRoute, asyncHandler(async (req: Request, res: Response) => {
+  const revokedCount = await deleteUserSessions(req.user!.id, req.session!.sessionId);
+
+  recordAuditEvent('session_revoked', req.user!.id, getAuditContext(req), {
+    scope: 'others',
+    revokedCount,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Signed out of all other sessions',
+    revokedCount,
+  });
+}));
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Revoke a single session belonging to the current user
+ */
+router.delete('/sessions/:id', sessionRoute, asyncHandler(async (req: Request, res: Response) => {
+  const publicId = req.params.id as string;
+  const userSessions = await listUserSessions(req.user!.id);
+
+  const target = userSessions.find(
+    (session) => getSessionPublicId(session.sessionId) === publicId
+  );
+
+  if (!target) {
+    throw new AppError('Session not found', 404, 'NOT_FOUND');
+  }
+
+  if (target.sessionId === req.session!.sessionId) {
+    throw new AppError('Use logout to end the current session', 400, 'VALIDATION_ERROR');
+  }
+
+  await deleteSession(target.sessionId);
+
+  recordAuditEvent('session_revoked', req.user!.id, getAuditContext(req), {
+    sessionId: publicId,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Session revoked successfully',
+  });
+}));
+
+/**
+ * Formats an API token for responses - the token hash is never exposed
+ */
+function toApiTokenResponse(apiToken: ApiTokenWithId): ApiTokenResponse {
+  return {
+    id: apiToken.tokenId,
+    name: apiToken.name,
+    scope: apiToken.scope,
+    createdAt: apiToken.createdAt.toDate().toISOString(),
+    lastUsedAt: apiToken.lastUsedAt ? apiToken.lastUsedAt.toDate().toISOString() : null,
+    expiresAt: apiToken.expiresAt ? apiToken.expiresAt.toDate().toISOString() : null,
+  };
+}
+
+/**
+ * Formats an audit event for responses
+ */
+function toAuditEventResponse(event: AuditEventWithId): AuditEventResponse {
+  return {
+    id: event.eventId,
+    type: event.type,
+    ip: event.ip,
+    userAgent: event.userAgent,
+    details: event.details,
+    createdAt: event.createdAt.toDate().toISOString(),
+  };
+}
+
+/**
+ * GET /api/auth/tokens
+ * List the current user's personal API tokens
+ */
+router.get('/tokens', requireAuth, requireSession, asyncHandler(async (req: Request, res: Response) => {
+  const apiTokens = await listUserApiTokens(req.user!.id);
+
+  res.status(200).json({
+    success: true,
+    tokens: apiTokens.map(toApiTokenResponse),
+  });
+}));
+
+/**
+ * POST /api/auth/tokens
+ * Create a personal API token for scripting access
+ * The plaintext token is returned once and cannot be retrieved again
+ */
+router.post('/tokens', sessionRoute, asyncHandler(async (req: Request<object, object, CreateApiTokenRequest>, res: Response) => {
+  const { name, scope, expiresInDays } = req.body;
+  const userId = req.user!.id;
+
+  // Validate name
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    throw new AppError('Token name is required', 400, 'VALIDATION_ERROR');
+  }
+
+  const trimmedName = name.trim();
+
+  if (trimmedName.length > API_TOKEN_NAME_MAX_LENGTH) {
+    throw new AppError(`Token name must be at most ${API_TOKEN_NAME_MAX_LENGTH} characters`, 400, 'VALIDATION_ERROR');
+  }
+
+  // Validate scope
+  if (!API_TOKEN_SCOPES.includes(scope)) {
+    throw new AppError('Scope must be "read" or "write"', 400, 'VALIDATION_ERROR');
+  }
+
+  // Validate expiry (null or omitted means the token never expires)
+  let expiresAt: firestore.Timestamp | null = null;
+
+  if (expiresInDays !== undefined && expiresInDays !== null) {
+    if (
+      typeof expiresInDays !== 'number' ||
+      !Number.isInteger(expiresInDays) ||
+      expiresInDays < 1 ||
+      expiresInDays > API_TOKEN_MAX_EXPIRY_DAYS
+    ) {
+      throw new AppError(`Expiry must be between 1 and ${API_TOKEN_MAX_EXPIRY_DAYS} days`, 400, 'VALIDATION_ERROR');
+    }
+
+    expiresAt = firestore.Timestamp.fromMillis(Date.now() + expiresInDays * DAY_MS);
+  }
+
+  // Check token limit
+  const existingTokens = await listUserApiTokens(userId);
+
+  if (existingTokens.length >= MAX_API_TOKENS_PER_USER) {
+    throw new AppError(`Maximum ${MAX_API_TOKENS_PER_USER} API tokens allowed per user`, 400, 'MAX_API_TOKENS_REACHED');
+  }
+
+  const { token, apiToken } = await createApiToken(userId, trimmedName, scope, expiresAt);
+
+  await rotateSessionCsrfToken(req, res);
+
+  recordAuditEvent('api_token_created', userId, getAuditContext(req), {
+    tokenId: apiToken.tokenId,
+    name: trimmedName,
+    scope,
+  });
+
+  res.status(201).json({
+    success: true,
+    token,
+    apiToken: toApiTokenResponse(apiToken),
+  });
+}));
+
+/**
+ * DELETE /api/auth/tokens/:id
+ * Revoke one of the current user's personal API tokens
+ */
+router.delete('/tokens/:id', sessionRoute, asyncHandler(async (req: Request, res: Response) => {
+  const deleted = await deleteApiToken(req.user!.id, req.params.id as string);
+
+  if (!deleted) {
+    throw new AppError('API token not found', 404, 'NOT_FOUND');
+  }
+
+  recordAuditEvent('api_token_revoked', req.user!.id, getAuditContext(req), {
+    tokenId: req.params.id,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'API token revoked successfully',
+  });
+}));
+
+/**
+ * GET /api/auth/audit
+ * List the current user's account activity, newest first
+ * Query: limit (1-50, default 20), cursor (from the previous page's nextCursor)
+ */
+router.get('/audit', requireAuth, requireSession, asyncHandler(async (req: Request, res: Response) => {
+  const limitParam = req.query.limit;
+  const cursor = typeof req.query.cursor === 'string' ? req.query.cursor : undefined;
+
+  let limit = AUDIT_PAGE_SIZE_DEFAULT;
+
+  if (limitParam !== undefined) {
+    limit = Number(limitParam);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > AUDIT_PAGE_SIZE_MAX) {
+      throw new AppError(`Limit must be between 1 and ${AUDIT_PAGE_SIZE_MAX}`, 400, 'VALIDATION_ERROR');
+    }
+  }
+
+  const { events, nextCursor } = await listUserAuditEvents(req.user!.id, limit, cursor);
+
+  res.status(200).json({
+    success: true,
+    events: events.map(toAuditEventResponse),
+    nextCursor,
+  });
+}));
+
+/**
+ * DELETE /api/auth/account
+ * Permanently delete the current user's account and all of their data
+ * Requires the current password as confirmation
+ */
+router.delete('/account', sessionRoute, asyncHandler(async (req: Request<object, object, PasswordConfirmationRequest>, res: Response) => {
+  const { password } = req.body;
+  const userId = req.user!.id;
+
+  // Re-verify the password before destroying anything
+  await verifyUserPassword(userId, password, req.session);
+
+  // Delete lists, tasks, sessions, API tokens, audit events and the user document
+  await deleteUserAccount(userId);
+
+  // Clear cookies
+  clearAuthCookies(res);
+
+  res.status(200).json({
+    success: true,
+    message: 'Account deleted successfully',
+  });
+}));
+
 export default router;
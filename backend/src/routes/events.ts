@@ -0,0 +1,393 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { User } from '../models/user';
+import { streamRoute } from '../middleware/auth';
+import { ApiToken } from '../services/apiToken';
+import { requireListAccess, ListMember } from '../services/listAccess';
+import { Session, getSessionExpiry } from '../services/session';
+import { isTrashed } from '../services/trash';
+
+const router = Router();
+
+/**
+ * Reads a duration in milliseconds from the environment
+ */
+function readDurationMs(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Stream configuration
+const HEARTBEAT_INTERVAL_MS = 25 * 1000; // Keeps proxies from closing idle connections
+const RECONNECT_DELAY_MS = 3 * 1000; // Sent to the browser as the SSE retry delay
+// Streams end after this long so the browser reconnects and the session is checked again
+const STREAM_MAX_DURATION_MS = readDurationMs('SSE_MAX_DURATION_MS', 30 * 60 * 1000);
+
+// Types
+interface Task {
+  title: string;
+  isCompleted: boolean;
+  order: number;
+  createdAt: firestore.Timestamp;
+  updatedAt: firestore.Timestamp;
+}
+
+interface TaskResponse {
+  id: string;
+  title: string;
+  isCompleted: boolean;
+  order: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface EventStream {
+  send: (event: string, data: object) => void;
+  onClose: (cleanup: () => void) => void;
+  end: () => void;
+}
+
+/**
+ * Async handler wrapper to properly catch errors in async routes
+ */
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+};
+
+function toTaskResponse(doc: firestore.DocumentSnapshot): TaskResponse {
+  const taskData = doc.data() as Task;
+  return {
+    id: doc.id,
+    title: taskData.title,
+    isCompleted: taskData.isCompleted,
+    order: taskData.order,
+    createdAt: taskData.createdAt.toDate().toISOString(),
+    updatedAt: taskData.updatedAt.toDate().toISOString(),
+  };
+}
+
+/**
+ * Starts a Server-Sent Events response
+ * Cleanups registered with onClose run once, whether the client disconnects,
+ * the stream times out or the server ends it
+ */
+function openEventStream(res: Response): EventStream {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Stop nginx-style proxies from buffering events
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  const cleanups: Array<() => void> = [];
+  let isClosed = false;
+
+  const close = () => {
+    if (isClosed) {
+      return;
+    }
+    isClosed = true;
+    cleanups.forEach((cleanup) => cleanup());
+  };
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+  const timeout = setTimeout(() => res.end(), STREAM_MAX_DURATION_MS);
+  cleanups.push(() => {
+    clearInterval(heartbeat);
+    clearTimeout(timeout);
+  });
+
+  // Fires when the client disconnects and when the response is ended here
+  res.on('close', close);
+
+  return {
+    send: (event, data) => {
+      if (!isClosed) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    },
+    onClose: (cleanup) => {
+      if (isClosed) {
+        cleanup();
+      } else {
+        cleanups.push(cleanup);
+      }
+    },
+    end: () => {
+      close();
+      res.end();
+    },
+  };
+}
+
+/**
+ * Ends a stream as soon as the credentials that opened it stop being valid -
+ * the session is signed out, revoked or expires, the API token is revoked or
+ * expires, or the account is disabled or deleted
+ */
+function endOnRevokedCredentials(req: Request, stream: EventStream, onError: (error: Error) => void): void {
+  let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Expiry moves as the session is used elsewhere, so it's rescheduled on
+  // every change. Streams already end after STREAM_MAX_DURATION_MS
+  const endAt = (expiresAtMs: number) => {
+    if (expiryTimer) {
+      clearTimeout(expiryTimer);
+      expiryTimer = null;
+    }
+
+    const remainingMs = expiresAtMs - Date.now();
+
+    if (remainingMs < STREAM_MAX_DURATION_MS) {
+      expiryTimer = setTimeout(() => stream.end(), Math.max(remainingMs, 0));
+    }
+  };
+
+  stream.onClose(() => {
+    if (expiryTimer) {
+      clearTimeout(expiryTimer);
+    }
+  });
+
+  if (req.session) {
+    stream.onClose(
+      db.collection('sessions').doc(req.session.sessionId).onSnapshot((sessionDoc) => {
+        if (!sessionDoc.exists) {
+          stream.end();
+          return;
+        }
+        endAt(getSessionExpiry(sessionDoc.data() as Session));
+      }, onError)
+    );
+  }
+
+  if (req.apiToken) {
+    stream.onClose(
+      db.collection('apiTokens').doc(req.apiToken.tokenId).onSnapshot((tokenDoc) => {
+        if (!tokenDoc.exists) {
+          stream.end();
+          return;
+        }
+
+        const { expiresAt } = tokenDoc.data() as ApiToken;
+
+        if (expiresAt) {
+          endAt(expiresAt.toMillis());
+        }
+      }, onError)
+    );
+  }
+
+  stream.onClose(
+    db.collection('users').doc(req.user!.id).onSnapshot((userDoc) => {
+      if (!userDoc.exists || (userDoc.data() as User).disabled) {
+        stream.end();
+      }
+    }, onError)
+  );
+}
+
+/**
+ * GET /api/lists/events
+ * Stream changes to the user's lists - their own and those shared with them
+ * Events carry IDs only; the client fetches the list it is told about
+ * Events: list_changed, list_deleted, memberships_changed
+ */
+router.get('/events', streamRoute, asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const stream = openEventStream(res);
+  const onError = (error: Error) => {
+    console.error('List event stream failed:', error.message);
+    stream.end();
+  };
+
+  endOnRevokedCredentials(req, stream, onError);
+
+  // The user's own lists
+  let hasOwnSnapshot = false;
+  stream.onClose(
+    db.collection('users').doc(userId).collection('lists').onSnapshot((snapshot) => {
+      if (hasOwnSnapshot) {
+        snapshot.docChanges().forEach((change) => {
+          // Moving a list to the trash removes it just like deleting it
+          const isRemoved = change.type === 'removed' || isTrashed(change.doc);
+          stream.send(isRemoved ? 'list_deleted' : 'list_changed', { listId: change.doc.id });
+        });
+      }
+      hasOwnSnapshot = true;
+    }, onError)
+  );
+
+  // Collaborators joining or leaving the user's lists change their member counts
+  let hasCollaboratorSnapshot = false;
+  stream.onClose(
+    db.collection('listMembers').where('ownerId', '==', userId).onSnapshot((snapshot) => {
+      if (hasCollaboratorSnapshot) {
+        const listIds = new Set(snapshot.docChanges().map((change) => (change.doc.data() as ListMember).listId));
+        listIds.forEach((listId) => stream.send('list_changed', { listId }));
+      }
+      hasCollaboratorSnapshot = true;
+    }, onError)
+  );
+
+  // Lists shared with the user - one listener per accepted membership,
+  // added and removed as memberships change
+  const sharedListeners = new Map<string, () => void>();
+  let hasMembershipSnapshot = false;
+
+  stream.onClose(() => {
+    sharedListeners.forEach((unsubscribe) => unsubscribe());
+    sharedListeners.clear();
+  });
+
+  stream.onClose(
+    db.collection('listMembers').where('userId', '==', userId).onSnapshot((snapshot) => {
+      const acceptedIds = new Set<string>();
+
+      snapshot.docs.forEach((doc) => {
+        const membership = doc.data() as ListMember;
+
+        if (membership.status !== 'accepted') {
+          return;
+        }
+
+        acceptedIds.add(doc.id);
+
+        if (sharedListeners.has(doc.id)) {
+          return;
+        }
+
+        let hasListSnapshot = false;
+        sharedListeners.set(
+          doc.id,
+          db
+            .collection('users')
+            .doc(membership.ownerId)
+            .collection('lists')
+            .doc(membership.listId)
+            .onSnapshot((listDoc) => {
+              if (hasListSnapshot) {
+                const isRemoved = !listDoc.exists || isTrashed(listDoc);
+                stream.send(isRemoved ? 'list_deleted' : 'list_changed', { listId: listDoc.id });
+              }
+              hasListSnapshot = true;
+            }, onError)
+        );
+      });
+
+      sharedListeners.forEach((unsubscribe, membershipId) => {
+        if (!acceptedIds.has(membershipId)) {
+          unsubscribe();
+          sharedListeners.delete(membershipId);
+        }
+      });
+
+      // Invitations, accepted invitations and removals all change what the user sees
+      if (hasMembershipSnapshot && snapshot.docChanges().length > 0) {
+        stream.send('memberships_changed', {});
+      }
+      hasMembershipSnapshot = true;
+    }, onError)
+  );
+}));
+
+/**
+ * GET /api/lists/:listId/events
+ * Stream changes to a list's tasks
+ * The first event is a snapshot of every task, so a reconnecting client
+ * resyncs from it. Tasks moved to the trash or restored from it arrive as
+ * task_deleted and task_created. The stream ends after list_deleted or access_revoked
+ * Events: snapshot, task_created, task_updated, task_deleted, tasks_reordered,
+ * list_deleted, access_revoked
+ */
+router.get('/:listId/events', streamRoute, asyncHandler(async (req: Request, res: Response) => {
+  const access = await requireListAccess(req.user!.id, req.params.listId as string, 'viewer');
+  const stream = openEventStream(res);
+  const onError = (error: Error) => {
+    console.error('Task event stream failed:', error.message);
+    stream.end();
+  };
+
+  endOnRevokedCredentials(req, stream, onError);
+
+  // Last known state of each task outside the trash, to tell reorders apart from edits
+  const knownTasks = new Map<string, Task>();
+  let hasTasksSnapshot = false;
+
+  stream.onClose(
+    access.listRef.collection('tasks').onSnapshot((snapshot) => {
+      if (!hasTasksSnapshot) {
+        hasTasksSnapshot = true;
+        const activeDocs = snapshot.docs.filter((doc) => !isTrashed(doc));
+        activeDocs.forEach((doc) => knownTasks.set(doc.id, doc.data() as Task));
+        stream.send('snapshot', {
+          tasks: activeDocs.map(toTaskResponse).sort((a, b) => a.order - b.order),
+        });
+        return;
+      }
+
+      const orders: Array<{ taskId: string; order: number }> = [];
+
+      snapshot.docChanges().forEach((change) => {
+        const taskData = change.doc.data() as Task;
+        const previous = knownTasks.get(change.doc.id);
+
+        if (change.type === 'removed' || isTrashed(change.doc)) {
+          // Purging a task that was already in the trash changes nothing visible
+          if (previous) {
+            knownTasks.delete(change.doc.id);
+            stream.send('task_deleted', { taskId: change.doc.id });
+          }
+          return;
+        }
+
+        knownTasks.set(change.doc.id, taskData);
+
+        if (!previous) {
+          stream.send('task_created', { task: toTaskResponse(change.doc) });
+        } else if (
+          previous.order !== taskData.order &&
+          previous.title === taskData.title &&
+          previous.isCompleted === taskData.isCompleted
+        ) {
+          orders.push({ taskId: change.doc.id, order: taskData.order });
+        } else {
+          stream.send('task_updated', { task: toTaskResponse(change.doc) });
+        }
+      });
+
+      // A reorder rewrites many tasks in one batch - send it as one event
+      if (orders.length > 0) {
+        stream.send('tasks_reordered', { orders });
+      }
+    }, onError)
+  );
+
+  stream.onClose(
+    access.listRef.onSnapshot((listDoc) => {
+      if (!listDoc.exists || isTrashed(listDoc)) {
+        stream.send('list_deleted', {});
+        stream.end();
+      }
+    }, onError)
+  );
+
+  // Collaborators lose the stream as soon as they leave or are removed
+  if (access.membership) {
+    stream.onClose(
+      db.collection('listMembers').doc(access.membership.id).onSnapshot((membershipDoc) => {
+        if (!membershipDoc.exists || (membershipDoc.data() as ListMember).status !== 'accepted') {
+          stream.send('access_revoked', {});
+          stream.end();
+        }
+      }, onError)
+    );
+  }
+}));
+
+export default router;
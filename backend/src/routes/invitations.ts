@@ -0,0 +1,136 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { AppError } from '../errors/AppError';
+import { protectedRoute } from '../middleware/auth';
+import { User } from '../models/user';
+import { listUserMemberships, ListMember, MemberRole } from '../services/listAccess';
+import { isTrashed } from '../services/trash';
+
+const router = Router();
+
+// Types
+interface InvitationResponse {
+  id: string;
+  listId: string;
+  listTitle: string;
+  ownerUsername: string | null;
+  invitedByUsername: string | null;
+  role: MemberRole;
+  createdAt: string;
+}
+
+/**
+ * Async handler wrapper to properly catch errors in async routes
+ */
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+};
+
+/**
+ * Loads a pending invitation addressed to the user
+ * Throws NOT_FOUND for anyone else's invitation, so IDs can't be probed
+ */
+async function getPendingInvitation(
+  userId: string,
+  invitationId: string
+): Promise<firestore.DocumentSnapshot> {
+  const invitationDoc = await db.collection('listMembers').doc(invitationId).get();
+  const invitation = invitationDoc.data() as ListMember | undefined;
+
+  if (!invitation || invitation.userId !== userId || invitation.status !== 'pending') {
+    throw new AppError('Invitation not found', 404, 'NOT_FOUND');
+  }
+
+  return invitationDoc;
+}
+
+/**
+ * GET /api/invitations
+ * Get the user's pending invitations to other people's lists
+ */
+router.get('/', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const memberships = await listUserMemberships(req.user!.id, 'pending');
+
+  if (memberships.length === 0) {
+    res.json({
+      success: true,
+      invitations: [],
+    });
+    return;
+  }
+
+  const listDocs = await db.getAll(
+    ...memberships.map((membership) =>
+      db.collection('users').doc(membership.ownerId).collection('lists').doc(membership.listId)
+    )
+  );
+  const userIds = [...new Set(memberships.flatMap((membership) => [membership.ownerId, membership.invitedBy]))];
+  const userDocs = await db.getAll(...userIds.map((userId) => db.collection('users').doc(userId)));
+  const usernames = new Map(
+    userDocs.map((doc) => [doc.id, (doc.data() as User | undefined)?.username ?? null])
+  );
+
+  const invitations: InvitationResponse[] = [];
+
+  memberships.forEach((membership, i) => {
+    // The owner deleted the list after sending the invitation
+    if (!listDocs[i].exists || isTrashed(listDocs[i])) {
+      return;
+    }
+
+    invitations.push({
+      id: membership.id,
+      listId: membership.listId,
+      listTitle: listDocs[i].get('title') as string,
+      ownerUsername: usernames.get(membership.ownerId) ?? null,
+      invitedByUsername: usernames.get(membership.invitedBy) ?? null,
+      role: membership.role,
+      createdAt: membership.createdAt.toDate().toISOString(),
+    });
+  });
+
+  invitations.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  res.json({
+    success: true,
+    invitations,
+  });
+}));
+
+/**
+ * POST /api/invitations/:invitationId/accept
+ * Accept an invitation - the list then shows up under "Shared with me"
+ */
+router.post('/:invitationId/accept', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const invitationDoc = await getPendingInvitation(req.user!.id, req.params.invitationId as string);
+
+  await invitationDoc.ref.update({
+    status: 'accepted',
+    updatedAt: firestore.Timestamp.now(),
+  });
+
+  res.json({
+    success: true,
+    message: 'Invitation accepted',
+  });
+}));
+
+/**
+ * POST /api/invitations/:invitationId/decline
+ * Decline an invitation - the owner can invite the user again later
+ */
+router.post('/:invitationId/decline', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const invitationDoc = await getPendingInvitation(req.user!.id, req.params.invitationId as string);
+
+  await invitationDoc.ref.delete();
+
+  res.json({
+    success: true,
+    message: 'Invitation declined',
+  });
+}));
+
+export default router;
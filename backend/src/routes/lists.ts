@@ -3,22 +3,55 @@ import { firestore } from 'firebase-admin';
 import { db } from '../config/firebase';
 import { AppError } from '../errors/AppError';
 import { protectedRoute } from '../middleware/auth';
+import { User } from '../models/user';
+import {
+  requireListAccess,
+  getListAccessMany,
+  listUserMemberships,
+  countMembersByList,
+  listListMembers,
+  ListAccess,
+  ListRole,
+} from '../services/listAccess';
+import { updateInBatches } from '../services/batch';
+import { isTrashed } from '../services/trash';
+import { getListCounters, readListCounters } from '../services/listCounters';
+import { getTemplate } from '../services/template';
+import { getUserLimits } from '../services/quota';
+import {
+  getListAppearance,
+  parseListColor,
+  parseListDescription,
+  parseListEmoji,
+  ListAppearance,
+  ListColor,
+} from '../services/listAppearance';
 
 const router = Router();
 
 // Validation constants
 const TITLE_MAX_LENGTH = 64;
-const MAX_LISTS_PER_USER = 10;
-const MAX_TASKS_PER_LIST = 25;
 
 // Types
 interface CreateListRequest {
   title: string;
+  templateId?: string; // Start with the tasks of one of the user's templates
+  color?: ListColor;
+  emoji?: string | null;
+  description?: string;
+}
+
+interface DuplicateListRequest {
+  title?: string; // Defaults to the original title followed by "(copy)"
+  resetCompletion?: boolean;
 }
 
 interface UpdateListRequest {
   title?: string;
   isPinned?: boolean;
+  color?: ListColor;
+  emoji?: string | null; // Null or an empty string removes it
+  description?: string;
 }
 
 interface CreateTaskRequest {
@@ -30,6 +63,13 @@ interface UpdateTaskRequest {
   title?: string;
 }
 
+interface ReorderListRequest {
+  orders: Array<{
+    listId: string;
+    order: number;
+  }>;
+}
+
 interface ReorderTaskRequest {
   orders: Array<{
     taskId: string;
@@ -41,6 +81,7 @@ interface Task {
   title: string;
   isCompleted: boolean;
   order: number;
+  deletedAt?: firestore.Timestamp | null; // Set while the task is in the trash
   createdAt: firestore.Timestamp;
   updatedAt: firestore.Timestamp;
 }
@@ -57,16 +98,29 @@ interface TaskResponse {
 interface List {
   title: string;
   isPinned: boolean;
+  order?: number; // The owner's manual order - absent on lists never reordered
+  // Appearance (absent on lists created before it could be set)
+  color?: ListColor;
+  emoji?: string | null;
+  description?: string;
+  // Tasks outside the trash - absent on lists the counter migration hasn't reached
+  taskCount?: number;
+  completedCount?: number;
+  deletedAt?: firestore.Timestamp | null; // Set while the list is in the trash
   createdAt: firestore.Timestamp;
   updatedAt: firestore.Timestamp;
 }
 
-interface ListResponse {
+interface ListResponse extends ListAppearance {
   id: string;
   title: string;
   isPinned: boolean;
+  order: number; // Manual position for the current user, lowest first
   taskCount: number;
   completedCount: number;
+  role: ListRole;
+  ownerUsername: string | null; // Set on lists shared with the user
+  memberCount: number; // Collaborators, including pending invitations
   createdAt: string;
   updatedAt: string;
 }
@@ -80,9 +134,123 @@ const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => P
   };
 };
 
+/**
+ * Builds the response for a single list as the current user sees it
+ * Collaborators see their own pin state and the owner's username
+ */
+async function toListResponse(access: ListAccess, listData: List): Promise<ListResponse> {
+  const { taskCount, completedCount } = await getListCounters(access.listDoc);
+  const isOwner = access.role === 'owner';
+
+  let ownerUsername: string | null = null;
+  let memberCount = 0;
+
+  if (isOwner) {
+    memberCount = (await listListMembers(access.ownerId, access.listId)).length;
+  } else {
+    const ownerDoc = await db.collection('users').doc(access.ownerId).get();
+    ownerUsername = (ownerDoc.data() as User | undefined)?.username ?? null;
+  }
+
+  return {
+    id: access.listId,
+    title: listData.title,
+    ...getListAppearance(listData),
+    isPinned: isOwner ? listData.isPinned : access.membership!.isPinned,
+    order: (isOwner ? listData.order : access.membership!.order) ?? 0,
+    taskCount,
+    completedCount,
+    role: access.role,
+    ownerUsername,
+    memberCount,
+    createdAt: listData.createdAt.toDate().toISOString(),
+    updatedAt: listData.updatedAt.toDate().toISOString(),
+  };
+}
+
+/**
+ * Creates a list owned by the user, with the given tasks in order
+ * Throws MAX_LISTS_REACHED or MAX_TASKS_REACHED if it wouldn't fit
+ */
+async function createOwnedList(
+  userId: string,
+  title: string,
+  appearance: ListAppearance,
+  tasks: Array<{ title: string; isCompleted: boolean }>
+): Promise<ListResponse> {
+  // Check list count for user - lists in the trash don't count
+  const listsRef = db.collection('users').doc(userId).collection('lists');
+  const [existingLists, limits] = await Promise.all([listsRef.get(), getUserLimits(userId)]);
+  const listCount = existingLists.docs.filter((doc) => !isTrashed(doc)).length;
+
+  if (listCount >= limits.maxLists) {
+    throw new AppError(
+      `Maximum ${limits.maxLists} lists allowed per user`,
+      400,
+      'MAX_LISTS_REACHED'
+    );
+  }
+
+  // New lists go to the end in manual order
+  const maxOrder = Math.max(0, ...existingLists.docs.map((doc) => (doc.data() as List).order ?? 0));
+
+  if (tasks.length > limits.maxTasksPerList) {
+    throw new AppError(
+      `Maximum ${limits.maxTasksPerList} tasks allowed per list`,
+      400,
+      'MAX_TASKS_REACHED'
+    );
+  }
+
+  // Create the list and its tasks together
+  const now = firestore.Timestamp.now();
+  const listDocRef = listsRef.doc();
+  const batch = db.batch();
+
+  const listData: List = {
+    title,
+    ...appearance,
+    isPinned: false,
+    order: maxOrder + 1,
+    taskCount: tasks.length,
+    completedCount: tasks.filter((task) => task.isCompleted).length,
+    createdAt: now,
+    updatedAt: now,
+  };
+  batch.set(listDocRef, listData);
+
+  tasks.forEach((task, index) => {
+    const taskData: Task = {
+      title: task.title,
+      isCompleted: task.isCompleted,
+      order: index + 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    batch.set(listDocRef.collection('tasks').doc(), taskData);
+  });
+
+  await batch.commit();
+
+  return {
+    id: listDocRef.id,
+    title,
+    ...appearance,
+    isPinned: false,
+    order: maxOrder + 1,
+    taskCount: tasks.length,
+    completedCount: tasks.filter((task) => task.isCompleted).length,
+    role: 'owner',
+    ownerUsername: null,
+    memberCount: 0,
+    createdAt: now.toDate().toISOString(),
+    updatedAt: now.toDate().toISOString(),
+  };
+}
+
 /**
  * GET /api/lists
- * Get all lists for the authenticated user
+ * Get all lists for the authenticated user - their own and those shared with them
  */
 router.get('/', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
@@ -90,38 +258,76 @@ router.get('/', protectedRoute, asyncHandler(async (req: Request, res: Response)
   // Get all lists for the user, sorted by updatedAt descending
   const listsRef = db.collection('users').doc(userId).collection('lists');
   const listsSnapshot = await listsRef.orderBy('updatedAt', 'desc').get();
+  const memberCounts = await countMembersByList(userId);
 
   const lists: ListResponse[] = [];
 
   for (const doc of listsSnapshot.docs) {
-    const listData = doc.data() as List;
-
-    // Get task counts for this list
-    const tasksRef = listsRef.doc(doc.id).collection('tasks');
-    const tasksSnapshot = await tasksRef.get();
-
-    let taskCount = 0;
-    let completedCount = 0;
+    // Lists in the trash are listed by the trash endpoints
+    if (isTrashed(doc)) {
+      continue;
+    }
 
-    tasksSnapshot.docs.forEach((taskDoc) => {
-      taskCount++;
-      const taskData = taskDoc.data();
-      if (taskData.isCompleted === true) {
-        completedCount++;
-      }
-    });
+    const listData = doc.data() as List;
+    const { taskCount, completedCount } = await getListCounters(doc);
 
     lists.push({
       id: doc.id,
       title: listData.title,
+      ...getListAppearance(listData),
       isPinned: listData.isPinned,
+      order: listData.order ?? 0,
       taskCount,
       completedCount,
+      role: 'owner',
+      ownerUsername: null,
+      memberCount: memberCounts.get(doc.id) ?? 0,
       createdAt: listData.createdAt.toDate().toISOString(),
       updatedAt: listData.updatedAt.toDate().toISOString(),
     });
   }
 
+  // Lists other users shared with this user
+  const memberships = await listUserMemberships(userId, 'accepted');
+
+  if (memberships.length > 0) {
+    const sharedListDocs = await db.getAll(
+      ...memberships.map((membership) =>
+        db.collection('users').doc(membership.ownerId).collection('lists').doc(membership.listId)
+      )
+    );
+    const ownerDocs = await db.getAll(
+      ...memberships.map((membership) => db.collection('users').doc(membership.ownerId))
+    );
+
+    for (let i = 0; i < memberships.length; i++) {
+      const listDoc = sharedListDocs[i];
+
+      // The owner deleted the list after sharing it
+      if (!listDoc.exists || isTrashed(listDoc)) {
+        continue;
+      }
+
+      const listData = listDoc.data() as List;
+      const { taskCount, completedCount } = await getListCounters(listDoc);
+
+      lists.push({
+        id: listDoc.id,
+        title: listData.title,
+        ...getListAppearance(listData),
+        isPinned: memberships[i].isPinned,
+        order: memberships[i].order ?? 0,
+        taskCount,
+        completedCount,
+        role: memberships[i].role,
+        ownerUsername: (ownerDocs[i].data() as User | undefined)?.username ?? null,
+        memberCount: 0,
+        createdAt: listData.createdAt.toDate().toISOString(),
+        updatedAt: listData.updatedAt.toDate().toISOString(),
+      });
+    }
+  }
+
   res.json({
     success: true,
     lists,
@@ -130,10 +336,10 @@ router.get('/', protectedRoute, asyncHandler(async (req: Request, res: Response)
 
 /**
  * POST /api/lists
- * Create a new list for the authenticated user
+ * Create a new list for the authenticated user, optionally from one of their templates
  */
 router.post('/', protectedRoute, asyncHandler(async (req: Request<object, object, CreateListRequest>, res: Response) => {
-  const { title } = req.body;
+  const { title, templateId, color, emoji, description } = req.body;
   const userId = req.user!.id;
 
   // Validate title
@@ -155,40 +361,22 @@ router.post('/', protectedRoute, asyncHandler(async (req: Request<object, object
     );
   }
 
-  // Check list count for user
-  const listsRef = db.collection('users').doc(userId).collection('lists');
-  const existingLists = await listsRef.count().get();
-  const listCount = existingLists.data().count;
-
-  if (listCount >= MAX_LISTS_PER_USER) {
-    throw new AppError(
-      `Maximum ${MAX_LISTS_PER_USER} lists allowed per user`,
-      400,
-      'MAX_LISTS_REACHED'
-    );
+  if (templateId !== undefined && (typeof templateId !== 'string' || templateId.length === 0)) {
+    throw new AppError('templateId must be a string', 400, 'VALIDATION_ERROR');
   }
 
-  // Create list document
-  const now = firestore.Timestamp.now();
-  const listData: List = {
-    title: trimmedTitle,
-    isPinned: false,
-    createdAt: now,
-    updatedAt: now,
-  };
+  // Validate appearance - anything not given gets the default
+  const appearance: ListAppearance = getListAppearance({
+    color: color !== undefined ? parseListColor(color) : undefined,
+    emoji: emoji !== undefined ? parseListEmoji(emoji) : undefined,
+    description: description !== undefined ? parseListDescription(description) : undefined,
+  });
 
-  const listDoc = await listsRef.add(listData);
+  // Tasks from the template start unchecked
+  const template = templateId ? await getTemplate(userId, templateId) : null;
+  const tasks = (template?.tasks ?? []).map((task) => ({ title: task.title, isCompleted: false }));
 
-  // Return created list
-  const responseData: ListResponse = {
-    id: listDoc.id,
-    title: trimmedTitle,
-    isPinned: false,
-    taskCount: 0,
-    completedCount: 0,
-    createdAt: now.toDate().toISOString(),
-    updatedAt: now.toDate().toISOString(),
-  };
+  const responseData = await createOwnedList(userId, trimmedTitle, appearance, tasks);
 
   res.status(201).json({
     success: true,
@@ -198,47 +386,80 @@ router.post('/', protectedRoute, asyncHandler(async (req: Request<object, object
 }));
 
 /**
- * GET /api/lists/:listId
- * Get a single list by ID for the authenticated user
+ * PATCH /api/lists/reorder
+ * Set the manual order of multiple lists for the authenticated user (batch update)
+ * Orders are personal - collaborators order shared lists without affecting the owner
  */
-router.get('/:listId', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+router.patch('/reorder', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
-  const listId = req.params.listId as string;
+  const { orders } = req.body as ReorderListRequest;
 
-  // Get the list document
-  const listsRef = db.collection('users').doc(userId).collection('lists');
-  const listDoc = await listsRef.doc(listId).get();
+  // Validate orders array
+  if (!Array.isArray(orders)) {
+    throw new AppError('orders must be an array', 400, 'VALIDATION_ERROR');
+  }
 
-  if (!listDoc.exists) {
-    throw new AppError('List not found', 404, 'NOT_FOUND');
+  if (orders.length === 0) {
+    throw new AppError('orders array cannot be empty', 400, 'VALIDATION_ERROR');
   }
 
-  const listData = listDoc.data() as List;
+  // Validate each order item - a list can appear once, so the request is
+  // never larger than the number of lists the user can see
+  const seenListIds = new Set<string>();
 
-  // Get task counts for this list
-  const tasksRef = listsRef.doc(listId).collection('tasks');
-  const tasksSnapshot = await tasksRef.get();
+  for (const item of orders) {
+    if (!item.listId || typeof item.listId !== 'string') {
+      throw new AppError('Each order item must have a valid listId', 400, 'VALIDATION_ERROR');
+    }
+    if (typeof item.order !== 'number' || item.order < 1) {
+      throw new AppError('Each order item must have a valid order number (>= 1)', 400, 'VALIDATION_ERROR');
+    }
+    if (seenListIds.has(item.listId)) {
+      throw new AppError('Each list can only appear once in orders', 400, 'VALIDATION_ERROR');
+    }
+    seenListIds.add(item.listId);
+  }
 
-  let taskCount = 0;
-  let completedCount = 0;
+  // Verify the user can see every list
+  const accesses = await getListAccessMany(userId, orders.map((item) => item.listId));
 
-  tasksSnapshot.docs.forEach((taskDoc) => {
-    taskCount++;
-    const taskData = taskDoc.data();
-    if (taskData.completed === true) {
-      completedCount++;
-    }
+  // Reordering isn't a change to the list itself, so updatedAt stays as it is
+  const updates = orders.map((orderItem, index) => {
+    const { membership, listRef } = accesses[index];
+    return {
+      ref: membership ? db.collection('listMembers').doc(membership.id) : listRef,
+      data: { order: orderItem.order },
+    };
   });
 
-  const responseData: ListResponse = {
-    id: listDoc.id,
-    title: listData.title,
-    isPinned: listData.isPinned,
-    taskCount,
-    completedCount,
-    createdAt: listData.createdAt.toDate().toISOString(),
-    updatedAt: listData.updatedAt.toDate().toISOString(),
-  };
+  // A full reorder can exceed one batch's write limit
+  await updateInBatches(updates);
+
+  const updatedLists = orders.map((orderItem) => ({
+    id: orderItem.listId,
+    order: orderItem.order,
+  }));
+
+  res.json({
+    success: true,
+    message: 'Lists reordered successfully',
+    lists: updatedLists,
+  });
+}));
+
+/**
+ * GET /api/lists/:listId
+ * Get a single list by ID - owned by or shared with the authenticated user
+ */
+router.get('/:listId', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const listId = req.params.listId as string;
+
+  // Get the list document
+  const access = await requireListAccess(userId, listId, 'viewer');
+  const listData = access.listDoc.data() as List;
+
+  const responseData = await toListResponse(access, listData);
 
   res.json({
     success: true,
@@ -248,20 +469,33 @@ router.get('/:listId', protectedRoute, asyncHandler(async (req: Request, res: Re
 
 /**
  * PATCH /api/lists/:listId
- * Update a list's title or isPinned status for the authenticated user
+ * Update a list's title, appearance or isPinned status for the authenticated user
+ * Editors can rename and restyle shared lists, and pinning a shared list only affects the collaborator
  */
 router.patch('/:listId', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
   const listId = req.params.listId as string;
-  const { title, isPinned } = req.body as UpdateListRequest;
+  const { title, isPinned, color, emoji, description } = req.body as UpdateListRequest;
+
+  // Changes everyone who can see the list will see
+  const hasListChanges =
+    title !== undefined || color !== undefined || emoji !== undefined || description !== undefined;
 
   // Must provide at least one field to update
-  if (title === undefined && isPinned === undefined) {
-    throw new AppError('At least one field (title or isPinned) is required', 400, 'VALIDATION_ERROR');
+  if (!hasListChanges && isPinned === undefined) {
+    throw new AppError(
+      'At least one field (title, color, emoji, description or isPinned) is required',
+      400,
+      'VALIDATION_ERROR'
+    );
   }
 
   // Build update object
-  const updateData: { title?: string; isPinned?: boolean; updatedAt: firestore.Timestamp } = {
+  const updateData: Partial<ListAppearance> & {
+    title?: string;
+    isPinned?: boolean;
+    updatedAt: firestore.Timestamp;
+  } = {
     updatedAt: firestore.Timestamp.now(),
   };
 
@@ -288,6 +522,19 @@ router.patch('/:listId', protectedRoute, asyncHandler(async (req: Request, res:
     updateData.title = trimmedTitle;
   }
 
+  // Validate and add appearance if provided
+  if (color !== undefined) {
+    updateData.color = parseListColor(color);
+  }
+
+  if (emoji !== undefined) {
+    updateData.emoji = parseListEmoji(emoji);
+  }
+
+  if (description !== undefined) {
+    updateData.description = parseListDescription(description);
+  }
+
   // Validate and add isPinned if provided
   if (isPinned !== undefined) {
     if (typeof isPinned !== 'boolean') {
@@ -297,43 +544,40 @@ router.patch('/:listId', protectedRoute, asyncHandler(async (req: Request, res:
     updateData.isPinned = isPinned;
   }
 
-  // Get the list document
-  const listsRef = db.collection('users').doc(userId).collection('lists');
-  const listDocRef = listsRef.doc(listId);
-  const listDoc = await listDocRef.get();
-
-  if (!listDoc.exists) {
-    throw new AppError('List not found', 404, 'NOT_FOUND');
-  }
-
-  // Update the list
-  await listDocRef.update(updateData);
+  // Get the list document - renaming and restyling need edit access
+  const access = await requireListAccess(userId, listId, hasListChanges ? 'editor' : 'viewer');
 
-  // Get updated list data with task counts
-  const listData = listDoc.data() as List;
-  const tasksRef = listsRef.doc(listId).collection('tasks');
-  const tasksSnapshot = await tasksRef.get();
+  if (access.membership) {
+    // Collaborators pin shared lists for themselves, leaving the owner's list alone
+    const { isPinned: memberIsPinned, ...listUpdate } = updateData;
 
-  let taskCount = 0;
-  let completedCount = 0;
+    if (memberIsPinned !== undefined) {
+      await db.collection('listMembers').doc(access.membership.id).update({
+        isPinned: memberIsPinned,
+        updatedAt: updateData.updatedAt,
+      });
+      access.membership.isPinned = memberIsPinned;
+    }
 
-  tasksSnapshot.docs.forEach((taskDoc) => {
-    taskCount++;
-    const taskData = taskDoc.data();
-    if (taskData.completed === true) {
-      completedCount++;
+    if (hasListChanges) {
+      await access.listRef.update(listUpdate);
     }
-  });
+  } else {
+    // Update the list
+    await access.listRef.update(updateData);
+  }
 
-  const responseData: ListResponse = {
-    id: listId,
-    title: updateData.title ?? listData.title,
-    isPinned: updateData.isPinned ?? listData.isPinned,
-    taskCount,
-    completedCount,
-    createdAt: listData.createdAt.toDate().toISOString(),
-    updatedAt: updateData.updatedAt.toDate().toISOString(),
-  };
+  // Get updated list data with task counts
+  const listData = access.listDoc.data() as List;
+  const isListChanged = !access.membership || hasListChanges;
+  const { isPinned: updatedIsPinned, ...listChanges } = updateData;
+
+  const responseData = await toListResponse(access, {
+    ...listData,
+    ...listChanges,
+    isPinned: updatedIsPinned ?? listData.isPinned,
+    updatedAt: isListChanged ? updateData.updatedAt : listData.updatedAt,
+  });
 
   res.json({
     success: true,
@@ -344,64 +588,109 @@ router.patch('/:listId', protectedRoute, asyncHandler(async (req: Request, res:
 
 /**
  * DELETE /api/lists/:listId
- * Delete a list and all its tasks for the authenticated user
+ * Move a list and all its tasks to the trash - only the owner can do this
+ * Collaborators and share links stop working until the list is restored
  */
 router.delete('/:listId', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
   const listId = req.params.listId as string;
 
   // Get the list document to verify it exists
-  const listsRef = db.collection('users').doc(userId).collection('lists');
-  const listDocRef = listsRef.doc(listId);
-  const listDoc = await listDocRef.get();
+  const { listRef } = await requireListAccess(userId, listId, 'owner');
 
-  if (!listDoc.exists) {
-    throw new AppError('List not found', 404, 'NOT_FOUND');
+  // Tasks stay as they are, so restoring the list brings all of them back
+  await listRef.update({
+    deletedAt: firestore.Timestamp.now(),
+  });
+
+  res.json({
+    success: true,
+    message: 'List moved to trash',
+  });
+}));
+
+/**
+ * POST /api/lists/:listId/duplicate
+ * Copy a list and its tasks, in order, into a new list owned by the authenticated user
+ * Shared lists can be copied too; collaborators and share links are not copied
+ */
+router.post('/:listId/duplicate', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const listId = req.params.listId as string;
+  const { title, resetCompletion = false } = req.body as DuplicateListRequest;
+
+  if (typeof resetCompletion !== 'boolean') {
+    throw new AppError('resetCompletion must be a boolean', 400, 'VALIDATION_ERROR');
   }
 
-  // Delete all tasks in the subcollection first
-  const tasksRef = listDocRef.collection('tasks');
-  const tasksSnapshot = await tasksRef.get();
+  // Verify the list exists and the user can see it
+  const { listRef, listDoc } = await requireListAccess(userId, listId, 'viewer');
+  const listData = listDoc.data() as List;
 
-  // Use batched writes for efficiency (max 500 operations per batch)
-  const batch = db.batch();
-  tasksSnapshot.docs.forEach((taskDoc) => {
-    batch.delete(taskDoc.ref);
-  });
+  let copyTitle = `${listData.title.slice(0, TITLE_MAX_LENGTH - ' (copy)'.length)} (copy)`;
 
-  // Delete the list document itself
-  batch.delete(listDocRef);
+  // Validate and use title if provided
+  if (title !== undefined) {
+    if (typeof title !== 'string') {
+      throw new AppError('Title must be a string', 400, 'VALIDATION_ERROR');
+    }
 
-  // Commit the batch
-  await batch.commit();
+    copyTitle = title.trim();
 
-  res.json({
+    if (copyTitle.length === 0) {
+      throw new AppError('Title is required', 400, 'VALIDATION_ERROR');
+    }
+
+    if (copyTitle.length > TITLE_MAX_LENGTH) {
+      throw new AppError(
+        `Title must be at most ${TITLE_MAX_LENGTH} characters`,
+        400,
+        'VALIDATION_ERROR'
+      );
+    }
+  }
+
+  // Copy the tasks outside the trash, keeping their order
+  const tasksSnapshot = await listRef.collection('tasks').orderBy('order', 'asc').get();
+  const tasks = tasksSnapshot.docs
+    .filter((doc) => !isTrashed(doc))
+    .map((doc) => {
+      const taskData = doc.data() as Task;
+      return {
+        title: taskData.title,
+        isCompleted: resetCompletion ? false : taskData.isCompleted,
+      };
+    });
+
+  // The copy looks like the original
+  const responseData = await createOwnedList(userId, copyTitle, getListAppearance(listData), tasks);
+
+  res.status(201).json({
     success: true,
-    message: 'List deleted successfully',
+    message: 'List duplicated successfully',
+    list: responseData,
   });
 }));
 
 /**
  * GET /api/lists/:listId/tasks
- * Get all tasks for a list
+ * Get all tasks for a list, and how many it can hold under its owner's limits
  */
 router.get('/:listId/tasks', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
   const listId = req.params.listId as string;
 
-  // Verify the list exists
-  const listsRef = db.collection('users').doc(userId).collection('lists');
-  const listDoc = await listsRef.doc(listId).get();
-
-  if (!listDoc.exists) {
-    throw new AppError('List not found', 404, 'NOT_FOUND');
-  }
+  // Verify the list exists and the user can see it
+  const { listRef, ownerId } = await requireListAccess(userId, listId, 'viewer');
 
   // Get all tasks for the list, sorted by order
-  const tasksRef = listsRef.doc(listId).collection('tasks');
-  const tasksSnapshot = await tasksRef.orderBy('order', 'asc').get();
+  const tasksRef = listRef.collection('tasks');
+  const [tasksSnapshot, limits] = await Promise.all([
+    tasksRef.orderBy('order', 'asc').get(),
+    getUserLimits(ownerId),
+  ]);
 
-  const tasks: TaskResponse[] = tasksSnapshot.docs.map((doc) => {
+  const tasks: TaskResponse[] = tasksSnapshot.docs.filter((doc) => !isTrashed(doc)).map((doc) => {
     const taskData = doc.data() as Task;
     return {
       id: doc.id,
@@ -416,6 +705,7 @@ router.get('/:listId/tasks', protectedRoute, asyncHandler(async (req: Request, r
   res.json({
     success: true,
     tasks,
+    maxTasks: limits.maxTasksPerList,
   });
 }));
 
@@ -447,58 +737,68 @@ router.post('/:listId/tasks', protectedRoute, asyncHandler(async (req: Request,
     );
   }
 
-  // Verify the list exists
-  const listsRef = db.collection('users').doc(userId).collection('lists');
-  const listDoc = await listsRef.doc(listId).get();
+  // Verify the list exists and the user can edit it - the owner's limits apply
+  const { listRef, ownerId } = await requireListAccess(userId, listId, 'editor');
+  const { maxTasksPerList } = await getUserLimits(ownerId);
 
-  if (!listDoc.exists) {
-    throw new AppError('List not found', 404, 'NOT_FOUND');
-  }
+  const tasksRef = listRef.collection('tasks');
+  const taskDocRef = tasksRef.doc();
+  const now = firestore.Timestamp.now();
 
-  // Check task count for list
-  const tasksRef = listsRef.doc(listId).collection('tasks');
-  const existingTasks = await tasksRef.count().get();
-  const taskCount = existingTasks.data().count;
+  // Check the limit, add the task and count it together
+  const taskData = await db.runTransaction(async (transaction) => {
+    const listDoc = await transaction.get(listRef);
 
-  if (taskCount >= MAX_TASKS_PER_LIST) {
-    throw new AppError(
-      `Maximum ${MAX_TASKS_PER_LIST} tasks allowed per list`,
-      400,
-      'MAX_TASKS_REACHED'
-    );
-  }
+    if (!listDoc.exists || isTrashed(listDoc)) {
+      throw new AppError('List not found', 404, 'NOT_FOUND');
+    }
 
-  // Get max order for existing tasks
-  const lastTaskSnapshot = await tasksRef.orderBy('order', 'desc').limit(1).get();
-  let maxOrder = 0;
-  if (!lastTaskSnapshot.empty) {
-    const lastTask = lastTaskSnapshot.docs[0].data() as Task;
-    maxOrder = lastTask.order;
-  }
+    // Tasks in the trash don't count
+    const counters = await readListCounters(transaction, listDoc);
 
-  // Create task document
-  const now = firestore.Timestamp.now();
-  const taskData: Task = {
-    title: trimmedTitle,
-    isCompleted: false,
-    order: maxOrder + 1,
-    createdAt: now,
-    updatedAt: now,
-  };
+    if (counters.taskCount >= maxTasksPerList) {
+      throw new AppError(
+        `Maximum ${maxTasksPerList} tasks allowed per list`,
+        400,
+        'MAX_TASKS_REACHED'
+      );
+    }
+
+    // Get max order for existing tasks
+    const lastTaskSnapshot = await transaction.get(tasksRef.orderBy('order', 'desc').limit(1));
+    let maxOrder = 0;
+    if (!lastTaskSnapshot.empty) {
+      const lastTask = lastTaskSnapshot.docs[0].data() as Task;
+      maxOrder = lastTask.order;
+    }
 
-  const taskDoc = await tasksRef.add(taskData);
+    // Create task document
+    const newTask: Task = {
+      title: trimmedTitle,
+      isCompleted: false,
+      order: maxOrder + 1,
+      createdAt: now,
+      updatedAt: now,
+    };
 
-  // Update the list's updatedAt timestamp
-  await listsRef.doc(listId).update({
-    updatedAt: now,
+    transaction.set(taskDocRef, newTask);
+
+    // Update the list's counters and updatedAt timestamp
+    transaction.update(listRef, {
+      taskCount: counters.taskCount + 1,
+      completedCount: counters.completedCount,
+      updatedAt: now,
+    });
+
+    return newTask;
   });
 
   // Return created task
   const responseData: TaskResponse = {
-    id: taskDoc.id,
+    id: taskDocRef.id,
     title: trimmedTitle,
     isCompleted: false,
-    order: maxOrder + 1,
+    order: taskData.order,
     createdAt: now.toDate().toISOString(),
     updatedAt: now.toDate().toISOString(),
   };
@@ -538,16 +838,11 @@ router.patch('/:listId/tasks/reorder', protectedRoute, asyncHandler(async (req:
     }
   }
 
-  // Verify the list exists
-  const listsRef = db.collection('users').doc(userId).collection('lists');
-  const listDoc = await listsRef.doc(listId).get();
-
-  if (!listDoc.exists) {
-    throw new AppError('List not found', 404, 'NOT_FOUND');
-  }
+  // Verify the list exists and the user can edit it
+  const { listRef } = await requireListAccess(userId, listId, 'editor');
 
   // Verify all tasks exist and prepare batch updates
-  const tasksRef = listsRef.doc(listId).collection('tasks');
+  const tasksRef = listRef.collection('tasks');
   const now = firestore.Timestamp.now();
   const batch = db.batch();
 
@@ -557,7 +852,7 @@ router.patch('/:listId/tasks/reorder', protectedRoute, asyncHandler(async (req:
     const taskDocRef = tasksRef.doc(orderItem.taskId);
     const taskDoc = await taskDocRef.get();
 
-    if (!taskDoc.exists) {
+    if (!taskDoc.exists || isTrashed(taskDoc)) {
       throw new AppError(`Task ${orderItem.taskId} not found`, 404, 'NOT_FOUND');
     }
 
@@ -581,7 +876,7 @@ router.patch('/:listId/tasks/reorder', protectedRoute, asyncHandler(async (req:
   }
 
   // Update list's updatedAt timestamp
-  batch.update(listsRef.doc(listId), {
+  batch.update(listRef, {
     updatedAt: now,
   });
 
@@ -647,33 +942,40 @@ router.patch('/:listId/tasks/:taskId', protectedRoute, asyncHandler(async (req:
     updateData.title = trimmedTitle;
   }
 
-  // Verify the list exists
-  const listsRef = db.collection('users').doc(userId).collection('lists');
-  const listDoc = await listsRef.doc(listId).get();
+  // Verify the list exists and the user can edit it
+  const { listRef } = await requireListAccess(userId, listId, 'editor');
 
-  if (!listDoc.exists) {
-    throw new AppError('List not found', 404, 'NOT_FOUND');
-  }
+  const taskDocRef = listRef.collection('tasks').doc(taskId);
 
-  // Verify the task exists
-  const tasksRef = listsRef.doc(listId).collection('tasks');
-  const taskDocRef = tasksRef.doc(taskId);
-  const taskDoc = await taskDocRef.get();
+  // Update the task and keep the list's completed count in step
+  const taskData = await db.runTransaction(async (transaction) => {
+    const listDoc = await transaction.get(listRef);
+    const taskDoc = await transaction.get(taskDocRef);
 
-  if (!taskDoc.exists) {
-    throw new AppError('Task not found', 404, 'NOT_FOUND');
-  }
+    if (!taskDoc.exists || isTrashed(taskDoc)) {
+      throw new AppError('Task not found', 404, 'NOT_FOUND');
+    }
 
-  // Update the task
-  await taskDocRef.update(updateData);
+    const currentTask = taskDoc.data() as Task;
+    const counters = await readListCounters(transaction, listDoc);
 
-  // Update the list's updatedAt timestamp
-  await listsRef.doc(listId).update({
-    updatedAt: now,
-  });
+    transaction.update(taskDocRef, updateData);
 
-  // Get task data for response
-  const taskData = taskDoc.data() as Task;
+    // Counters read before this write already include the task's old state
+    let completedCount = counters.completedCount;
+    if (updateData.isCompleted !== undefined && updateData.isCompleted !== currentTask.isCompleted) {
+      completedCount += updateData.isCompleted ? 1 : -1;
+    }
+
+    // Update the list's counters and updatedAt timestamp
+    transaction.update(listRef, {
+      taskCount: counters.taskCount,
+      completedCount,
+      updatedAt: now,
+    });
+
+    return currentTask;
+  });
 
   const responseData: TaskResponse = {
     id: taskId,
@@ -693,42 +995,46 @@ router.patch('/:listId/tasks/:taskId', protectedRoute, asyncHandler(async (req:
 
 /**
  * DELETE /api/lists/:listId/tasks/:taskId
- * Delete a task from a list
+ * Move a task to the trash
  */
 router.delete('/:listId/tasks/:taskId', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
   const listId = req.params.listId as string;
   const taskId = req.params.taskId as string;
 
-  // Verify the list exists
-  const listsRef = db.collection('users').doc(userId).collection('lists');
-  const listDoc = await listsRef.doc(listId).get();
+  // Verify the list exists and the user can edit it
+  const { listRef } = await requireListAccess(userId, listId, 'editor');
 
-  if (!listDoc.exists) {
-    throw new AppError('List not found', 404, 'NOT_FOUND');
-  }
+  const taskDocRef = listRef.collection('tasks').doc(taskId);
+  const now = firestore.Timestamp.now();
 
-  // Verify the task exists
-  const tasksRef = listsRef.doc(listId).collection('tasks');
-  const taskDocRef = tasksRef.doc(taskId);
-  const taskDoc = await taskDocRef.get();
+  // Move the task to the trash and stop counting it
+  await db.runTransaction(async (transaction) => {
+    const listDoc = await transaction.get(listRef);
+    const taskDoc = await transaction.get(taskDocRef);
 
-  if (!taskDoc.exists) {
-    throw new AppError('Task not found', 404, 'NOT_FOUND');
-  }
+    if (!taskDoc.exists || isTrashed(taskDoc)) {
+      throw new AppError('Task not found', 404, 'NOT_FOUND');
+    }
 
-  // Delete the task
-  await taskDocRef.delete();
+    const counters = await readListCounters(transaction, listDoc);
+    const wasCompleted = taskDoc.get('isCompleted') === true;
 
-  // Update the list's updatedAt timestamp
-  const now = firestore.Timestamp.now();
-  await listsRef.doc(listId).update({
-    updatedAt: now,
+    transaction.update(taskDocRef, {
+      deletedAt: now,
+    });
+
+    // Update the list's counters and updatedAt timestamp
+    transaction.update(listRef, {
+      taskCount: Math.max(counters.taskCount - 1, 0),
+      completedCount: Math.max(counters.completedCount - (wasCompleted ? 1 : 0), 0),
+      updatedAt: now,
+    });
   });
 
   res.json({
     success: true,
-    message: 'Task deleted successfully',
+    message: 'Task moved to trash',
   });
 }));
 
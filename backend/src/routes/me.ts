@@ -0,0 +1,97 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { AppError } from '../errors/AppError';
+import { protectedRoute } from '../middleware/auth';
+import { User, ListSortMode } from '../models/user';
+import { getUserLimits } from '../services/quota';
+
+const router = Router();
+
+const LIST_SORT_MODES: ListSortMode[] = ['manual', 'updated'];
+const DEFAULT_LIST_SORT_MODE: ListSortMode = 'updated';
+
+// Types
+interface UpdatePreferencesRequest {
+  listSortMode?: ListSortMode;
+}
+
+interface PreferencesResponse {
+  listSortMode: ListSortMode;
+}
+
+/**
+ * Async handler wrapper to properly catch errors in async routes
+ */
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+};
+
+/**
+ * GET /api/me/preferences
+ * Get the authenticated user's preferences, with defaults for any never set
+ */
+router.get('/preferences', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const userDoc = await db.collection('users').doc(req.user!.id).get();
+  const userData = userDoc.data() as User | undefined;
+
+  const preferences: PreferencesResponse = {
+    listSortMode: userData?.listSortMode ?? DEFAULT_LIST_SORT_MODE,
+  };
+
+  res.json({
+    success: true,
+    preferences,
+  });
+}));
+
+/**
+ * PATCH /api/me/preferences
+ * Update the authenticated user's preferences
+ */
+router.patch('/preferences', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const { listSortMode } = req.body as UpdatePreferencesRequest;
+
+  if (listSortMode === undefined) {
+    throw new AppError('At least one preference (listSortMode) is required', 400, 'VALIDATION_ERROR');
+  }
+
+  if (!LIST_SORT_MODES.includes(listSortMode)) {
+    throw new AppError(
+      `listSortMode must be one of: ${LIST_SORT_MODES.join(', ')}`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  await db.collection('users').doc(req.user!.id).update({
+    listSortMode,
+    updatedAt: firestore.Timestamp.now(),
+  });
+
+  const preferences: PreferencesResponse = { listSortMode };
+
+  res.json({
+    success: true,
+    message: 'Preferences updated successfully',
+    preferences,
+  });
+}));
+
+/**
+ * GET /api/me/limits
+ * Get the authenticated user's plan, and how many lists and tasks per list it allows
+ * Lists shared with the user follow their owner's task limit instead
+ */
+router.get('/limits', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const limits = await getUserLimits(req.user!.id);
+
+  res.json({
+    success: true,
+    limits,
+  });
+}));
+
+export default router;
@@ -0,0 +1,217 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import rateLimit from 'express-rate-limit';
+import { AppError } from '../errors/AppError';
+import {
+  OIDC_PROVIDER_NAME,
+  isOidcEnabled,
+  createAuthorizationRequest,
+  completeAuthorization,
+  resolveOidcUser,
+  reauthenticateSession,
+} from '../services/oidc';
+import { createSession, getSession, getSessionPublicId } from '../services/session';
+import { getAuditContext, recordAuditEvent } from '../services/audit';
+import { SESSION_COOKIE_NAME, setAuthCookies } from '../middleware/auth';
+
+const router = Router();
+
+// Rate limiter for SSO sign-in - 10 requests per minute (start + callback)
+const oidcRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 10, // 10 requests per window
+  message: {
+    error: 'RATE_LIMIT_EXCEEDED',
+    message: 'Too many sign-in attempts. Please try again later.',
+    statusCode: 429,
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Configuration
+const FRONTEND_ORIGIN = process.env.FRONTEND_ORIGIN || 'http://localhost:5173';
+const STATE_COOKIE_NAME = 'oidc_state';
+const STATE_COOKIE_MAX_AGE_MS = 10 * 60 * 1000; // Matches the server-side state lifetime
+
+// Types
+interface LoginQuery {
+  rememberMe?: string;
+  link?: string;
+  reauth?: string;
+}
+
+interface CallbackQuery {
+  code?: string;
+  state?: string;
+  error?: string;
+}
+
+/**
+ * Async handler wrapper to properly catch errors in async routes
+ */
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+};
+
+/**
+ * Sends the browser back to a frontend page
+ * Errors are passed as a code the page turns into a message
+ */
+function redirectToFrontend(res: Response, path: string, errorCode?: string): void {
+  const url = new URL(path, FRONTEND_ORIGIN);
+
+  if (errorCode) {
+    url.searchParams.set('sso_error', errorCode);
+  }
+
+  res.redirect(302, url.toString());
+}
+
+/**
+ * GET /api/auth/oidc/config
+ * Whether SSO is available and the name to show on the sign-in button
+ */
+router.get('/config', (_req: Request, res: Response) => {
+  res.status(200).json({
+    success: true,
+    enabled: isOidcEnabled(),
+    providerName: OIDC_PROVIDER_NAME,
+  });
+});
+
+/**
+ * GET /api/auth/oidc/login
+ * Starts an SSO sign-in by redirecting to the identity provider
+ * With ?link=true and a signed-in session, links the provider account instead
+ * With ?reauth=true and a signed-in session, confirms it's still the user, so
+ * accounts without a password can approve sensitive changes
+ */
+router.get('/login', oidcRateLimiter, asyncHandler(async (req: Request<object, object, object, LoginQuery>, res: Response) => {
+  const isLinking = req.query.link === 'true';
+  const isReauthenticating = !isLinking && req.query.reauth === 'true';
+  const errorPath = isLinking || isReauthenticating ? '/settings' : '/login';
+
+  if (!isOidcEnabled()) {
+    redirectToFrontend(res, errorPath, 'OIDC_DISABLED');
+    return;
+  }
+
+  let linkUserId: string | null = null;
+  let reauthSessionId: string | null = null;
+
+  if (isLinking || isReauthenticating) {
+    const sessionId = req.cookies?.[SESSION_COOKIE_NAME] as string | undefined;
+    const session = sessionId ? await getSession(sessionId) : null;
+
+    if (!session) {
+      redirectToFrontend(res, '/login', 'UNAUTHORIZED');
+      return;
+    }
+
+    if (isLinking) {
+      linkUserId = session.userId;
+    } else {
+      reauthSessionId = session.sessionId;
+    }
+  }
+
+  const { url, state } = await createAuthorizationRequest(
+    req.query.rememberMe === 'true',
+    linkUserId,
+    reauthSessionId
+  );
+
+  // Binds the flow to this browser - the provider redirects back cross-site,
+  // so the cookie must be sent on top-level navigations (lax)
+  res.cookie(STATE_COOKIE_NAME, state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/auth/oidc',
+    maxAge: STATE_COOKIE_MAX_AGE_MS,
+  });
+
+  res.redirect(302, url);
+}));
+
+/**
+ * GET /api/auth/oidc/callback
+ * Completes an SSO sign-in and starts a session
+ */
+router.get('/callback', oidcRateLimiter, asyncHandler(async (req: Request<object, object, object, CallbackQuery>, res: Response) => {
+  const { code, state, error } = req.query;
+  const cookieState = req.cookies?.[STATE_COOKIE_NAME] as string | undefined;
+  const auditContext = getAuditContext(req);
+
+  res.clearCookie(STATE_COOKIE_NAME, { path: '/api/auth/oidc' });
+
+  // The user cancelled at the provider, or the provider refused the request
+  if (error) {
+    redirectToFrontend(res, '/login', 'OIDC_CANCELLED');
+    return;
+  }
+
+  if (typeof code !== 'string' || typeof state !== 'string' || !cookieState || cookieState !== state) {
+    redirectToFrontend(res, '/login', 'OIDC_STATE_INVALID');
+    return;
+  }
+
+  let signIn;
+  let resolved;
+
+  try {
+    signIn = await completeAuthorization(state, code);
+
+    // Re-authentication confirms the signed-in user - it never starts a session
+    if (signIn.reauthSessionId) {
+      const userId = await reauthenticateSession(signIn);
+      recordAuditEvent('sso_reauthenticated', userId, auditContext, {});
+      redirectToFrontend(res, '/settings');
+      return;
+    }
+
+    resolved = await resolveOidcUser(signIn);
+  } catch (err) {
+    if (err instanceof AppError) {
+      if (signIn?.linkUserId || signIn?.reauthSessionId) {
+        redirectToFrontend(res, '/settings', err.code);
+        return;
+      }
+
+      recordAuditEvent('login_failure', null, auditContext, { reason: 'sso_failed', code: err.code });
+      redirectToFrontend(res, '/login', err.code);
+      return;
+    }
+    throw err;
+  }
+
+  const { userId, created } = resolved;
+
+  if (created) {
+    recordAuditEvent('register', userId, auditContext, { sso: true });
+  }
+
+  // Linking keeps the existing session - the user is already signed in
+  if (signIn.linkUserId) {
+    recordAuditEvent('sso_linked', userId, auditContext, {});
+    redirectToFrontend(res, '/settings');
+    return;
+  }
+
+  // A fresh SSO sign-in also confirms sensitive changes for the next few minutes
+  const session = await createSession(userId, signIn.rememberMe, req.get('user-agent'), true);
+
+  setAuthCookies(res, session);
+
+  recordAuditEvent('login_success', userId, auditContext, {
+    sessionId: getSessionPublicId(session.sessionId),
+    rememberMe: signIn.rememberMe,
+    sso: true,
+  });
+
+  redirectToFrontend(res, '/lists');
+}));
+
+export default router;
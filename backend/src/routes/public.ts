@@ -0,0 +1,93 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import rateLimit from 'express-rate-limit';
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { AppError } from '../errors/AppError';
+import { getShareLink } from '../services/shareLink';
+import { isTrashed } from '../services/trash';
+
+const router = Router();
+
+// Types
+interface PublicTaskResponse {
+  id: string;
+  title: string;
+  isCompleted: boolean;
+  order: number;
+}
+
+interface PublicListResponse {
+  title: string;
+  taskCount: number;
+  completedCount: number;
+  updatedAt: string;
+}
+
+/**
+ * Async handler wrapper to properly catch errors in async routes
+ */
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+};
+
+// Public links need no account, so throttle guessing by IP
+const publicRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60, // 60 requests per window
+  message: {
+    error: 'RATE_LIMIT_EXCEEDED',
+    message: 'Too many requests. Please try again later.',
+    statusCode: 429,
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * GET /api/public/lists/:token
+ * Get a list and its tasks through a public share link
+ * No authentication, cookies or CSRF token - the link is the credential
+ */
+router.get('/lists/:token', publicRateLimiter, asyncHandler(async (req: Request, res: Response) => {
+  const shareLink = await getShareLink(req.params.token as string);
+
+  if (!shareLink) {
+    throw new AppError('This link is invalid or has expired', 404, 'SHARE_LINK_INVALID');
+  }
+
+  const listRef = db.collection('users').doc(shareLink.ownerId).collection('lists').doc(shareLink.listId);
+  const listDoc = await listRef.get();
+
+  // Links stop working while the list is in the trash
+  if (!listDoc.exists || isTrashed(listDoc)) {
+    throw new AppError('This link is invalid or has expired', 404, 'SHARE_LINK_INVALID');
+  }
+
+  const tasksSnapshot = await listRef.collection('tasks').orderBy('order', 'asc').get();
+
+  const tasks: PublicTaskResponse[] = tasksSnapshot.docs.filter((doc) => !isTrashed(doc)).map((doc) => ({
+    id: doc.id,
+    title: doc.get('title') as string,
+    isCompleted: doc.get('isCompleted') === true,
+    order: doc.get('order') as number,
+  }));
+
+  const list: PublicListResponse = {
+    title: listDoc.get('title') as string,
+    taskCount: tasks.length,
+    completedCount: tasks.filter((task) => task.isCompleted).length,
+    updatedAt: (listDoc.get('updatedAt') as firestore.Timestamp).toDate().toISOString(),
+  };
+
+  // Shared links shouldn't linger in shared caches once revoked
+  res.set('Cache-Control', 'no-store');
+  res.json({
+    success: true,
+    list,
+    tasks,
+  });
+}));
+
+export default router;
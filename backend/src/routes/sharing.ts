@@ -0,0 +1,350 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { AppError } from '../errors/AppError';
+import { protectedRoute } from '../middleware/auth';
+import { User } from '../models/user';
+import { findUserByUsername } from '../services/username';
+import {
+  requireListAccess,
+  getListAccess,
+  listListMembers,
+  getMembershipId,
+  ListMember,
+  MemberRole,
+  MembershipStatus,
+  ListRole,
+  MEMBER_ROLES,
+} from '../services/listAccess';
+import {
+  createShareLink,
+  listListShareLinks,
+  deleteShareLink,
+  ShareLinkWithId,
+} from '../services/shareLink';
+
+const router = Router();
+
+// Sharing limits
+const MAX_MEMBERS_PER_LIST = 20;
+const MAX_SHARE_LINKS_PER_LIST = 10;
+const SHARE_LINK_MAX_EXPIRY_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Types
+interface InviteMemberRequest {
+  username: string;
+  role: MemberRole;
+}
+
+interface UpdateMemberRequest {
+  role: MemberRole;
+}
+
+interface CreateShareLinkRequest {
+  expiresInDays?: number | null;
+}
+
+interface ShareLinkResponse {
+  id: string;
+  expiresAt: string | null;
+  createdAt: string;
+  lastViewedAt: string | null;
+}
+
+interface MemberResponse {
+  userId: string;
+  username: string | null;
+  role: ListRole;
+  status: MembershipStatus;
+}
+
+/**
+ * Async handler wrapper to properly catch errors in async routes
+ */
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+};
+
+/**
+ * Validates a collaborator role from the request body
+ */
+function validateMemberRole(role: unknown): MemberRole {
+  if (!MEMBER_ROLES.includes(role as MemberRole)) {
+    throw new AppError(`Role must be one of: ${MEMBER_ROLES.join(', ')}`, 400, 'VALIDATION_ERROR');
+  }
+
+  return role as MemberRole;
+}
+
+function toShareLinkResponse(shareLink: ShareLinkWithId): ShareLinkResponse {
+  return {
+    id: shareLink.linkId,
+    expiresAt: shareLink.expiresAt ? shareLink.expiresAt.toDate().toISOString() : null,
+    createdAt: shareLink.createdAt.toDate().toISOString(),
+    lastViewedAt: shareLink.lastViewedAt ? shareLink.lastViewedAt.toDate().toISOString() : null,
+  };
+}
+
+/**
+ * Loads a membership of a list, or throws NOT_FOUND
+ */
+async function getMembership(
+  ownerId: string,
+  listId: string,
+  userId: string
+): Promise<firestore.DocumentSnapshot> {
+  const membershipDoc = await db
+    .collection('listMembers')
+    .doc(getMembershipId(ownerId, listId, userId))
+    .get();
+
+  if (!membershipDoc.exists) {
+    throw new AppError('Member not found', 404, 'NOT_FOUND');
+  }
+
+  return membershipDoc;
+}
+
+/**
+ * GET /api/lists/:listId/members
+ * Get everyone with access to a list - the owner first, then collaborators
+ * Pending invitations are included so the owner can see who hasn't answered yet
+ */
+router.get('/:listId/members', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const access = await getListAccess(req.user!.id, req.params.listId as string);
+  const memberships = await listListMembers(access.ownerId, access.listId);
+
+  const userDocs = await db.getAll(
+    db.collection('users').doc(access.ownerId),
+    ...memberships.map((membership) => db.collection('users').doc(membership.userId))
+  );
+  const usernames = userDocs.map((doc) => (doc.data() as User | undefined)?.username ?? null);
+
+  const members: MemberResponse[] = [
+    {
+      userId: access.ownerId,
+      username: usernames[0],
+      role: 'owner',
+      status: 'accepted',
+    },
+    ...memberships.map((membership, i) => ({
+      userId: membership.userId,
+      username: usernames[i + 1],
+      role: membership.role,
+      status: membership.status,
+    })),
+  ];
+
+  res.json({
+    success: true,
+    members,
+  });
+}));
+
+/**
+ * POST /api/lists/:listId/members
+ * Invite a user to a list by username - they see it once they accept
+ */
+router.post('/:listId/members', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const { username, role: requestedRole } = req.body as InviteMemberRequest;
+  const role = validateMemberRole(requestedRole);
+  const userId = req.user!.id;
+  const access = await requireListAccess(userId, req.params.listId as string, 'owner');
+
+  if (!username || typeof username !== 'string' || username.trim().length === 0) {
+    throw new AppError('Username is required', 400, 'VALIDATION_ERROR');
+  }
+
+  const inviteeDoc = await findUserByUsername(username);
+
+  if (!inviteeDoc) {
+    throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+  }
+
+  if (inviteeDoc.id === userId) {
+    throw new AppError('You already own this list', 400, 'CANNOT_SHARE_WITH_SELF');
+  }
+
+  const memberships = await listListMembers(access.ownerId, access.listId);
+
+  if (memberships.some((membership) => membership.userId === inviteeDoc.id)) {
+    throw new AppError('This user already has access or a pending invitation', 409, 'ALREADY_MEMBER');
+  }
+
+  if (memberships.length >= MAX_MEMBERS_PER_LIST) {
+    throw new AppError(
+      `Maximum ${MAX_MEMBERS_PER_LIST} members allowed per list`,
+      400,
+      'MAX_MEMBERS_REACHED'
+    );
+  }
+
+  const now = firestore.Timestamp.now();
+  const membership: ListMember = {
+    ownerId: access.ownerId,
+    listId: access.listId,
+    userId: inviteeDoc.id,
+    role,
+    status: 'pending',
+    isPinned: false,
+    invitedBy: userId,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await db
+    .collection('listMembers')
+    .doc(getMembershipId(access.ownerId, access.listId, inviteeDoc.id))
+    .set(membership);
+
+  const member: MemberResponse = {
+    userId: inviteeDoc.id,
+    username: (inviteeDoc.data() as User).username,
+    role,
+    status: 'pending',
+  };
+
+  res.status(201).json({
+    success: true,
+    member,
+  });
+}));
+
+/**
+ * PATCH /api/lists/:listId/members/:userId
+ * Change a collaborator's role
+ */
+router.patch('/:listId/members/:userId', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const role = validateMemberRole((req.body as UpdateMemberRequest).role);
+  const access = await requireListAccess(req.user!.id, req.params.listId as string, 'owner');
+  const membershipDoc = await getMembership(access.ownerId, access.listId, req.params.userId as string);
+
+  await membershipDoc.ref.update({
+    role,
+    updatedAt: firestore.Timestamp.now(),
+  });
+
+  res.json({
+    success: true,
+    message: 'Role updated',
+  });
+}));
+
+/**
+ * DELETE /api/lists/:listId/members/:userId
+ * Remove a collaborator or cancel a pending invitation
+ */
+router.delete('/:listId/members/:userId', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const access = await requireListAccess(req.user!.id, req.params.listId as string, 'owner');
+  const membershipDoc = await getMembership(access.ownerId, access.listId, req.params.userId as string);
+
+  await membershipDoc.ref.delete();
+
+  res.json({
+    success: true,
+    message: 'Member removed',
+  });
+}));
+
+/**
+ * POST /api/lists/:listId/leave
+ * Leave a list someone shared with you
+ */
+router.post('/:listId/leave', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const access = await getListAccess(req.user!.id, req.params.listId as string);
+
+  if (!access.membership) {
+    throw new AppError('Owners cannot leave their own list', 400, 'CANNOT_LEAVE_OWN_LIST');
+  }
+
+  await db.collection('listMembers').doc(access.membership.id).delete();
+
+  res.json({
+    success: true,
+    message: 'You left the list',
+  });
+}));
+
+/**
+ * GET /api/lists/:listId/links
+ * Get a list's public share links - the links themselves are only shown once,
+ * when they are created
+ */
+router.get('/:listId/links', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const access = await requireListAccess(req.user!.id, req.params.listId as string, 'owner');
+  const shareLinks = await listListShareLinks(access.ownerId, access.listId);
+
+  res.json({
+    success: true,
+    links: shareLinks.map(toShareLinkResponse),
+  });
+}));
+
+/**
+ * POST /api/lists/:listId/links
+ * Create a public read-only link to a list
+ * Body: expiresInDays (1-365, omit or null for a link that never expires)
+ */
+router.post('/:listId/links', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const { expiresInDays } = req.body as CreateShareLinkRequest;
+  const userId = req.user!.id;
+  const access = await requireListAccess(userId, req.params.listId as string, 'owner');
+
+  // Validate expiry (null or omitted means the link never expires)
+  let expiresAt: firestore.Timestamp | null = null;
+
+  if (expiresInDays !== undefined && expiresInDays !== null) {
+    if (
+      typeof expiresInDays !== 'number' ||
+      !Number.isInteger(expiresInDays) ||
+      expiresInDays < 1 ||
+      expiresInDays > SHARE_LINK_MAX_EXPIRY_DAYS
+    ) {
+      throw new AppError(`Expiry must be between 1 and ${SHARE_LINK_MAX_EXPIRY_DAYS} days`, 400, 'VALIDATION_ERROR');
+    }
+
+    expiresAt = firestore.Timestamp.fromMillis(Date.now() + expiresInDays * DAY_MS);
+  }
+
+  const existingLinks = await listListShareLinks(access.ownerId, access.listId);
+
+  if (existingLinks.length >= MAX_SHARE_LINKS_PER_LIST) {
+    throw new AppError(
+      `Maximum ${MAX_SHARE_LINKS_PER_LIST} share links allowed per list`,
+      400,
+      'MAX_SHARE_LINKS_REACHED'
+    );
+  }
+
+  const { token, shareLink } = await createShareLink(access.ownerId, access.listId, userId, expiresAt);
+
+  res.status(201).json({
+    success: true,
+    token,
+    link: toShareLinkResponse(shareLink),
+  });
+}));
+
+/**
+ * DELETE /api/lists/:listId/links/:linkId
+ * Revoke a public share link - anyone holding it loses access immediately
+ */
+router.delete('/:listId/links/:linkId', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const access = await requireListAccess(req.user!.id, req.params.listId as string, 'owner');
+  const deleted = await deleteShareLink(access.ownerId, access.listId, req.params.linkId as string);
+
+  if (!deleted) {
+    throw new AppError('Share link not found', 404, 'NOT_FOUND');
+  }
+
+  res.json({
+    success: true,
+    message: 'Share link revoked',
+  });
+}));
+
+export default router;
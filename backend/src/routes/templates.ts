@@ -0,0 +1,140 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { AppError } from '../errors/AppError';
+import { protectedRoute } from '../middleware/auth';
+import { requireListAccess } from '../services/listAccess';
+import { isTrashed } from '../services/trash';
+import {
+  createTemplate,
+  listTemplates,
+  countTemplates,
+  deleteTemplate,
+  ListTemplateWithId,
+} from '../services/template';
+
+const router = Router();
+
+// Validation constants
+const TITLE_MAX_LENGTH = 64;
+const MAX_TEMPLATES_PER_USER = 20;
+
+// Types
+interface CreateTemplateRequest {
+  listId: string;
+  title?: string; // Defaults to the list's title
+}
+
+interface TemplateResponse {
+  id: string;
+  title: string;
+  taskCount: number;
+  createdAt: string;
+}
+
+/**
+ * Async handler wrapper to properly catch errors in async routes
+ */
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+};
+
+function toTemplateResponse(template: ListTemplateWithId): TemplateResponse {
+  return {
+    id: template.id,
+    title: template.title,
+    taskCount: template.tasks.length,
+    createdAt: template.createdAt.toDate().toISOString(),
+  };
+}
+
+/**
+ * GET /api/templates
+ * Get the authenticated user's list templates
+ */
+router.get('/', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const templates = await listTemplates(req.user!.id);
+
+  res.json({
+    success: true,
+    templates: templates.map(toTemplateResponse),
+  });
+}));
+
+/**
+ * POST /api/templates
+ * Save a list's tasks as a personal template - any list the user can see works
+ */
+router.post('/', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const { listId, title } = req.body as CreateTemplateRequest;
+
+  if (!listId || typeof listId !== 'string') {
+    throw new AppError('listId is required', 400, 'VALIDATION_ERROR');
+  }
+
+  if (title !== undefined && typeof title !== 'string') {
+    throw new AppError('Title must be a string', 400, 'VALIDATION_ERROR');
+  }
+
+  // Verify the list exists and the user can see it
+  const { listRef, listDoc } = await requireListAccess(userId, listId, 'viewer');
+
+  const trimmedTitle = (title ?? (listDoc.get('title') as string)).trim();
+
+  if (trimmedTitle.length === 0) {
+    throw new AppError('Title is required', 400, 'VALIDATION_ERROR');
+  }
+
+  if (trimmedTitle.length > TITLE_MAX_LENGTH) {
+    throw new AppError(
+      `Title must be at most ${TITLE_MAX_LENGTH} characters`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  if ((await countTemplates(userId)) >= MAX_TEMPLATES_PER_USER) {
+    throw new AppError(
+      `Maximum ${MAX_TEMPLATES_PER_USER} templates allowed per user`,
+      400,
+      'MAX_TEMPLATES_REACHED'
+    );
+  }
+
+  // Keep the titles and order of the tasks outside the trash
+  const tasksSnapshot = await listRef.collection('tasks').orderBy('order', 'asc').get();
+  const tasks = tasksSnapshot.docs
+    .filter((doc) => !isTrashed(doc))
+    .map((doc, index) => ({
+      title: doc.get('title') as string,
+      order: index + 1,
+    }));
+
+  const template = await createTemplate(userId, trimmedTitle, tasks);
+
+  res.status(201).json({
+    success: true,
+    message: 'Template saved successfully',
+    template: toTemplateResponse(template),
+  });
+}));
+
+/**
+ * DELETE /api/templates/:templateId
+ * Delete one of the authenticated user's templates
+ */
+router.delete('/:templateId', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const isDeleted = await deleteTemplate(req.user!.id, req.params.templateId as string);
+
+  if (!isDeleted) {
+    throw new AppError('Template not found', 404, 'NOT_FOUND');
+  }
+
+  res.json({
+    success: true,
+    message: 'Template deleted successfully',
+  });
+}));
+
+export default router;
@@ -0,0 +1,302 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { AppError } from '../errors/AppError';
+import { protectedRoute } from '../middleware/auth';
+import { requireListAccess } from '../services/listAccess';
+import { deleteInBatches } from '../services/batch';
+import {
+  TRASH_RETENTION_MS,
+  getPurgeAt,
+  isTrashed,
+  listTrashedTasks,
+  purgeList,
+} from '../services/trash';
+import { countActiveTasks, getStoredListCounters, readListCounters } from '../services/listCounters';
+import { getUserLimits } from '../services/quota';
+
+const router = Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Types
+interface TrashedListResponse {
+  id: string;
+  title: string;
+  taskCount: number;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+interface TrashedTaskResponse {
+  id: string;
+  listId: string;
+  listTitle: string;
+  title: string;
+  isCompleted: boolean;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+interface TaskResponse {
+  id: string;
+  title: string;
+  isCompleted: boolean;
+  order: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Async handler wrapper to properly catch errors in async routes
+ */
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+};
+
+/**
+ * Loads one of the user's own lists from the trash, or throws NOT_FOUND
+ */
+async function getTrashedList(userId: string, listId: string): Promise<firestore.DocumentSnapshot> {
+  const listDoc = await db.collection('users').doc(userId).collection('lists').doc(listId).get();
+
+  if (!listDoc.exists || !isTrashed(listDoc)) {
+    throw new AppError('List not found in trash', 404, 'NOT_FOUND');
+  }
+
+  return listDoc;
+}
+
+/**
+ * Loads a task from the trash of a list, or throws NOT_FOUND
+ */
+async function getTrashedTask(
+  listRef: firestore.DocumentReference,
+  taskId: string
+): Promise<firestore.DocumentSnapshot> {
+  const taskDoc = await listRef.collection('tasks').doc(taskId).get();
+
+  if (!taskDoc.exists || !isTrashed(taskDoc)) {
+    throw new AppError('Task not found in trash', 404, 'NOT_FOUND');
+  }
+
+  return taskDoc;
+}
+
+function toIsoString(value: unknown): string {
+  return (value as firestore.Timestamp).toDate().toISOString();
+}
+
+/**
+ * GET /api/trash
+ * Get the user's lists in the trash, and tasks trashed from lists they own
+ * Tasks trashed along with their list are restored with it, so only the list is listed
+ */
+router.get('/', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const listsSnapshot = await db.collection('users').doc(userId).collection('lists').get();
+
+  const lists: TrashedListResponse[] = [];
+  const tasks: TrashedTaskResponse[] = [];
+
+  for (const listDoc of listsSnapshot.docs) {
+    const listTitle = listDoc.get('title') as string;
+
+    if (isTrashed(listDoc)) {
+      const deletedAt = listDoc.get('deletedAt') as firestore.Timestamp;
+      let counters = getStoredListCounters(listDoc);
+
+      if (!counters) {
+        const tasksSnapshot = await listDoc.ref.collection('tasks').get();
+        counters = countActiveTasks(tasksSnapshot.docs);
+      }
+
+      lists.push({
+        id: listDoc.id,
+        title: listTitle,
+        taskCount: counters.taskCount,
+        deletedAt: toIsoString(deletedAt),
+        purgeAt: toIsoString(getPurgeAt(deletedAt)),
+      });
+      continue;
+    }
+
+    for (const taskDoc of await listTrashedTasks(listDoc.ref)) {
+      const deletedAt = taskDoc.get('deletedAt') as firestore.Timestamp;
+
+      tasks.push({
+        id: taskDoc.id,
+        listId: listDoc.id,
+        listTitle,
+        title: taskDoc.get('title') as string,
+        isCompleted: taskDoc.get('isCompleted') === true,
+        deletedAt: toIsoString(deletedAt),
+        purgeAt: toIsoString(getPurgeAt(deletedAt)),
+      });
+    }
+  }
+
+  // Most recently deleted first
+  lists.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  tasks.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+  res.json({
+    success: true,
+    retentionDays: Math.round(TRASH_RETENTION_MS / DAY_MS),
+    lists,
+    tasks,
+  });
+}));
+
+/**
+ * DELETE /api/trash
+ * Empty the trash - permanently deletes everything listed by GET /api/trash
+ */
+router.delete('/', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const listsSnapshot = await db.collection('users').doc(userId).collection('lists').get();
+
+  for (const listDoc of listsSnapshot.docs) {
+    if (isTrashed(listDoc)) {
+      await purgeList(listDoc.ref);
+    } else {
+      const trashedTasks = await listTrashedTasks(listDoc.ref);
+      await deleteInBatches(trashedTasks.map((doc) => doc.ref));
+    }
+  }
+
+  res.json({
+    success: true,
+    message: 'Trash emptied',
+  });
+}));
+
+/**
+ * POST /api/trash/lists/:listId/restore
+ * Restore a list from the trash together with its tasks, members and share links
+ */
+router.post('/lists/:listId/restore', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const listDoc = await getTrashedList(userId, req.params.listId as string);
+
+  // Check list count for user - the restored list must fit
+  const [listsSnapshot, { maxLists }] = await Promise.all([
+    db.collection('users').doc(userId).collection('lists').get(),
+    getUserLimits(userId),
+  ]);
+  const listCount = listsSnapshot.docs.filter((doc) => !isTrashed(doc)).length;
+
+  if (listCount >= maxLists) {
+    throw new AppError(
+      `Maximum ${maxLists} lists allowed per user`,
+      400,
+      'MAX_LISTS_REACHED'
+    );
+  }
+
+  await listDoc.ref.update({
+    deletedAt: null,
+    updatedAt: firestore.Timestamp.now(),
+  });
+
+  res.json({
+    success: true,
+    message: 'List restored',
+  });
+}));
+
+/**
+ * DELETE /api/trash/lists/:listId
+ * Permanently delete a list in the trash and all its tasks
+ */
+router.delete('/lists/:listId', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const listDoc = await getTrashedList(req.user!.id, req.params.listId as string);
+
+  await purgeList(listDoc.ref);
+
+  res.json({
+    success: true,
+    message: 'List permanently deleted',
+  });
+}));
+
+/**
+ * POST /api/trash/lists/:listId/tasks/:taskId/restore
+ * Restore a task from the trash to its old position - editors can do this too,
+ * so undoing a delete works on shared lists
+ */
+router.post('/lists/:listId/tasks/:taskId/restore', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const { listRef, ownerId } = await requireListAccess(req.user!.id, req.params.listId as string, 'editor');
+  const { maxTasksPerList } = await getUserLimits(ownerId);
+  const taskDocRef = listRef.collection('tasks').doc(req.params.taskId as string);
+  const now = firestore.Timestamp.now();
+
+  const taskDoc = await db.runTransaction(async (transaction) => {
+    const listDoc = await transaction.get(listRef);
+    const trashedTaskDoc = await transaction.get(taskDocRef);
+
+    if (!trashedTaskDoc.exists || !isTrashed(trashedTaskDoc)) {
+      throw new AppError('Task not found in trash', 404, 'NOT_FOUND');
+    }
+
+    // Check task count for list - the restored task must fit the owner's limit
+    const counters = await readListCounters(transaction, listDoc);
+
+    if (counters.taskCount >= maxTasksPerList) {
+      throw new AppError(
+        `Maximum ${maxTasksPerList} tasks allowed per list`,
+        400,
+        'MAX_TASKS_REACHED'
+      );
+    }
+
+    const isCompleted = trashedTaskDoc.get('isCompleted') === true;
+
+    transaction.update(taskDocRef, {
+      deletedAt: null,
+      updatedAt: now,
+    });
+    transaction.update(listRef, {
+      taskCount: counters.taskCount + 1,
+      completedCount: counters.completedCount + (isCompleted ? 1 : 0),
+      updatedAt: now,
+    });
+
+    return trashedTaskDoc;
+  });
+
+  const responseData: TaskResponse = {
+    id: taskDoc.id,
+    title: taskDoc.get('title') as string,
+    isCompleted: taskDoc.get('isCompleted') === true,
+    order: taskDoc.get('order') as number,
+    createdAt: toIsoString(taskDoc.get('createdAt')),
+    updatedAt: now.toDate().toISOString(),
+  };
+
+  res.json({
+    success: true,
+    message: 'Task restored',
+    task: responseData,
+  });
+}));
+
+/**
+ * DELETE /api/trash/lists/:listId/tasks/:taskId
+ * Permanently delete a task in the trash - only the list owner can do this
+ */
+router.delete('/lists/:listId/tasks/:taskId', protectedRoute, asyncHandler(async (req: Request, res: Response) => {
+  const { listRef } = await requireListAccess(req.user!.id, req.params.listId as string, 'owner');
+  const taskDoc = await getTrashedTask(listRef, req.params.taskId as string);
+
+  await taskDoc.ref.delete();
+
+  res.json({
+    success: true,
+    message: 'Task permanently deleted',
+  });
+}));
+
+export default router;
@@ -0,0 +1,15 @@
+import { repairAllListCounters } from '../services/listCounters';
+
+/**
+ * Recounts the tasks of every list and fixes any stored counters that drifted
+ * Usage: npm run repair-counters
+ */
+repairAllListCounters()
+  .then((repaired) => {
+    console.log(`Repaired task counters on ${repaired} list(s)`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,35 @@
+import { firestore } from 'firebase-admin';
+import { UserRole } from '../models/user';
+import { findUserByUsername } from '../services/username';
+
+const ROLES: UserRole[] = ['user', 'admin'];
+
+/**
+ * Grants or removes the admin role
+ * Usage: npm run set-role -- <username> <admin|user>
+ */
+async function setUserRole(username: string | undefined, role: string | undefined): Promise<void> {
+  if (!username || !ROLES.includes(role as UserRole)) {
+    throw new Error('Usage: npm run set-role -- <username> <admin|user>');
+  }
+
+  const userDoc = await findUserByUsername(username);
+
+  if (!userDoc) {
+    throw new Error(`User ${username} not found`);
+  }
+
+  await userDoc.ref.update({
+    role,
+    updatedAt: firestore.Timestamp.now(),
+  });
+
+  console.log(`${userDoc.get('username')} is now ${role === 'admin' ? 'an admin' : 'a regular user'}`);
+}
+
+setUserRole(process.argv[2], process.argv[3])
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,65 @@
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { deleteInBatches } from './batch';
+import { deleteUserSessions } from './session';
+import { deleteUserApiTokens } from './apiToken';
+import { deleteUserPasskeys } from './passkey';
+import { deleteUserOidcIdentities } from './oidc';
+import { deleteUserEmailTokens } from './emailToken';
+import { deleteUserMemberships } from './listAccess';
+import { deleteUserShareLinks } from './shareLink';
+import { releaseUsername } from './username';
+import { deleteUserAuditEvents } from './audit';
+import { deleteUserPendingLogins } from './twoFactor';
+import { resetLoginFailures } from './loginThrottle';
+
+/**
+ * Permanently deletes a user and everything they own:
+ * all lists and their tasks, list templates, list memberships both ways, public
+ * share links, all sessions, pending two-factor sign-ins, API tokens, passkeys,
+ * SSO links and emailed links, failed login tracking for the username, the
+ * username reservation, the audit log, and the user document itself
+ */
+export async function deleteUserAccount(userId: string): Promise<void> {
+  const userRef = db.collection('users').doc(userId);
+  const userDoc = await userRef.get();
+  const listsSnapshot = await userRef.collection('lists').get();
+  const templatesSnapshot = await userRef.collection('templates').get();
+
+  // Collect every task, list and template document under the user
+  const dataRefs: firestore.DocumentReference[] = [];
+
+  for (const listDoc of listsSnapshot.docs) {
+    const tasksSnapshot = await listDoc.ref.collection('tasks').get();
+    tasksSnapshot.docs.forEach((taskDoc) => {
+      dataRefs.push(taskDoc.ref);
+    });
+    dataRefs.push(listDoc.ref);
+  }
+
+  templatesSnapshot.docs.forEach((templateDoc) => {
+    dataRefs.push(templateDoc.ref);
+  });
+
+  await deleteInBatches(dataRefs);
+  await deleteUserMemberships(userId);
+  await deleteUserShareLinks(userId);
+
+  // Sign the user out everywhere before removing the account
+  await deleteUserSessions(userId);
+  await deleteUserPendingLogins(userId);
+  await deleteUserApiTokens(userId);
+  await deleteUserPasskeys(userId);
+  await deleteUserOidcIdentities(userId);
+  await deleteUserEmailTokens(userId);
+  await deleteUserAuditEvents(userId);
+
+  // Free the username for new registrations, without its failed logins
+  if (userDoc.exists) {
+    const username = userDoc.data()?.username || '';
+    await resetLoginFailures(username);
+    await releaseUsername(userId, username);
+  }
+
+  await userRef.delete();
+}
@@ -0,0 +1,148 @@
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { AppError } from '../errors/AppError';
+import { User, UserWithId } from '../models/user';
+import { sendMail } from './mailer';
+import { createEmailToken, deleteUserEmailTokens } from './emailToken';
+
+// Links in emails point at the frontend, which calls the API
+const FRONTEND_ORIGIN = process.env.FRONTEND_ORIGIN || 'http://localhost:5173';
+const APP_NAME = process.env.MAIL_APP_NAME || 'TaskList';
+
+// Email rules - a pragmatic check, the verification link proves the rest
+const EMAIL_MAX_LENGTH = 254;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// A shared inbox can recover at most this many accounts in one request
+const MAX_RESET_ACCOUNTS_PER_EMAIL = 5;
+
+/**
+ * Lowercases and trims an address so lookups match however it was typed
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Validates an email address and returns it normalized
+ */
+export function validateEmail(email: unknown): string {
+  if (!email || typeof email !== 'string') {
+    throw new AppError('Email is required', 400, 'VALIDATION_ERROR');
+  }
+
+  const normalized = normalizeEmail(email);
+
+  if (normalized.length > EMAIL_MAX_LENGTH || !EMAIL_PATTERN.test(normalized)) {
+    throw new AppError('Please enter a valid email address', 400, 'VALIDATION_ERROR');
+  }
+
+  return normalized;
+}
+
+function buildLink(path: string, token: string): string {
+  const url = new URL(path, FRONTEND_ORIGIN);
+  url.searchParams.set('token', token);
+  return url.toString();
+}
+
+/**
+ * Emails a link that confirms the user owns their address
+ */
+export async function sendVerificationEmail(
+  userId: string,
+  username: string,
+  email: string
+): Promise<void> {
+  const token = await createEmailToken(userId, 'verify_email', email);
+
+  await sendMail({
+    to: email,
+    subject: `Confirm your email for ${APP_NAME}`,
+    text: [
+      `Hi ${username},`,
+      '',
+      `Confirm this address for your ${APP_NAME} account by opening the link below:`,
+      '',
+      buildLink('/verify-email', token),
+      '',
+      "If you didn't add this address, you can ignore this email.",
+    ].join('\n'),
+  });
+}
+
+/**
+ * Emails a single-use password reset link
+ */
+export async function sendPasswordResetEmail(user: UserWithId, email: string): Promise<void> {
+  const token = await createEmailToken(user.id, 'password_reset', email);
+
+  await sendMail({
+    to: email,
+    subject: `Reset your ${APP_NAME} password`,
+    text: [
+      `Hi ${user.username},`,
+      '',
+      `Someone asked to reset the password for your ${APP_NAME} account. Open the link below to choose a new one:`,
+      '',
+      buildLink('/reset-password', token),
+      '',
+      "The link works once and expires soon. If you didn't ask for this, you can ignore this email - your password won't change.",
+    ].join('\n'),
+  });
+}
+
+/**
+ * Finds the accounts that have verified an address - only verified
+ * addresses can be used to recover an account
+ */
+export async function findUsersByVerifiedEmail(email: string): Promise<UserWithId[]> {
+  const usersSnapshot = await db
+    .collection('users')
+    .where('email', '==', normalizeEmail(email))
+    .where('emailVerified', '==', true)
+    .limit(MAX_RESET_ACCOUNTS_PER_EMAIL)
+    .get();
+
+  return usersSnapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as User) }));
+}
+
+/**
+ * Sets or removes a user's email address
+ * A new address starts unverified, and links sent to the old one stop working
+ */
+export async function setUserEmail(userId: string, email: string | null): Promise<void> {
+  await db.collection('users').doc(userId).update({
+    email,
+    emailVerified: false,
+    emailVerifiedAt: null,
+    updatedAt: firestore.Timestamp.now(),
+  });
+
+  await deleteUserEmailTokens(userId);
+}
+
+/**
+ * Marks an address as verified if it is still the user's current address
+ * Returns false if the user has since changed or removed it
+ */
+export async function markEmailVerified(userId: string, email: string): Promise<boolean> {
+  const userRef = db.collection('users').doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+
+    if (!userDoc.exists || (userDoc.data() as User).email !== email) {
+      return false;
+    }
+
+    const now = firestore.Timestamp.now();
+    transaction.update(userRef, {
+      emailVerified: true,
+      emailVerifiedAt: now,
+      updatedAt: now,
+    });
+
+    return true;
+  });
+}
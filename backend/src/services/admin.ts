@@ -0,0 +1,114 @@
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { User, UserWithId } from '../models/user';
+import { normalizeUsername, UsernameReservation } from './username';
+import { listUserSessions } from './session';
+import { listUserApiTokens } from './apiToken';
+import { getListCounters } from './listCounters';
+import { isTrashed } from './trash';
+
+// Types
+export interface UserUsage {
+  listCount: number;
+  taskCount: number;
+  completedTaskCount: number;
+  activeSessionCount: number;
+  apiTokenCount: number;
+}
+
+/**
+ * Lists users alphabetically by username, optionally filtered by a prefix
+ * Pages through username reservations - the cursor is the last normalized
+ * username returned, and nextCursor is null on the last page
+ */
+export async function searchUsers(
+  query: string,
+  limit: number,
+  cursor?: string
+): Promise<{ users: UserWithId[]; nextCursor: string | null }> {
+  const prefix = normalizeUsername(query);
+  let reservationsQuery = db
+    .collection('usernames')
+    .orderBy(firestore.FieldPath.documentId());
+
+  // Prefix match - \uf8ff sorts after every character usernames can contain
+  if (prefix) {
+    reservationsQuery = reservationsQuery
+      .where(firestore.FieldPath.documentId(), '>=', prefix)
+      .where(firestore.FieldPath.documentId(), '<', `${prefix}\uf8ff`);
+  }
+
+  if (cursor) {
+    reservationsQuery = reservationsQuery.startAfter(cursor);
+  }
+
+  // Fetch one extra to know whether there is another page
+  const reservationsSnapshot = await reservationsQuery.limit(limit + 1).get();
+  const reservationDocs = reservationsSnapshot.docs.slice(0, limit);
+  const hasMore = reservationsSnapshot.size > limit;
+
+  if (reservationDocs.length === 0) {
+    return { users: [], nextCursor: null };
+  }
+
+  const userRefs = reservationDocs.map((doc) =>
+    db.collection('users').doc((doc.data() as UsernameReservation).userId)
+  );
+  const userDocs = await db.getAll(...userRefs);
+
+  const users = userDocs
+    .filter((doc) => doc.exists)
+    .map((doc) => ({ id: doc.id, ...(doc.data() as User) }));
+
+  return {
+    users,
+    nextCursor: hasMore ? reservationDocs[reservationDocs.length - 1].id : null,
+  };
+}
+
+/**
+ * Counts what a user owns and how they are signed in
+ * Lists and tasks in the trash don't count, matching the user's quota
+ */
+export async function getUserUsage(userId: string): Promise<UserUsage> {
+  const listsRef = db.collection('users').doc(userId).collection('lists');
+  const listsSnapshot = await listsRef.get();
+  const activeListDocs = listsSnapshot.docs.filter((doc) => !isTrashed(doc));
+
+  // Stored on each list, so this only reads tasks for lists from before the counters
+  const [counters, sessions, apiTokens] = await Promise.all([
+    Promise.all(activeListDocs.map(getListCounters)),
+    listUserSessions(userId),
+    listUserApiTokens(userId),
+  ]);
+
+  let taskCount = 0;
+  let completedTaskCount = 0;
+
+  counters.forEach((listCounters) => {
+    taskCount += listCounters.taskCount;
+    completedTaskCount += listCounters.completedCount;
+  });
+
+  return {
+    listCount: activeListDocs.length,
+    taskCount,
+    completedTaskCount,
+    activeSessionCount: sessions.length,
+    apiTokenCount: apiTokens.length,
+  };
+}
+
+/**
+ * Disables or re-enables a user's account
+ * Disabled users are refused at sign-in and on every authenticated request
+ */
+export async function setUserDisabled(userId: string, disabled: boolean): Promise<void> {
+  const now = firestore.Timestamp.now();
+
+  await db.collection('users').doc(userId).update({
+    disabled,
+    disabledAt: disabled ? now : null,
+    updatedAt: now,
+  });
+}
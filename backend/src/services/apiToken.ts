@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { deleteInBatches } from './batch';
+
+// Token configuration
+const TOKEN_PREFIX = 'tl_pat_';
+const TOKEN_LENGTH = 32; // 256 bits
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000; // Throttle lastUsedAt writes to once a minute
+
+// Types
+export type ApiTokenScope = 'read' | 'write';
+
+export interface ApiToken {
+  userId: string;
+  name: string;
+  tokenHash: string;
+  scope: ApiTokenScope;
+  expiresAt: firestore.Timestamp | null;
+  createdAt: firestore.Timestamp;
+  lastUsedAt: firestore.Timestamp | null;
+}
+
+export interface ApiTokenWithId extends ApiToken {
+  tokenId: string;
+}
+
+/**
+ * Hashes a personal access token - only the hash is ever stored
+ */
+function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Creates a personal access token for a user
+ * Returns the plaintext token, which is only available at creation time
+ */
+export async function createApiToken(
+  userId: string,
+  name: string,
+  scope: ApiTokenScope,
+  expiresAt: firestore.Timestamp | null
+): Promise<{ token: string; apiToken: ApiTokenWithId }> {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(TOKEN_LENGTH).toString('hex')}`;
+
+  const tokenData: ApiToken = {
+    userId,
+    name,
+    tokenHash: hashApiToken(token),
+    scope,
+    expiresAt,
+    createdAt: firestore.Timestamp.now(),
+    lastUsedAt: null,
+  };
+
+  const tokenDoc = await db.collection('apiTokens').add(tokenData);
+
+  return {
+    token,
+    apiToken: { tokenId: tokenDoc.id, ...tokenData },
+  };
+}
+
+/**
+ * Looks up a personal access token presented by a client
+ * Returns null if the token is unknown or expired
+ */
+export async function getApiToken(token: string): Promise<ApiTokenWithId | null> {
+  if (!token || !token.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const tokenQuery = await db
+    .collection('apiTokens')
+    .where('tokenHash', '==', hashApiToken(token))
+    .limit(1)
+    .get();
+
+  if (tokenQuery.empty) {
+    return null;
+  }
+
+  const tokenDoc = tokenQuery.docs[0];
+  const tokenData = tokenDoc.data() as ApiToken;
+
+  if (tokenData.expiresAt && tokenData.expiresAt.toMillis() < Date.now()) {
+    return null;
+  }
+
+  // Record usage, throttled like session activity
+  const lastUsedAt = tokenData.lastUsedAt?.toMillis() ?? 0;
+  if (Date.now() - lastUsedAt >= LAST_USED_UPDATE_INTERVAL_MS) {
+    tokenData.lastUsedAt = firestore.Timestamp.now();
+    await tokenDoc.ref.update({ lastUsedAt: tokenData.lastUsedAt });
+  }
+
+  return { tokenId: tokenDoc.id, ...tokenData };
+}
+
+/**
+ * Lists all personal access tokens belonging to a user, newest first
+ */
+export async function listUserApiTokens(userId: string): Promise<ApiTokenWithId[]> {
+  const tokensSnapshot = await db
+    .collection('apiTokens')
+    .where('userId', '==', userId)
+    .get();
+
+  return tokensSnapshot.docs
+    .map((doc) => ({ tokenId: doc.id, ...(doc.data() as ApiToken) }))
+    .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+}
+
+/**
+ * Revokes one of a user's personal access tokens
+ * Returns false if the token doesn't exist or belongs to someone else
+ */
+export async function deleteApiToken(userId: string, tokenId: string): Promise<boolean> {
+  const tokenRef = db.collection('apiTokens').doc(tokenId);
+  const tokenDoc = await tokenRef.get();
+
+  if (!tokenDoc.exists || (tokenDoc.data() as ApiToken).userId !== userId) {
+    return false;
+  }
+
+  await tokenRef.delete();
+  return true;
+}
+
+/**
+ * Revokes every personal access token belonging to a user
+ * Returns the number of deleted tokens
+ */
+export async function deleteUserApiTokens(userId: string): Promise<number> {
+  const tokensSnapshot = await db
+    .collection('apiTokens')
+    .where('userId', '==', userId)
+    .get();
+
+  return deleteInBatches(tokensSnapshot.docs.map((doc) => doc.ref));
+}
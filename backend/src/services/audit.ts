@@ -0,0 +1,136 @@
+import { Request } from 'express';
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { deleteInBatches } from './batch';
+
+// Audit log configuration
+const USER_AGENT_MAX_LENGTH = 512;
+
+// Types
+export type AuditEventType =
+  | 'register'
+  | 'login_success'
+  | 'login_failure'
+  | 'logout'
+  | 'session_expired'
+  | 'session_revoked'
+  | 'csrf_failure'
+  | 'password_changed'
+  | 'password_reset_requested'
+  | 'password_reset'
+  | 'email_changed'
+  | 'email_verified'
+  | 'username_changed'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'passkey_added'
+  | 'passkey_removed'
+  | 'sso_linked'
+  | 'sso_reauthenticated'
+  | 'api_token_created'
+  | 'api_token_revoked'
+  | 'account_disabled'
+  | 'account_enabled'
+  | 'quota_changed'
+  | 'admin_account_deleted';
+
+export interface AuditContext {
+  ip: string | null;
+  userAgent: string | null;
+}
+
+export interface AuditEvent {
+  userId: string | null;
+  type: AuditEventType;
+  ip: string | null;
+  userAgent: string | null;
+  details: Record<string, unknown>;
+  createdAt: firestore.Timestamp;
+}
+
+export interface AuditEventWithId extends AuditEvent {
+  eventId: string;
+}
+
+/**
+ * Extracts the client IP and user agent from a request
+ */
+export function getAuditContext(req: Pick<Request, 'ip' | 'get'>): AuditContext {
+  return {
+    ip: req.ip ?? null,
+    userAgent: req.get('user-agent')?.slice(0, USER_AGENT_MAX_LENGTH) ?? null,
+  };
+}
+
+/**
+ * Records an audit event without blocking the caller
+ * Failures are logged rather than thrown - auditing must never break auth flows
+ */
+export function recordAuditEvent(
+  type: AuditEventType,
+  userId: string | null,
+  context: AuditContext | null,
+  details: Record<string, unknown> = {}
+): void {
+  const event: AuditEvent = {
+    userId,
+    type,
+    ip: context?.ip ?? null,
+    userAgent: context?.userAgent ?? null,
+    details,
+    createdAt: firestore.Timestamp.now(),
+  };
+
+  db.collection('auditEvents')
+    .add(event)
+    .catch((error) => {
+      console.error(`Failed to record audit event ${type}:`, error);
+    });
+}
+
+/**
+ * Lists a user's audit events, newest first
+ * Pass the last event ID of the previous page as the cursor to continue
+ * Returns the events and the cursor for the next page, or null at the end
+ */
+export async function listUserAuditEvents(
+  userId: string,
+  limit: number,
+  cursor?: string
+): Promise<{ events: AuditEventWithId[]; nextCursor: string | null }> {
+  let query = db
+    .collection('auditEvents')
+    .where('userId', '==', userId)
+    .orderBy('createdAt', 'desc');
+
+  if (cursor) {
+    const cursorDoc = await db.collection('auditEvents').doc(cursor).get();
+
+    // Ignore cursors that don't point at one of this user's events
+    if (cursorDoc.exists && (cursorDoc.data() as AuditEvent).userId === userId) {
+      query = query.startAfter(cursorDoc);
+    }
+  }
+
+  // Fetch one extra event to know whether another page exists
+  const eventsSnapshot = await query.limit(limit + 1).get();
+  const docs = eventsSnapshot.docs.slice(0, limit);
+
+  return {
+    events: docs.map((doc) => ({ eventId: doc.id, ...(doc.data() as AuditEvent) })),
+    nextCursor: eventsSnapshot.size > limit ? docs[docs.length - 1].id : null,
+  };
+}
+
+/**
+ * Deletes every audit event belonging to a user
+ * Returns the number of deleted events
+ */
+export async function deleteUserAuditEvents(userId: string): Promise<number> {
+  const eventsSnapshot = await db
+    .collection('auditEvents')
+    .where('userId', '==', userId)
+    .get();
+
+  return deleteInBatches(eventsSnapshot.docs.map((doc) => doc.ref));
+}
@@ -0,0 +1,43 @@
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+
+// Firestore rejects batched writes with more than 500 operations
+const MAX_BATCH_OPERATIONS = 500;
+
+/**
+ * Deletes the given documents using as many batched writes as needed
+ * Returns the number of deleted documents
+ */
+export async function deleteInBatches(
+  refs: firestore.DocumentReference[]
+): Promise<number> {
+  for (let i = 0; i < refs.length; i += MAX_BATCH_OPERATIONS) {
+    const batch = db.batch();
+
+    refs.slice(i, i + MAX_BATCH_OPERATIONS).forEach((ref) => {
+      batch.delete(ref);
+    });
+
+    await batch.commit();
+  }
+
+  return refs.length;
+}
+
+/**
+ * Applies the given updates using as many batched writes as needed
+ * Each batch is atomic on its own, but the updates as a whole are not
+ */
+export async function updateInBatches(
+  updates: Array<{ ref: firestore.DocumentReference; data: firestore.UpdateData<firestore.DocumentData> }>
+): Promise<void> {
+  for (let i = 0; i < updates.length; i += MAX_BATCH_OPERATIONS) {
+    const batch = db.batch();
+
+    updates.slice(i, i + MAX_BATCH_OPERATIONS).forEach(({ ref, data }) => {
+      batch.update(ref, data);
+    });
+
+    await batch.commit();
+  }
+}
@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { deleteInBatches } from './batch';
+
+/**
+ * Reads a duration in milliseconds from the environment
+ */
+function readDurationMs(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Token configuration
+const EMAIL_TOKEN_LENGTH = 32; // 256 bits
+const TOKEN_TTL_MS: Record<EmailTokenPurpose, number> = {
+  verify_email: readDurationMs('EMAIL_VERIFICATION_TTL_MS', 24 * HOUR_MS),
+  password_reset: readDurationMs('PASSWORD_RESET_TTL_MS', 30 * MINUTE_MS),
+};
+
+// Types
+export type EmailTokenPurpose = 'verify_email' | 'password_reset';
+
+export interface EmailToken {
+  userId: string;
+  purpose: EmailTokenPurpose;
+  email: string; // The address the link was sent to
+  expiresAt: firestore.Timestamp;
+  createdAt: firestore.Timestamp;
+}
+
+/**
+ * Hashes an emailed token - only the hash is stored, as the document ID
+ */
+function hashEmailToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Creates a single-use token to put in an emailed link
+ * Any earlier token for the same purpose stops working, so only the newest
+ * link in the user's inbox is valid
+ */
+export async function createEmailToken(
+  userId: string,
+  purpose: EmailTokenPurpose,
+  email: string
+): Promise<string> {
+  await deleteUserEmailTokens(userId, purpose);
+
+  const token = crypto.randomBytes(EMAIL_TOKEN_LENGTH).toString('base64url');
+  const now = firestore.Timestamp.now();
+
+  const tokenData: EmailToken = {
+    userId,
+    purpose,
+    email,
+    expiresAt: firestore.Timestamp.fromMillis(now.toMillis() + TOKEN_TTL_MS[purpose]),
+    createdAt: now,
+  };
+
+  await db.collection('emailTokens').doc(hashEmailToken(token)).set(tokenData);
+
+  return token;
+}
+
+/**
+ * Looks up a token without redeeming it
+ * Returns null if the token is unknown, expired or for another purpose
+ */
+export async function getEmailToken(
+  token: string,
+  purpose: EmailTokenPurpose
+): Promise<EmailToken | null> {
+  if (!token || typeof token !== 'string') {
+    return null;
+  }
+
+  const tokenDoc = await db.collection('emailTokens').doc(hashEmailToken(token)).get();
+
+  if (!tokenDoc.exists) {
+    return null;
+  }
+
+  const tokenData = tokenDoc.data() as EmailToken;
+
+  if (tokenData.purpose !== purpose || tokenData.expiresAt.toMillis() < Date.now()) {
+    return null;
+  }
+
+  return tokenData;
+}
+
+/**
+ * Redeems a token - it is deleted in the same transaction so it works once
+ * Returns null if the token is unknown, expired or for another purpose
+ */
+export async function consumeEmailToken(
+  token: string,
+  purpose: EmailTokenPurpose
+): Promise<EmailToken | null> {
+  if (!token || typeof token !== 'string') {
+    return null;
+  }
+
+  const tokenRef = db.collection('emailTokens').doc(hashEmailToken(token));
+
+  return db.runTransaction(async (transaction) => {
+    const tokenDoc = await transaction.get(tokenRef);
+
+    if (!tokenDoc.exists) {
+      return null;
+    }
+
+    const tokenData = tokenDoc.data() as EmailToken;
+
+    if (tokenData.purpose !== purpose) {
+      return null;
+    }
+
+    transaction.delete(tokenRef);
+
+    if (tokenData.expiresAt.toMillis() < Date.now()) {
+      return null;
+    }
+
+    return tokenData;
+  });
+}
+
+/**
+ * Deletes a user's outstanding tokens, optionally only those for one purpose
+ */
+export async function deleteUserEmailTokens(
+  userId: string,
+  purpose?: EmailTokenPurpose
+): Promise<number> {
+  let tokensQuery = db.collection('emailTokens').where('userId', '==', userId);
+
+  if (purpose) {
+    tokensQuery = tokensQuery.where('purpose', '==', purpose);
+  }
+
+  const tokensSnapshot = await tokensQuery.get();
+
+  return deleteInBatches(tokensSnapshot.docs.map((doc) => doc.ref));
+}
+
+/**
+ * Deletes every token whose link has expired
+ */
+export async function cleanupExpiredEmailTokens(): Promise<number> {
+  const expiredTokens = await db
+    .collection('emailTokens')
+    .where('expiresAt', '<', firestore.Timestamp.now())
+    .get();
+
+  return deleteInBatches(expiredTokens.docs.map((doc) => doc.ref));
+}
@@ -0,0 +1,287 @@
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { AppError } from '../errors/AppError';
+import { deleteInBatches } from './batch';
+
+// Types
+export type MemberRole = 'editor' | 'viewer';
+export type ListRole = 'owner' | MemberRole;
+export type MembershipStatus = 'pending' | 'accepted';
+
+/**
+ * Membership document stored in the `listMembers` collection
+ * Lists stay under their owner (users/{ownerId}/lists/{listId}) and each
+ * collaborator gets one of these - pending until they accept the invitation
+ */
+export interface ListMember {
+  ownerId: string;
+  listId: string;
+  userId: string;
+  role: MemberRole;
+  status: MembershipStatus;
+  isPinned: boolean; // Collaborators pin shared lists for themselves only
+  order?: number; // Collaborators order shared lists for themselves too
+  invitedBy: string;
+  createdAt: firestore.Timestamp;
+  updatedAt: firestore.Timestamp;
+}
+
+export interface ListMemberWithId extends ListMember {
+  id: string;
+}
+
+/**
+ * What the current user can do with a list, and where it lives
+ */
+export interface ListAccess {
+  listId: string;
+  ownerId: string;
+  role: ListRole;
+  listRef: firestore.DocumentReference;
+  listDoc: firestore.DocumentSnapshot;
+  membership: ListMemberWithId | null; // Null for the owner
+}
+
+// Higher ranks include everything lower ranks can do
+const ROLE_RANK: Record<ListRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export const MEMBER_ROLES: MemberRole[] = ['editor', 'viewer'];
+
+/**
+ * Membership document ID - one membership per user per list
+ */
+export function getMembershipId(ownerId: string, listId: string, userId: string): string {
+  return `${ownerId}_${listId}_${userId}`;
+}
+
+/**
+ * Finds a list the user owns or has accepted an invitation to
+ * Throws NOT_FOUND otherwise, so lists the user can't see don't reveal they exist
+ * Lists in the trash count as not found - they are only reachable through the trash
+ */
+export async function getListAccess(userId: string, listId: string): Promise<ListAccess> {
+  const ownListRef = db.collection('users').doc(userId).collection('lists').doc(listId);
+  const ownListDoc = await ownListRef.get();
+
+  if (ownListDoc.exists) {
+    if (ownListDoc.get('deletedAt')) {
+      throw new AppError('List not found', 404, 'NOT_FOUND');
+    }
+
+    return {
+      listId,
+      ownerId: userId,
+      role: 'owner',
+      listRef: ownListRef,
+      listDoc: ownListDoc,
+      membership: null,
+    };
+  }
+
+  const membershipSnapshot = await db
+    .collection('listMembers')
+    .where('listId', '==', listId)
+    .where('userId', '==', userId)
+    .where('status', '==', 'accepted')
+    .limit(1)
+    .get();
+
+  if (membershipSnapshot.empty) {
+    throw new AppError('List not found', 404, 'NOT_FOUND');
+  }
+
+  const membershipDoc = membershipSnapshot.docs[0];
+  const membership = { id: membershipDoc.id, ...(membershipDoc.data() as ListMember) };
+  const listRef = db.collection('users').doc(membership.ownerId).collection('lists').doc(listId);
+  const listDoc = await listRef.get();
+
+  if (!listDoc.exists || listDoc.get('deletedAt')) {
+    throw new AppError('List not found', 404, 'NOT_FOUND');
+  }
+
+  return {
+    listId,
+    ownerId: membership.ownerId,
+    role: membership.role,
+    listRef,
+    listDoc,
+    membership,
+  };
+}
+
+/**
+ * Finds several lists the user owns or has accepted an invitation to, in the
+ * order given, with one read for all owned lists and one for all shared ones
+ * Throws NOT_FOUND if any of them can't be seen, like getListAccess
+ */
+export async function getListAccessMany(userId: string, listIds: string[]): Promise<ListAccess[]> {
+  const ownListRefs = listIds.map((listId) => db.collection('users').doc(userId).collection('lists').doc(listId));
+  const ownListDocs = await db.getAll(...ownListRefs);
+  const accessById = new Map<string, ListAccess>();
+
+  ownListDocs.forEach((listDoc, index) => {
+    if (listDoc.exists) {
+      if (listDoc.get('deletedAt')) {
+        throw new AppError('List not found', 404, 'NOT_FOUND');
+      }
+
+      accessById.set(listDoc.id, {
+        listId: listDoc.id,
+        ownerId: userId,
+        role: 'owner',
+        listRef: ownListRefs[index],
+        listDoc,
+        membership: null,
+      });
+    }
+  });
+
+  const sharedIds = listIds.filter((listId) => !accessById.has(listId));
+
+  if (sharedIds.length > 0) {
+    const memberships = new Map(
+      (await listUserMemberships(userId, 'accepted')).map((membership) => [membership.listId, membership])
+    );
+
+    const sharedMemberships = sharedIds.map((listId) => {
+      const membership = memberships.get(listId);
+
+      if (!membership) {
+        throw new AppError('List not found', 404, 'NOT_FOUND');
+      }
+
+      return membership;
+    });
+
+    const sharedListRefs = sharedMemberships.map((membership) =>
+      db.collection('users').doc(membership.ownerId).collection('lists').doc(membership.listId)
+    );
+    const sharedListDocs = await db.getAll(...sharedListRefs);
+
+    sharedListDocs.forEach((listDoc, index) => {
+      if (!listDoc.exists || listDoc.get('deletedAt')) {
+        throw new AppError('List not found', 404, 'NOT_FOUND');
+      }
+
+      const membership = sharedMemberships[index];
+      accessById.set(listDoc.id, {
+        listId: listDoc.id,
+        ownerId: membership.ownerId,
+        role: membership.role,
+        listRef: sharedListRefs[index],
+        listDoc,
+        membership,
+      });
+    });
+  }
+
+  return listIds.map((listId) => accessById.get(listId)!);
+}
+
+/**
+ * Finds a list and checks the user's role allows the action
+ * Throws LIST_PERMISSION_DENIED if the user can see the list but not do this
+ */
+export async function requireListAccess(
+  userId: string,
+  listId: string,
+  minimumRole: ListRole
+): Promise<ListAccess> {
+  const access = await getListAccess(userId, listId);
+
+  if (ROLE_RANK[access.role] < ROLE_RANK[minimumRole]) {
+    throw new AppError(
+      minimumRole === 'owner'
+        ? 'Only the list owner can do this'
+        : 'You have view-only access to this list',
+      403,
+      'LIST_PERMISSION_DENIED'
+    );
+  }
+
+  return access;
+}
+
+/**
+ * Lists every membership of a list, pending and accepted, oldest first
+ */
+export async function listListMembers(ownerId: string, listId: string): Promise<ListMemberWithId[]> {
+  const membersSnapshot = await db
+    .collection('listMembers')
+    .where('ownerId', '==', ownerId)
+    .where('listId', '==', listId)
+    .get();
+
+  return membersSnapshot.docs
+    .map((doc) => ({ id: doc.id, ...(doc.data() as ListMember) }))
+    .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+}
+
+/**
+ * Lists a user's memberships with the given status
+ */
+export async function listUserMemberships(
+  userId: string,
+  status: MembershipStatus
+): Promise<ListMemberWithId[]> {
+  const membershipsSnapshot = await db
+    .collection('listMembers')
+    .where('userId', '==', userId)
+    .where('status', '==', status)
+    .get();
+
+  return membershipsSnapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as ListMember) }));
+}
+
+/**
+ * Counts collaborators (pending and accepted) on each of an owner's lists
+ * Returns a map of listId to count - lists with no collaborators are absent
+ */
+export async function countMembersByList(ownerId: string): Promise<Map<string, number>> {
+  const membersSnapshot = await db
+    .collection('listMembers')
+    .where('ownerId', '==', ownerId)
+    .get();
+
+  const counts = new Map<string, number>();
+
+  membersSnapshot.docs.forEach((doc) => {
+    const { listId } = doc.data() as ListMember;
+    counts.set(listId, (counts.get(listId) ?? 0) + 1);
+  });
+
+  return counts;
+}
+
+/**
+ * Deletes every membership of a list - used when the list itself is deleted
+ */
+export async function deleteListMembers(ownerId: string, listId: string): Promise<number> {
+  const membersSnapshot = await db
+    .collection('listMembers')
+    .where('ownerId', '==', ownerId)
+    .where('listId', '==', listId)
+    .get();
+
+  return deleteInBatches(membersSnapshot.docs.map((doc) => doc.ref));
+}
+
+/**
+ * Deletes a user's memberships of other people's lists, and every membership
+ * of the lists they own
+ */
+export async function deleteUserMemberships(userId: string): Promise<number> {
+  const [joinedSnapshot, ownedSnapshot] = await Promise.all([
+    db.collection('listMembers').where('userId', '==', userId).get(),
+    db.collection('listMembers').where('ownerId', '==', userId).get(),
+  ]);
+
+  return deleteInBatches([
+    ...joinedSnapshot.docs.map((doc) => doc.ref),
+    ...ownedSnapshot.docs.map((doc) => doc.ref),
+  ]);
+}
@@ -0,0 +1,119 @@
+import { AppError } from '../errors/AppError';
+
+/**
+ * Accent colors a list can use - the frontend maps each to its own shades
+ */
+export type ListColor =
+  | 'gray'
+  | 'red'
+  | 'orange'
+  | 'yellow'
+  | 'green'
+  | 'teal'
+  | 'blue'
+  | 'purple'
+  | 'pink';
+
+export const LIST_COLORS: ListColor[] = [
+  'gray',
+  'red',
+  'orange',
+  'yellow',
+  'green',
+  'teal',
+  'blue',
+  'purple',
+  'pink',
+];
+
+export const DEFAULT_LIST_COLOR: ListColor = 'gray';
+
+// Validation constants
+const EMOJI_MAX_LENGTH = 32; // UTF-16 code units - joined emoji sequences run long
+const DESCRIPTION_MAX_LENGTH = 500;
+
+// A single emoji: a flag, a keycap, or pictographs joined with zero-width joiners,
+// each optionally with a skin tone, variation selector or tag sequence
+const EMOJI_PATTERN =
+  /^(?:\p{Regional_Indicator}{2}|[#*0-9]\uFE0F?\u20E3|\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}\u{E0020}-\u{E007F}]*(?:\u200D\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]*)*)$/u;
+
+/**
+ * How a list looks on the lists page and at the top of the list
+ */
+export interface ListAppearance {
+  color: ListColor;
+  emoji: string | null;
+  description: string;
+}
+
+/**
+ * A list's appearance, with defaults for lists from before it could be set
+ */
+export function getListAppearance(listData: {
+  color?: ListColor;
+  emoji?: string | null;
+  description?: string;
+}): ListAppearance {
+  return {
+    color: listData.color && LIST_COLORS.includes(listData.color) ? listData.color : DEFAULT_LIST_COLOR,
+    emoji: listData.emoji || null,
+    description: listData.description ?? '',
+  };
+}
+
+/**
+ * Validates a color from a request
+ */
+export function parseListColor(value: unknown): ListColor {
+  if (typeof value !== 'string' || !LIST_COLORS.includes(value as ListColor)) {
+    throw new AppError(`color must be one of: ${LIST_COLORS.join(', ')}`, 400, 'VALIDATION_ERROR');
+  }
+
+  return value as ListColor;
+}
+
+/**
+ * Validates an emoji from a request - null or an empty string removes it
+ */
+export function parseListEmoji(value: unknown): string | null {
+  if (value === null) {
+    return null;
+  }
+
+  if (typeof value !== 'string') {
+    throw new AppError('emoji must be a string', 400, 'VALIDATION_ERROR');
+  }
+
+  const trimmedEmoji = value.trim();
+
+  if (trimmedEmoji.length === 0) {
+    return null;
+  }
+
+  if (trimmedEmoji.length > EMOJI_MAX_LENGTH || !EMOJI_PATTERN.test(trimmedEmoji)) {
+    throw new AppError('emoji must be a single emoji', 400, 'VALIDATION_ERROR');
+  }
+
+  return trimmedEmoji;
+}
+
+/**
+ * Validates a description from a request - it can span several lines
+ */
+export function parseListDescription(value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new AppError('Description must be a string', 400, 'VALIDATION_ERROR');
+  }
+
+  const trimmedDescription = value.replace(/\r\n?/g, '\n').trim();
+
+  if (trimmedDescription.length > DESCRIPTION_MAX_LENGTH) {
+    throw new AppError(
+      `Description must be at most ${DESCRIPTION_MAX_LENGTH} characters`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  return trimmedDescription;
+}
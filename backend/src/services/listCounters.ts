@@ -0,0 +1,154 @@
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { isTrashed } from './trash';
+
+const PAGE_SIZE = 500;
+
+/**
+ * Task counts stored on each list document, so listing lists doesn't read
+ * every task. Tasks in the trash are not counted
+ * Every write that creates, completes, trashes or restores a task updates
+ * them in the same transaction
+ */
+export interface ListCounters {
+  taskCount: number;
+  completedCount: number;
+}
+
+/**
+ * Counts tasks outside the trash and how many of them are completed
+ */
+export function countActiveTasks(taskDocs: firestore.DocumentSnapshot[]): ListCounters {
+  let taskCount = 0;
+  let completedCount = 0;
+
+  taskDocs.forEach((taskDoc) => {
+    if (isTrashed(taskDoc)) {
+      return;
+    }
+
+    taskCount++;
+    if (taskDoc.get('isCompleted') === true) {
+      completedCount++;
+    }
+  });
+
+  return { taskCount, completedCount };
+}
+
+/**
+ * The counters stored on a list, or null on lists from before they were stored
+ */
+export function getStoredListCounters(listDoc: firestore.DocumentSnapshot): ListCounters | null {
+  const taskCount = listDoc.get('taskCount');
+  const completedCount = listDoc.get('completedCount');
+
+  if (typeof taskCount !== 'number' || typeof completedCount !== 'number') {
+    return null;
+  }
+
+  return { taskCount, completedCount };
+}
+
+/**
+ * A list's task counts - stored on the list, but counted from its tasks on
+ * lists the counter migration hasn't reached yet
+ */
+export async function getListCounters(listDoc: firestore.DocumentSnapshot): Promise<ListCounters> {
+  const storedCounters = getStoredListCounters(listDoc);
+
+  if (storedCounters) {
+    return storedCounters;
+  }
+
+  const tasksSnapshot = await listDoc.ref.collection('tasks').get();
+  return countActiveTasks(tasksSnapshot.docs);
+}
+
+/**
+ * Reads a list's counters inside a transaction, counting its tasks if the
+ * list has none stored yet - the caller's write then stores them
+ */
+export async function readListCounters(
+  transaction: firestore.Transaction,
+  listDoc: firestore.DocumentSnapshot
+): Promise<ListCounters> {
+  const storedCounters = getStoredListCounters(listDoc);
+
+  if (storedCounters) {
+    return storedCounters;
+  }
+
+  const tasksSnapshot = await transaction.get(listDoc.ref.collection('tasks'));
+  return countActiveTasks(tasksSnapshot.docs);
+}
+
+/**
+ * Recounts a list's tasks and stores the result
+ * Returns true if the stored counters were missing or wrong
+ */
+export async function recountListTasks(listRef: firestore.DocumentReference): Promise<boolean> {
+  return db.runTransaction(async (transaction) => {
+    const listDoc = await transaction.get(listRef);
+
+    if (!listDoc.exists) {
+      return false;
+    }
+
+    const tasksSnapshot = await transaction.get(listRef.collection('tasks'));
+    const counters = countActiveTasks(tasksSnapshot.docs);
+    const storedCounters = getStoredListCounters(listDoc);
+
+    if (
+      storedCounters &&
+      storedCounters.taskCount === counters.taskCount &&
+      storedCounters.completedCount === counters.completedCount
+    ) {
+      return false;
+    }
+
+    // updatedAt stays as it is - the list's content hasn't changed
+    transaction.update(listRef, { ...counters });
+    return true;
+  });
+}
+
+/**
+ * Recounts the tasks of every list, including lists in the trash
+ * Safe to run at any time; returns the number of lists whose counters were fixed
+ */
+export async function repairAllListCounters(): Promise<number> {
+  let repaired = 0;
+  let lastDoc: firestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = db
+      .collection('users')
+      .orderBy(firestore.FieldPath.documentId())
+      .limit(PAGE_SIZE);
+
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+
+    const usersSnapshot = await query.get();
+
+    for (const userDoc of usersSnapshot.docs) {
+      const listsSnapshot = await userDoc.ref.collection('lists').get();
+
+      for (const listDoc of listsSnapshot.docs) {
+        if (await recountListTasks(listDoc.ref)) {
+          repaired++;
+        }
+      }
+    }
+
+    if (usersSnapshot.size < PAGE_SIZE) {
+      break;
+    }
+
+    lastDoc = usersSnapshot.docs[usersSnapshot.docs.length - 1];
+  }
+
+  return repaired;
+}
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { deleteInBatches } from './batch';
+
+// Lockout configuration
+const LOCKOUT_THRESHOLD = 5; // Failed attempts before the account is locked
+const BASE_LOCKOUT_MS = 30 * 1000; // First lock lasts 30 seconds
+const MAX_LOCKOUT_MS = 60 * 60 * 1000; // Locks never last longer than 1 hour
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000; // Failures older than a day are forgotten
+
+// Types
+interface LoginAttempts {
+  failedCount: number;
+  lastFailedAt: firestore.Timestamp;
+  lockedUntil: firestore.Timestamp | null;
+  expiresAt: firestore.Timestamp; // When the failures are forgotten and cleanup can delete the document
+}
+
+/**
+ * Returns the document tracking failed logins for a username
+ * Usernames are hashed so any input is a valid document ID, and so the
+ * collection doesn't reveal which usernames were targeted
+ */
+function getAttemptsRef(username: string): firestore.DocumentReference {
+  const key = crypto
+    .createHash('sha256')
+    .update(username.trim().toLowerCase())
+    .digest('hex');
+
+  return db.collection('loginAttempts').doc(key);
+}
+
+/**
+ * Returns how long a username is still locked for in milliseconds,
+ * or 0 if logins are allowed
+ */
+export async function getLockoutRemaining(username: string): Promise<number> {
+  const attemptsDoc = await getAttemptsRef(username).get();
+
+  if (!attemptsDoc.exists) {
+    return 0;
+  }
+
+  const attempts = attemptsDoc.data() as LoginAttempts;
+
+  if (!attempts.lockedUntil) {
+    return 0;
+  }
+
+  return Math.max(0, attempts.lockedUntil.toMillis() - Date.now());
+}
+
+/**
+ * Records a failed login for a username
+ * Once the threshold is reached every further failure locks the account,
+ * doubling the lock each time up to the maximum
+ * Returns the lock duration in milliseconds, or 0 if not locked
+ */
+export async function recordLoginFailure(username: string): Promise<number> {
+  const attemptsRef = getAttemptsRef(username);
+
+  return db.runTransaction(async (transaction) => {
+    const attemptsDoc = await transaction.get(attemptsRef);
+    const now = firestore.Timestamp.now();
+
+    let failedCount = 1;
+
+    if (attemptsDoc.exists) {
+      const attempts = attemptsDoc.data() as LoginAttempts;
+      const isRecent = now.toMillis() - attempts.lastFailedAt.toMillis() < FAILURE_WINDOW_MS;
+      failedCount = isRecent ? attempts.failedCount + 1 : 1;
+    }
+
+    let lockDurationMs = 0;
+
+    if (failedCount >= LOCKOUT_THRESHOLD) {
+      const exponent = failedCount - LOCKOUT_THRESHOLD;
+      lockDurationMs = Math.min(BASE_LOCKOUT_MS * 2 ** exponent, MAX_LOCKOUT_MS);
+    }
+
+    const attempts: LoginAttempts = {
+      failedCount,
+      lastFailedAt: now,
+      lockedUntil: lockDurationMs > 0
+        ? firestore.Timestamp.fromMillis(now.toMillis() + lockDurationMs)
+        : null,
+      // Locks never outlast the failure window, so this covers both
+      expiresAt: firestore.Timestamp.fromMillis(now.toMillis() + FAILURE_WINDOW_MS),
+    };
+
+    transaction.set(attemptsRef, attempts);
+
+    return lockDurationMs;
+  });
+}
+
+/**
+ * Clears failed login tracking after a successful login
+ */
+export async function resetLoginFailures(username: string): Promise<void> {
+  await getAttemptsRef(username).delete();
+}
+
+/**
+ * Deletes failed login tracking that has expired
+ * Attempts on usernames that don't exist are tracked too, so without this the
+ * collection would grow with every username ever tried
+ * Returns the number of documents deleted
+ */
+export async function cleanupExpiredLoginAttempts(): Promise<number> {
+  const now = firestore.Timestamp.now();
+  const attemptsRef = db.collection('loginAttempts');
+
+  // Documents written before expiresAt existed are found by their last failure
+  const [expiredAttempts, legacyAttempts] = await Promise.all([
+    attemptsRef.where('expiresAt', '<', now).get(),
+    attemptsRef
+      .where('lastFailedAt', '<', firestore.Timestamp.fromMillis(now.toMillis() - FAILURE_WINDOW_MS))
+      .get(),
+  ]);
+
+  const refs = new Map<string, firestore.DocumentReference>();
+  [...expiredAttempts.docs, ...legacyAttempts.docs].forEach((doc) => refs.set(doc.id, doc.ref));
+
+  return deleteInBatches([...refs.values()]);
+}
@@ -0,0 +1,100 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+// Transport selection - "smtp" sends real mail, "local" logs messages to the
+// console and, when MAIL_OUTBOX_DIR is set, also writes each one to a file
+const MAIL_TRANSPORT = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'local');
+const MAIL_FROM = process.env.MAIL_FROM || 'TaskList <no-reply@tasklist.local>';
+const MAIL_OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || '';
+
+// SMTP configuration
+const SMTP_HOST = process.env.SMTP_HOST || 'localhost';
+const SMTP_PORT = parseInt(process.env.SMTP_PORT || '', 10) || 587;
+const SMTP_SECURE = process.env.SMTP_SECURE === 'true'; // TLS from the start (port 465)
+const SMTP_USER = process.env.SMTP_USER || '';
+const SMTP_PASSWORD = process.env.SMTP_PASSWORD || '';
+
+// Types
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Something that can deliver mail - every message the app sends goes through one
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Delivers mail through an SMTP server
+ */
+export function createSmtpMailer(): Mailer {
+  const transporter = nodemailer.createTransport({
+    host: SMTP_HOST,
+    port: SMTP_PORT,
+    secure: SMTP_SECURE,
+    auth: SMTP_USER ? { user: SMTP_USER, pass: SMTP_PASSWORD } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from: MAIL_FROM, ...message });
+    },
+  };
+}
+
+/**
+ * Development and test mailer - prints each message and optionally writes it
+ * to the outbox directory as JSON so scripts can pick up links from it
+ */
+export function createLocalMailer(outboxDir: string = MAIL_OUTBOX_DIR): Mailer {
+  return {
+    async send(message) {
+      console.log(
+        `\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`
+      );
+
+      if (outboxDir) {
+        const sentAt = new Date().toISOString();
+        const fileName = `${sentAt.replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.json`;
+
+        await fs.mkdir(outboxDir, { recursive: true });
+        await fs.writeFile(
+          path.join(outboxDir, fileName),
+          JSON.stringify({ from: MAIL_FROM, ...message, sentAt }, null, 2)
+        );
+      }
+    },
+  };
+}
+
+let mailer: Mailer | null = null;
+
+/**
+ * Returns the configured mailer, creating it on first use
+ */
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = MAIL_TRANSPORT === 'smtp' ? createSmtpMailer() : createLocalMailer();
+  }
+
+  return mailer;
+}
+
+/**
+ * Replaces the mailer - lets tests capture outgoing messages
+ */
+export function setMailer(replacement: Mailer | null): void {
+  mailer = replacement;
+}
+
+/**
+ * Sends a message through the configured mailer
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailer().send(message);
+}
@@ -0,0 +1,477 @@
+import crypto from 'crypto';
+import { firestore } from 'firebase-admin';
+import { createRemoteJWKSet, jwtVerify, JWTPayload } from 'jose';
+import { db } from '../config/firebase';
+import { AppError } from '../errors/AppError';
+import { User } from '../models/user';
+import { deleteInBatches } from './batch';
+import { getSession, markSessionReauthenticated } from './session';
+import {
+  USERNAME_MAX_LENGTH,
+  USERNAME_MIN_LENGTH,
+  createUserWithUsername,
+  findUserByUsername,
+  isReservedUsername,
+  validateUsername,
+} from './username';
+
+// Provider configuration - SSO is enabled when an issuer and client ID are set
+const OIDC_ISSUER = process.env.OIDC_ISSUER?.replace(/\/$/, '') || '';
+const OIDC_CLIENT_ID = process.env.OIDC_CLIENT_ID || '';
+const OIDC_CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET || '';
+const OIDC_REDIRECT_URI =
+  process.env.OIDC_REDIRECT_URI || 'http://localhost:3001/api/auth/oidc/callback';
+const OIDC_SCOPES = process.env.OIDC_SCOPES || 'openid profile email';
+const OIDC_USERNAME_CLAIM = process.env.OIDC_USERNAME_CLAIM || 'preferred_username';
+const OIDC_AUTO_PROVISION = process.env.OIDC_AUTO_PROVISION !== 'false';
+export const OIDC_PROVIDER_NAME = process.env.OIDC_PROVIDER_NAME || 'SSO';
+
+// Flow configuration
+const STATE_TTL_MS = 10 * 60 * 1000; // Sign-in must finish within 10 minutes
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000; // Re-fetch provider metadata hourly
+const RANDOM_VALUE_LENGTH = 32; // 256 bits for state, nonce and PKCE verifier
+const CLOCK_TOLERANCE_MS = 60 * 1000; // Allowed drift between our clock and the provider's
+
+// Usernames generated for provisioned accounts must satisfy the normal rules
+const USERNAME_SUFFIX_LENGTH = 4;
+const MAX_PROVISION_ATTEMPTS = 5;
+
+// Types
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface OidcState {
+  nonce: string;
+  codeVerifier: string;
+  rememberMe: boolean;
+  linkUserId: string | null;
+  // Session confirming the user again (absent on states from before re-authentication)
+  reauthSessionId?: string | null;
+  expiresAt: firestore.Timestamp;
+}
+
+interface OidcIdentity {
+  userId: string;
+  issuer: string;
+  subject: string;
+  createdAt: firestore.Timestamp;
+}
+
+export interface OidcSignIn {
+  claims: JWTPayload;
+  rememberMe: boolean;
+  linkUserId: string | null;
+  reauthSessionId: string | null;
+  startedAt: number; // Epoch milliseconds
+}
+
+// Cached provider metadata and signing keys
+let metadataCache: { metadata: ProviderMetadata; fetchedAt: number } | null = null;
+let jwks: ReturnType<typeof createRemoteJWKSet> | null = null;
+
+/**
+ * Whether single sign-on is configured
+ */
+export function isOidcEnabled(): boolean {
+  return Boolean(OIDC_ISSUER && OIDC_CLIENT_ID);
+}
+
+function randomValue(): string {
+  return crypto.randomBytes(RANDOM_VALUE_LENGTH).toString('base64url');
+}
+
+function hashValue(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Fetches the provider's discovery document, cached for an hour
+ */
+async function getProviderMetadata(): Promise<ProviderMetadata> {
+  if (metadataCache && Date.now() - metadataCache.fetchedAt < DISCOVERY_CACHE_MS) {
+    return metadataCache.metadata;
+  }
+
+  const response = await fetch(`${OIDC_ISSUER}/.well-known/openid-configuration`);
+
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed with status ${response.status}`);
+  }
+
+  const metadata = (await response.json()) as ProviderMetadata;
+
+  // The discovery document must describe the issuer we were configured with
+  if (metadata.issuer.replace(/\/$/, '') !== OIDC_ISSUER) {
+    throw new Error(`OIDC discovery returned unexpected issuer ${metadata.issuer}`);
+  }
+
+  metadataCache = { metadata, fetchedAt: Date.now() };
+  jwks = createRemoteJWKSet(new URL(metadata.jwks_uri));
+
+  return metadata;
+}
+
+/**
+ * Starts an authorization-code + PKCE sign-in
+ * Stores the state, nonce and code verifier server-side and returns the
+ * provider URL to redirect to, plus the state to bind to the browser
+ * Re-authentication makes the provider ask for the user's credentials again
+ */
+export async function createAuthorizationRequest(
+  rememberMe: boolean,
+  linkUserId: string | null,
+  reauthSessionId: string | null = null
+): Promise<{ url: string; state: string }> {
+  const metadata = await getProviderMetadata();
+
+  const state = randomValue();
+  const nonce = randomValue();
+  const codeVerifier = randomValue();
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const stateData: OidcState = {
+    nonce,
+    codeVerifier,
+    rememberMe,
+    linkUserId,
+    reauthSessionId,
+    expiresAt: firestore.Timestamp.fromMillis(Date.now() + STATE_TTL_MS),
+  };
+
+  await db.collection('oidcStates').doc(hashValue(state)).set(stateData);
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: OIDC_CLIENT_ID,
+    redirect_uri: OIDC_REDIRECT_URI,
+    scope: OIDC_SCOPES,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+
+  if (reauthSessionId) {
+    url.searchParams.set('prompt', 'login');
+    url.searchParams.set('max_age', '0');
+  }
+
+  return { url: url.toString(), state };
+}
+
+/**
+ * Retrieves and deletes a stored state so each sign-in can only complete once
+ */
+async function consumeState(state: string): Promise<OidcState | null> {
+  const stateRef = db.collection('oidcStates').doc(hashValue(state));
+
+  const stateData = await db.runTransaction(async (transaction) => {
+    const stateDoc = await transaction.get(stateRef);
+
+    if (!stateDoc.exists) {
+      return null;
+    }
+
+    transaction.delete(stateRef);
+    return stateDoc.data() as OidcState;
+  });
+
+  if (!stateData || stateData.expiresAt.toMillis() < Date.now()) {
+    return null;
+  }
+
+  return stateData;
+}
+
+/**
+ * Completes a sign-in: checks the state, exchanges the code for tokens and
+ * verifies the ID token's signature, issuer, audience, expiry and nonce
+ */
+export async function completeAuthorization(state: string, code: string): Promise<OidcSignIn> {
+  const stateData = await consumeState(state);
+
+  if (!stateData) {
+    throw new AppError('Sign-in expired. Please try again.', 400, 'OIDC_STATE_INVALID');
+  }
+
+  const metadata = await getProviderMetadata();
+
+  const tokenParams = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: OIDC_REDIRECT_URI,
+    client_id: OIDC_CLIENT_ID,
+    code_verifier: stateData.codeVerifier,
+  });
+
+  // Confidential clients also authenticate with their secret
+  if (OIDC_CLIENT_SECRET) {
+    tokenParams.set('client_secret', OIDC_CLIENT_SECRET);
+  }
+
+  const tokenResponse = await fetch(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: tokenParams.toString(),
+  });
+
+  if (!tokenResponse.ok) {
+    throw new AppError('The identity provider rejected the sign-in', 401, 'OIDC_TOKEN_EXCHANGE_FAILED');
+  }
+
+  const tokens = (await tokenResponse.json()) as { id_token?: string };
+
+  if (!tokens.id_token) {
+    throw new AppError('The identity provider did not return an ID token', 401, 'OIDC_TOKEN_EXCHANGE_FAILED');
+  }
+
+  let claims: JWTPayload;
+
+  try {
+    const verified = await jwtVerify(tokens.id_token, jwks!, {
+      issuer: metadata.issuer,
+      audience: OIDC_CLIENT_ID,
+    });
+    claims = verified.payload;
+  } catch {
+    throw new AppError('ID token could not be verified', 401, 'OIDC_ID_TOKEN_INVALID');
+  }
+
+  if (claims.nonce !== stateData.nonce || !claims.sub) {
+    throw new AppError('ID token could not be verified', 401, 'OIDC_ID_TOKEN_INVALID');
+  }
+
+  return {
+    claims,
+    rememberMe: stateData.rememberMe,
+    linkUserId: stateData.linkUserId,
+    reauthSessionId: stateData.reauthSessionId ?? null,
+    startedAt: stateData.expiresAt.toMillis() - STATE_TTL_MS,
+  };
+}
+
+/**
+ * Returns the document linking a provider subject to a user
+ */
+function getIdentityRef(subject: string): firestore.DocumentReference {
+  return db.collection('oidcIdentities').doc(hashValue(`${OIDC_ISSUER}\n${subject}`));
+}
+
+/**
+ * Builds a valid, unused username from the provider's claims
+ * Falls back to random suffixes when the preferred name is taken, too short or
+ * reserved - reserved names aren't used as a prefix either, so an identity
+ * provider can't hand out names that look like staff accounts
+ */
+async function generateUsername(claims: JWTPayload): Promise<string> {
+  const claimValue = claims[OIDC_USERNAME_CLAIM] ?? claims.email ?? claims.sub;
+  const base = String(claimValue)
+    .split('@')[0]
+    .replace(/[^A-Za-z0-9_.-]/g, '')
+    .slice(0, USERNAME_MAX_LENGTH);
+  const isReserved = isReservedUsername(base);
+
+  if (base.length >= USERNAME_MIN_LENGTH && !isReserved && !(await findUserByUsername(base))) {
+    return validateUsername(base);
+  }
+
+  const prefix = (isReserved || !base ? 'user' : base).slice(
+    0,
+    USERNAME_MAX_LENGTH - USERNAME_SUFFIX_LENGTH - 1
+  );
+  const suffix = crypto.randomBytes(USERNAME_SUFFIX_LENGTH).toString('hex').slice(0, USERNAME_SUFFIX_LENGTH);
+
+  return validateUsername(`${prefix}_${suffix}`.padEnd(USERNAME_MIN_LENGTH, '0'));
+}
+
+/**
+ * Error for a subject another sign-in linked first
+ */
+function alreadyLinkedError(): AppError {
+  return new AppError('Sign-in is already in progress. Please try again.', 409, 'OIDC_ALREADY_LINKED');
+}
+
+/**
+ * Creates a user for a provider subject seen for the first time, linked to
+ * the subject in the same transaction - a concurrent first sign-in can't
+ * leave behind a user nobody can sign in to
+ * Provisioned accounts have no password and can only sign in through SSO
+ */
+async function provisionUser(
+  claims: JWTPayload,
+  identityRef: firestore.DocumentReference
+): Promise<{ userId: string; username: string }> {
+  for (let attempt = 0; attempt < MAX_PROVISION_ATTEMPTS; attempt++) {
+    const username = await generateUsername(claims);
+    const now = firestore.Timestamp.now();
+
+    const userData: User = {
+      username,
+      passwordHash: '',
+      createdAt: now,
+      updatedAt: now,
+      role: 'user',
+    };
+
+    try {
+      const userId = await createUserWithUsername(userData, async (transaction, newUserId) => {
+        const identityDoc = await transaction.get(identityRef);
+
+        if (identityDoc.exists) {
+          throw alreadyLinkedError();
+        }
+
+        const identity: OidcIdentity = {
+          userId: newUserId,
+          issuer: OIDC_ISSUER,
+          subject: claims.sub!,
+          createdAt: now,
+        };
+        transaction.create(identityRef, identity);
+      });
+      return { userId, username };
+    } catch (error) {
+      // Someone registered the name in the meantime - try another
+      if (error instanceof AppError && error.code === 'USERNAME_TAKEN') {
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  throw new AppError('Could not create an account. Please try again.', 500, 'OIDC_PROVISION_FAILED');
+}
+
+/**
+ * Resolves the user for a verified sign-in
+ * Links the identity to the signed-in user when linking, otherwise finds the
+ * linked user or provisions a new one
+ */
+export async function resolveOidcUser(
+  signIn: OidcSignIn
+): Promise<{ userId: string; username: string; created: boolean }> {
+  const subject = signIn.claims.sub!;
+  const identityRef = getIdentityRef(subject);
+  const identityDoc = await identityRef.get();
+
+  if (identityDoc.exists) {
+    const { userId } = identityDoc.data() as OidcIdentity;
+
+    if (signIn.linkUserId && signIn.linkUserId !== userId) {
+      throw new AppError('This account is already linked to another user', 409, 'OIDC_ALREADY_LINKED');
+    }
+
+    const userDoc = await db.collection('users').doc(userId).get();
+
+    if (userDoc.exists) {
+      const userData = userDoc.data() as User;
+
+      if (userData.disabled) {
+        throw new AppError('This account has been disabled', 403, 'ACCOUNT_DISABLED');
+      }
+
+      return { userId, username: userData.username, created: false };
+    }
+
+    // The linked user was deleted - forget the stale link
+    await identityRef.delete();
+  }
+
+  if (!signIn.linkUserId) {
+    if (!OIDC_AUTO_PROVISION) {
+      throw new AppError('No account is linked to this sign-in', 403, 'OIDC_ACCOUNT_NOT_LINKED');
+    }
+
+    // Links the identity as part of creating the user
+    const { userId, username } = await provisionUser(signIn.claims, identityRef);
+    return { userId, username, created: true };
+  }
+
+  const userDoc = await db.collection('users').doc(signIn.linkUserId).get();
+
+  if (!userDoc.exists) {
+    throw new AppError('User not found', 404, 'NOT_FOUND');
+  }
+
+  const identity: OidcIdentity = {
+    userId: signIn.linkUserId,
+    issuer: OIDC_ISSUER,
+    subject,
+    createdAt: firestore.Timestamp.now(),
+  };
+
+  try {
+    await identityRef.create(identity);
+  } catch (error) {
+    // gRPC ALREADY_EXISTS - a concurrent sign-in linked this subject first
+    if ((error as { code?: number }).code === 6) {
+      throw alreadyLinkedError();
+    }
+    throw error;
+  }
+
+  return { userId: signIn.linkUserId, username: (userDoc.data() as User).username, created: false };
+}
+
+/**
+ * Completes a re-authentication: the provider account must be the one linked
+ * to the signed-in user, who may then confirm sensitive changes for a while
+ * Returns the user's ID
+ */
+export async function reauthenticateSession(signIn: OidcSignIn): Promise<string> {
+  const session = signIn.reauthSessionId ? await getSession(signIn.reauthSessionId) : null;
+
+  if (!session) {
+    throw new AppError('Your session has expired. Please sign in again.', 401, 'SESSION_INVALID');
+  }
+
+  // Only counts if the provider actually asked for credentials after the flow
+  // started, rather than reusing the user's existing session with it
+  const authTime = signIn.claims.auth_time;
+
+  if (typeof authTime !== 'number' || authTime * 1000 < signIn.startedAt - CLOCK_TOLERANCE_MS) {
+    throw new AppError('The identity provider did not ask you to sign in again', 401, 'OIDC_REAUTH_FAILED');
+  }
+
+  const identityDoc = await getIdentityRef(signIn.claims.sub!).get();
+
+  if (!identityDoc.exists || (identityDoc.data() as OidcIdentity).userId !== session.userId) {
+    throw new AppError('That account is not linked to you', 403, 'OIDC_REAUTH_MISMATCH');
+  }
+
+  await markSessionReauthenticated(session.sessionId);
+
+  return session.userId;
+}
+
+/**
+ * Removes every identity linked to a user
+ * Returns the number of deleted identities
+ */
+export async function deleteUserOidcIdentities(userId: string): Promise<number> {
+  const identitiesSnapshot = await db
+    .collection('oidcIdentities')
+    .where('userId', '==', userId)
+    .get();
+
+  return deleteInBatches(identitiesSnapshot.docs.map((doc) => doc.ref));
+}
+
+/**
+ * Deletes sign-in states for flows that were started but never finished
+ * Returns the number of deleted states
+ */
+export async function cleanupExpiredOidcStates(): Promise<number> {
+  const expiredStates = await db
+    .collection('oidcStates')
+    .where('expiresAt', '<', firestore.Timestamp.now())
+    .get();
+
+  return deleteInBatches(expiredStates.docs.map((doc) => doc.ref));
+}
+
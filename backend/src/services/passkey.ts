@@ -0,0 +1,369 @@
+import crypto from 'crypto';
+import { firestore } from 'firebase-admin';
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  AuthenticatorTransportFuture,
+  CredentialDeviceType,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+  AuthenticationResponseJSON,
+} from '@simplewebauthn/server';
+import { db } from '../config/firebase';
+import { AppError } from '../errors/AppError';
+import { deleteInBatches } from './batch';
+
+// Relying party configuration - the RP ID must match the domain the frontend is served from
+const RP_ID = process.env.WEBAUTHN_RP_ID || 'localhost';
+const RP_NAME = process.env.WEBAUTHN_RP_NAME || 'TaskList';
+const EXPECTED_ORIGIN =
+  process.env.WEBAUTHN_ORIGIN || process.env.FRONTEND_ORIGIN || 'http://localhost:5173';
+
+// Challenge configuration
+const CHALLENGE_TOKEN_LENGTH = 32; // 256 bits
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // Ceremonies must finish within 5 minutes
+
+// Credential IDs are base64url, which also makes them safe document IDs
+const CREDENTIAL_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Types
+type CeremonyType = 'registration' | 'authentication';
+
+interface WebAuthnChallenge {
+  type: CeremonyType;
+  challenge: string;
+  userId: string | null;
+  expiresAt: firestore.Timestamp;
+}
+
+export interface Passkey {
+  userId: string;
+  name: string;
+  publicKey: string; // base64url-encoded COSE public key
+  counter: number;
+  transports: AuthenticatorTransportFuture[];
+  deviceType: CredentialDeviceType;
+  backedUp: boolean;
+  createdAt: firestore.Timestamp;
+  lastUsedAt: firestore.Timestamp | null;
+}
+
+export interface PasskeyWithId extends Passkey {
+  credentialId: string;
+}
+
+/**
+ * Returns the document holding a ceremony's challenge
+ * Only the hash of the challenge token is used as the document ID
+ */
+function getChallengeRef(challengeToken: string): firestore.DocumentReference {
+  const key = crypto.createHash('sha256').update(challengeToken).digest('hex');
+  return db.collection('webauthnChallenges').doc(key);
+}
+
+/**
+ * Stores a challenge server-side and returns the token the client must send back
+ */
+async function saveChallenge(
+  type: CeremonyType,
+  challenge: string,
+  userId: string | null
+): Promise<string> {
+  const challengeToken = crypto.randomBytes(CHALLENGE_TOKEN_LENGTH).toString('hex');
+
+  const challengeData: WebAuthnChallenge = {
+    type,
+    challenge,
+    userId,
+    expiresAt: firestore.Timestamp.fromMillis(Date.now() + CHALLENGE_TTL_MS),
+  };
+
+  await getChallengeRef(challengeToken).set(challengeData);
+
+  return challengeToken;
+}
+
+/**
+ * Retrieves and deletes a stored challenge so it can only be answered once
+ * Returns null if the token is unknown, expired or for a different ceremony
+ */
+async function consumeChallenge(
+  challengeToken: string,
+  type: CeremonyType
+): Promise<WebAuthnChallenge | null> {
+  if (!challengeToken || typeof challengeToken !== 'string') {
+    return null;
+  }
+
+  const challengeRef = getChallengeRef(challengeToken);
+
+  const challengeData = await db.runTransaction(async (transaction) => {
+    const challengeDoc = await transaction.get(challengeRef);
+
+    if (!challengeDoc.exists) {
+      return null;
+    }
+
+    transaction.delete(challengeRef);
+    return challengeDoc.data() as WebAuthnChallenge;
+  });
+
+  if (
+    !challengeData ||
+    challengeData.type !== type ||
+    challengeData.expiresAt.toMillis() < Date.now()
+  ) {
+    return null;
+  }
+
+  return challengeData;
+}
+
+/**
+ * Lists all passkeys registered by a user, oldest first
+ */
+export async function listUserPasskeys(userId: string): Promise<PasskeyWithId[]> {
+  const passkeysSnapshot = await db
+    .collection('passkeys')
+    .where('userId', '==', userId)
+    .get();
+
+  return passkeysSnapshot.docs
+    .map((doc) => ({ credentialId: doc.id, ...(doc.data() as Passkey) }))
+    .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+}
+
+/**
+ * Starts registering a new passkey for a signed-in user
+ * Returns the options for navigator.credentials.create() and the challenge token
+ */
+export async function startPasskeyRegistration(
+  userId: string,
+  username: string
+): Promise<{ options: PublicKeyCredentialCreationOptionsJSON; challengeToken: string }> {
+  const existingPasskeys = await listUserPasskeys(userId);
+
+  const options = await generateRegistrationOptions({
+    rpName: RP_NAME,
+    rpID: RP_ID,
+    userName: username,
+    userID: new Uint8Array(Buffer.from(userId, 'utf8')),
+    attestationType: 'none',
+    // Don't let the same authenticator be registered twice
+    excludeCredentials: existingPasskeys.map((passkey) => ({
+      id: passkey.credentialId,
+      transports: passkey.transports,
+    })),
+    // Discoverable credentials allow signing in without typing a username, and
+    // user verification (PIN, biometrics) makes the passkey a full replacement for a password
+    authenticatorSelection: {
+      residentKey: 'required',
+      userVerification: 'required',
+    },
+  });
+
+  const challengeToken = await saveChallenge('registration', options.challenge, userId);
+
+  return { options, challengeToken };
+}
+
+/**
+ * Verifies the authenticator's response and stores the new passkey
+ */
+export async function finishPasskeyRegistration(
+  userId: string,
+  challengeToken: string,
+  response: RegistrationResponseJSON,
+  name: string
+): Promise<PasskeyWithId> {
+  const challengeData = await consumeChallenge(challengeToken, 'registration');
+
+  if (!challengeData || challengeData.userId !== userId) {
+    throw new AppError('Passkey setup expired. Please try again.', 400, 'PASSKEY_CHALLENGE_INVALID');
+  }
+
+  let verification;
+
+  try {
+    verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: challengeData.challenge,
+      expectedOrigin: EXPECTED_ORIGIN,
+      expectedRPID: RP_ID,
+      requireUserVerification: true,
+    });
+  } catch {
+    throw new AppError('Passkey could not be verified', 400, 'PASSKEY_VERIFICATION_FAILED');
+  }
+
+  if (!verification.verified) {
+    throw new AppError('Passkey could not be verified', 400, 'PASSKEY_VERIFICATION_FAILED');
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+  const passkeyData: Passkey = {
+    userId,
+    name,
+    publicKey: Buffer.from(credential.publicKey).toString('base64url'),
+    counter: credential.counter,
+    transports: credential.transports ?? [],
+    deviceType: credentialDeviceType,
+    backedUp: credentialBackedUp,
+    createdAt: firestore.Timestamp.now(),
+    lastUsedAt: null,
+  };
+
+  try {
+    await db.collection('passkeys').doc(credential.id).create(passkeyData);
+  } catch (error) {
+    // gRPC ALREADY_EXISTS - the credential is registered (possibly to another account)
+    if ((error as { code?: number }).code === 6) {
+      throw new AppError('This passkey is already registered', 409, 'PASSKEY_EXISTS');
+    }
+    throw error;
+  }
+
+  return { credentialId: credential.id, ...passkeyData };
+}
+
+/**
+ * Starts a passkey sign-in
+ * No credentials are listed, so the browser offers any discoverable passkey for this site
+ */
+export async function startPasskeyAuthentication(): Promise<{
+  options: PublicKeyCredentialRequestOptionsJSON;
+  challengeToken: string;
+}> {
+  const options = await generateAuthenticationOptions({
+    rpID: RP_ID,
+    userVerification: 'required',
+  });
+
+  const challengeToken = await saveChallenge('authentication', options.challenge, null);
+
+  return { options, challengeToken };
+}
+
+/**
+ * Verifies a passkey assertion and its sign counter
+ * Returns the ID of the user the passkey belongs to, or null if verification fails
+ */
+export async function finishPasskeyAuthentication(
+  challengeToken: string,
+  response: AuthenticationResponseJSON
+): Promise<string | null> {
+  const challengeData = await consumeChallenge(challengeToken, 'authentication');
+
+  if (!challengeData || typeof response?.id !== 'string' || !CREDENTIAL_ID_PATTERN.test(response.id)) {
+    return null;
+  }
+
+  const passkeyRef = db.collection('passkeys').doc(response.id);
+  const passkeyDoc = await passkeyRef.get();
+
+  if (!passkeyDoc.exists) {
+    return null;
+  }
+
+  const passkeyData = passkeyDoc.data() as Passkey;
+
+  let verification;
+
+  try {
+    // Rejects counters that didn't advance, which indicates a cloned authenticator
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: challengeData.challenge,
+      expectedOrigin: EXPECTED_ORIGIN,
+      expectedRPID: RP_ID,
+      credential: {
+        id: passkeyDoc.id,
+        publicKey: new Uint8Array(Buffer.from(passkeyData.publicKey, 'base64url')),
+        counter: passkeyData.counter,
+        transports: passkeyData.transports,
+      },
+      requireUserVerification: true,
+    });
+  } catch {
+    return null;
+  }
+
+  if (!verification.verified) {
+    return null;
+  }
+
+  const { newCounter } = verification.authenticationInfo;
+
+  // Store the new counter, re-checking it in case another sign-in raced this one
+  const accepted = await db.runTransaction(async (transaction) => {
+    const currentDoc = await transaction.get(passkeyRef);
+
+    if (!currentDoc.exists) {
+      return false;
+    }
+
+    const currentCounter = (currentDoc.data() as Passkey).counter;
+
+    if (newCounter > 0 && newCounter <= currentCounter) {
+      return false;
+    }
+
+    transaction.update(passkeyRef, {
+      counter: newCounter,
+      lastUsedAt: firestore.Timestamp.now(),
+    });
+    return true;
+  });
+
+  return accepted ? passkeyData.userId : null;
+}
+
+/**
+ * Removes one of a user's passkeys
+ * Returns false if the passkey doesn't exist or belongs to someone else
+ */
+export async function deletePasskey(userId: string, credentialId: string): Promise<boolean> {
+  if (!CREDENTIAL_ID_PATTERN.test(credentialId)) {
+    return false;
+  }
+
+  const passkeyRef = db.collection('passkeys').doc(credentialId);
+  const passkeyDoc = await passkeyRef.get();
+
+  if (!passkeyDoc.exists || (passkeyDoc.data() as Passkey).userId !== userId) {
+    return false;
+  }
+
+  await passkeyRef.delete();
+  return true;
+}
+
+/**
+ * Removes every passkey belonging to a user
+ * Returns the number of deleted passkeys
+ */
+export async function deleteUserPasskeys(userId: string): Promise<number> {
+  const passkeysSnapshot = await db
+    .collection('passkeys')
+    .where('userId', '==', userId)
+    .get();
+
+  return deleteInBatches(passkeysSnapshot.docs.map((doc) => doc.ref));
+}
+
+/**
+ * Deletes challenges for ceremonies that were started but never finished
+ * Returns the number of deleted challenges
+ */
+export async function cleanupExpiredChallenges(): Promise<number> {
+  const expiredChallenges = await db
+    .collection('webauthnChallenges')
+    .where('expiresAt', '<', firestore.Timestamp.now())
+    .get();
+
+  return deleteInBatches(expiredChallenges.docs.map((doc) => doc.ref));
+}
@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import bcrypt from 'bcrypt';
+import { AppError } from '../errors/AppError';
+
+/**
+ * Reads a positive integer from the environment
+ */
+function readPositiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Password rules
+const PASSWORD_MIN_LENGTH = readPositiveInt('PASSWORD_MIN_LENGTH', 8);
+const PASSWORD_MAX_LENGTH = readPositiveInt('PASSWORD_MAX_LENGTH', 128);
+const PASSWORD_MIN_CHARACTER_CLASSES = Math.min(
+  readPositiveInt('PASSWORD_MIN_CHARACTER_CLASSES', 1),
+  4
+);
+const PASSWORD_BREACH_CHECK = process.env.PASSWORD_BREACH_CHECK !== 'false';
+const BREACHED_PASSWORDS_PATH =
+  process.env.PASSWORD_BREACHED_LIST_PATH ||
+  path.resolve(__dirname, '../../data/common-passwords.txt');
+
+// Hashing - new hashes use the current scheme and cost, and older hashes are
+// upgraded the next time the user signs in with their password
+const BCRYPT_ROUNDS = readPositiveInt('BCRYPT_ROUNDS', 12);
+const HASH_SCHEME_PREFIX = 'bcrypt-sha256$';
+
+// Character classes counted towards the complexity rule
+const CHARACTER_CLASSES: RegExp[] = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^A-Za-z0-9]/];
+
+// Used to spend the same time on unknown users as on real ones
+const DUMMY_HASH = `${HASH_SCHEME_PREFIX}${bcrypt.hashSync('timing-attack-dummy', BCRYPT_ROUNDS)}`;
+
+/**
+ * Password rules the frontend mirrors for its live checks
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  minCharacterClasses: number;
+  breachCheck: boolean;
+}
+
+// Loaded on first use - one lowercase password per line, # starts a comment
+let breachedPasswords: Set<string> | null = null;
+
+function getBreachedPasswords(): Set<string> {
+  if (!breachedPasswords) {
+    try {
+      const contents = fs.readFileSync(BREACHED_PASSWORDS_PATH, 'utf8');
+      breachedPasswords = new Set(
+        contents
+          .split(/\r?\n/)
+          .map((line) => line.trim().toLowerCase())
+          .filter((line) => line && !line.startsWith('#'))
+      );
+    } catch (error) {
+      console.error(`Failed to load breached password list from ${BREACHED_PASSWORDS_PATH}:`, error);
+      breachedPasswords = new Set();
+    }
+  }
+
+  return breachedPasswords;
+}
+
+/**
+ * Returns the active password rules
+ */
+export function getPasswordPolicy(): PasswordPolicy {
+  return {
+    minLength: PASSWORD_MIN_LENGTH,
+    maxLength: PASSWORD_MAX_LENGTH,
+    minCharacterClasses: PASSWORD_MIN_CHARACTER_CLASSES,
+    breachCheck: PASSWORD_BREACH_CHECK,
+  };
+}
+
+/**
+ * Validates a new password against the policy
+ * Throws a VALIDATION_ERROR describing the first rule that fails, or
+ * PASSWORD_BREACHED if the password appears in the breached password list
+ */
+export function validatePassword(password: unknown, username?: string): asserts password is string {
+  if (!password || typeof password !== 'string') {
+    throw new AppError('Password is required', 400, 'VALIDATION_ERROR');
+  }
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    throw new AppError(
+      `Password must be at least ${PASSWORD_MIN_LENGTH} characters`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    throw new AppError(
+      `Password must be at most ${PASSWORD_MAX_LENGTH} characters`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  const classCount = CHARACTER_CLASSES.filter((pattern) => pattern.test(password)).length;
+
+  if (classCount < PASSWORD_MIN_CHARACTER_CLASSES) {
+    throw new AppError(
+      `Password must use at least ${PASSWORD_MIN_CHARACTER_CLASSES} of: lowercase letters, uppercase letters, numbers, symbols`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  if (username && password.toLowerCase() === username.trim().toLowerCase()) {
+    throw new AppError('Password must not match your username', 400, 'VALIDATION_ERROR');
+  }
+
+  if (PASSWORD_BREACH_CHECK && getBreachedPasswords().has(password.toLowerCase())) {
+    throw new AppError(
+      'This password is too common and has appeared in data breaches. Please choose another.',
+      400,
+      'PASSWORD_BREACHED'
+    );
+  }
+}
+
+/**
+ * Pre-hashes the password so bcrypt's 72-byte input limit doesn't silently
+ * truncate long passphrases
+ */
+function prehash(password: string): string {
+  return crypto.createHash('sha256').update(password, 'utf8').digest('base64');
+}
+
+/**
+ * Hashes a password with the current scheme and cost
+ */
+export async function hashPassword(password: string): Promise<string> {
+  return `${HASH_SCHEME_PREFIX}${await bcrypt.hash(prehash(password), BCRYPT_ROUNDS)}`;
+}
+
+/**
+ * Checks a password against a stored hash in either the current scheme or the
+ * legacy plain-bcrypt scheme
+ * Accounts without a password (SSO-only) never match
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  if (!passwordHash) {
+    return false;
+  }
+
+  if (passwordHash.startsWith(HASH_SCHEME_PREFIX)) {
+    return bcrypt.compare(prehash(password), passwordHash.slice(HASH_SCHEME_PREFIX.length));
+  }
+
+  return bcrypt.compare(password, passwordHash);
+}
+
+/**
+ * Spends the time of a real password check - used when the user doesn't exist
+ */
+export async function verifyDummyPassword(password: string): Promise<void> {
+  await verifyPassword(password, DUMMY_HASH);
+}
+
+/**
+ * Whether a stored hash uses an outdated scheme or cost and should be replaced
+ */
+export function needsRehash(passwordHash: string): boolean {
+  if (!passwordHash.startsWith(HASH_SCHEME_PREFIX)) {
+    return true;
+  }
+
+  return bcrypt.getRounds(passwordHash.slice(HASH_SCHEME_PREFIX.length)) !== BCRYPT_ROUNDS;
+}
@@ -0,0 +1,78 @@
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { QuotaOverrides, User, UserPlan } from '../models/user';
+
+/**
+ * How many lists a user can own, and how many tasks each of their lists can hold
+ */
+export interface UserLimits {
+  plan: UserPlan;
+  maxLists: number;
+  maxTasksPerList: number;
+}
+
+export const USER_PLANS: UserPlan[] = ['free', 'pro'];
+export const DEFAULT_PLAN: UserPlan = 'free';
+
+// Upper bounds for any plan or override - duplicating a list writes it and
+// all its tasks in a single batch, which holds at most 500 writes
+export const QUOTA_MAX_LISTS = 1000;
+export const QUOTA_MAX_TASKS_PER_LIST = 400;
+
+/**
+ * Reads a limit from the environment, within 1 and the given maximum
+ */
+function readLimit(name: string, fallback: number, max: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? Math.min(value, max) : fallback;
+}
+
+const PLAN_LIMITS: Record<UserPlan, Omit<UserLimits, 'plan'>> = {
+  free: {
+    maxLists: readLimit('FREE_PLAN_MAX_LISTS', 10, QUOTA_MAX_LISTS),
+    maxTasksPerList: readLimit('FREE_PLAN_MAX_TASKS_PER_LIST', 25, QUOTA_MAX_TASKS_PER_LIST),
+  },
+  pro: {
+    maxLists: readLimit('PRO_PLAN_MAX_LISTS', 100, QUOTA_MAX_LISTS),
+    maxTasksPerList: readLimit('PRO_PLAN_MAX_TASKS_PER_LIST', 250, QUOTA_MAX_TASKS_PER_LIST),
+  },
+};
+
+/**
+ * A user's limits - their plan's, with any admin overrides applied
+ */
+export function resolveUserLimits(user: User | undefined): UserLimits {
+  const plan = user?.plan && USER_PLANS.includes(user.plan) ? user.plan : DEFAULT_PLAN;
+  const overrides: QuotaOverrides = user?.quotaOverrides ?? {};
+
+  return {
+    plan,
+    maxLists: overrides.maxLists ?? PLAN_LIMITS[plan].maxLists,
+    maxTasksPerList: overrides.maxTasksPerList ?? PLAN_LIMITS[plan].maxTasksPerList,
+  };
+}
+
+/**
+ * Loads a user's limits
+ * For a list shared with others, the owner's limits apply to everyone editing it
+ */
+export async function getUserLimits(userId: string): Promise<UserLimits> {
+  const userDoc = await db.collection('users').doc(userId).get();
+  return resolveUserLimits(userDoc.data() as User | undefined);
+}
+
+/**
+ * Moves a user to a plan and replaces their overrides
+ * Pass null overrides to go back to the plan's limits
+ */
+export async function setUserQuota(
+  userId: string,
+  plan: UserPlan,
+  quotaOverrides: QuotaOverrides | null
+): Promise<void> {
+  await db.collection('users').doc(userId).update({
+    plan,
+    quotaOverrides,
+    updatedAt: firestore.Timestamp.now(),
+  });
+}
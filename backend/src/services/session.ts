@@ -1,19 +1,59 @@
 import crypto from 'crypto';
 import { firestore } from 'firebase-admin';
 import { db } from '../config/firebase';
+import { deleteInBatches } from './batch';
+import { recordAuditEvent } from './audit';
+
+/**
+ * Reads a duration in milliseconds from the environment
+ */
+function readDurationMs(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
 
 // Session configuration
 const SESSION_ID_LENGTH = 32; // 256 bits
 const CSRF_TOKEN_LENGTH = 32;
-const REMEMBER_ME_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const LAST_SEEN_UPDATE_INTERVAL_MS = 60 * 1000; // Throttle lastSeenAt writes to once a minute
+const USER_AGENT_MAX_LENGTH = 512;
+const CLEANUP_PAGE_SIZE = 500;
+
+// Expiry policy - every session has both an idle timeout, which slides forward
+// with activity, and an absolute lifetime that activity can never extend
+const SESSION_IDLE_TIMEOUT_MS = readDurationMs('SESSION_IDLE_TIMEOUT_MS', 2 * HOUR_MS);
+const SESSION_ABSOLUTE_LIFETIME_MS = readDurationMs('SESSION_ABSOLUTE_LIFETIME_MS', DAY_MS);
+const REMEMBER_ME_EXPIRY_MS = readDurationMs('REMEMBER_ME_IDLE_TIMEOUT_MS', 7 * DAY_MS);
+const REMEMBER_ME_ABSOLUTE_LIFETIME_MS = readDurationMs('REMEMBER_ME_ABSOLUTE_LIFETIME_MS', 30 * DAY_MS);
+
+// CSRF rotation - tokens are replaced periodically and on privilege changes, and
+// the previous token stays valid briefly so requests already in flight succeed
+const CSRF_ROTATION_INTERVAL_MS = readDurationMs('CSRF_ROTATION_INTERVAL_MS', HOUR_MS);
+const CSRF_GRACE_PERIOD_MS = readDurationMs('CSRF_GRACE_PERIOD_MS', 2 * 60 * 1000);
+
+// How long a single sign-on re-authentication stands in for the password
+const REAUTHENTICATION_MAX_AGE_MS = readDurationMs('REAUTHENTICATION_MAX_AGE_MS', 5 * 60 * 1000);
 
 // Types
 export interface Session {
   userId: string;
   csrfToken: string;
+  // Idle expiry, moved forward by touchSession (null on legacy sessions)
   expiresAt: firestore.Timestamp | null;
+  absoluteExpiresAt?: firestore.Timestamp;
   createdAt: firestore.Timestamp;
+  lastSeenAt?: firestore.Timestamp;
   rememberMe: boolean;
+  userAgent?: string | null;
+  // CSRF rotation (absent on sessions created before rotation)
+  csrfRotatedAt?: firestore.Timestamp;
+  previousCsrfToken?: string | null;
+  previousCsrfTokenExpiresAt?: firestore.Timestamp | null;
+  // Last time the user signed in again through single sign-on on this session
+  reauthenticatedAt?: firestore.Timestamp | null;
 }
 
 export interface SessionWithId extends Session {
@@ -27,30 +67,77 @@ function generateSecureToken(length: number): string {
   return crypto.randomBytes(length).toString('hex');
 }
 
+/**
+ * Returns the idle timeout and absolute lifetime for a kind of session
+ */
+function getExpiryPolicy(rememberMe: boolean): { idleTimeoutMs: number; absoluteLifetimeMs: number } {
+  return rememberMe
+    ? { idleTimeoutMs: REMEMBER_ME_EXPIRY_MS, absoluteLifetimeMs: REMEMBER_ME_ABSOLUTE_LIFETIME_MS }
+    : { idleTimeoutMs: SESSION_IDLE_TIMEOUT_MS, absoluteLifetimeMs: SESSION_ABSOLUTE_LIFETIME_MS };
+}
+
+/**
+ * Calculates when a session expires, in epoch milliseconds
+ * Sessions created before expiry was enforced are held to the same policy,
+ * measured from their creation and last activity
+ */
+export function getSessionExpiry(session: Session): number {
+  const { idleTimeoutMs, absoluteLifetimeMs } = getExpiryPolicy(session.rememberMe);
+  const lastSeenAt = (session.lastSeenAt ?? session.createdAt).toMillis();
+
+  const absoluteExpiry = session.absoluteExpiresAt
+    ? session.absoluteExpiresAt.toMillis()
+    : session.createdAt.toMillis() + absoluteLifetimeMs;
+
+  return Math.min(
+    lastSeenAt + idleTimeoutMs,
+    absoluteExpiry,
+    session.expiresAt ? session.expiresAt.toMillis() : Infinity
+  );
+}
+
+/**
+ * Derives the identifier exposed to clients when listing sessions
+ * The raw session ID is a bearer credential and never leaves the cookie
+ */
+export function getSessionPublicId(sessionId: string): string {
+  return crypto.createHash('sha256').update(sessionId).digest('hex').slice(0, 32);
+}
+
 /**
  * Creates a new session for a user
+ * Sessions started by a single sign-on count as freshly re-authenticated
  */
 export async function createSession(
   userId: string,
-  rememberMe: boolean = false
+  rememberMe: boolean = false,
+  userAgent?: string,
+  reauthenticated: boolean = false
 ): Promise<SessionWithId> {
   const sessionId = generateSecureToken(SESSION_ID_LENGTH);
   const csrfToken = generateSecureToken(CSRF_TOKEN_LENGTH);
   const now = firestore.Timestamp.now();
 
   // Calculate expiration
-  let expiresAt: firestore.Timestamp | null = null;
-  if (rememberMe) {
-    const expiryDate = new Date(Date.now() + REMEMBER_ME_EXPIRY_MS);
-    expiresAt = firestore.Timestamp.fromDate(expiryDate);
-  }
+  const { idleTimeoutMs, absoluteLifetimeMs } = getExpiryPolicy(rememberMe);
+  const absoluteExpiresAt = firestore.Timestamp.fromMillis(now.toMillis() + absoluteLifetimeMs);
+  const expiresAt = firestore.Timestamp.fromMillis(
+    Math.min(now.toMillis() + idleTimeoutMs, absoluteExpiresAt.toMillis())
+  );
 
   const sessionData: Session = {
     userId,
     csrfToken,
     expiresAt,
+    absoluteExpiresAt,
     createdAt: now,
+    lastSeenAt: now,
     rememberMe,
+    userAgent: userAgent ? userAgent.slice(0, USER_AGENT_MAX_LENGTH) : null,
+    csrfRotatedAt: now,
+    previousCsrfToken: null,
+    previousCsrfTokenExpiresAt: null,
+    reauthenticatedAt: reauthenticated ? now : null,
   };
 
   // Store session in Firestore
@@ -79,15 +166,12 @@ export async function getSession(sessionId: string): Promise<SessionWithId | nul
 
   const sessionData = sessionDoc.data() as Session;
 
-  // Check if session is expired
-  if (sessionData.expiresAt) {
-    const now = new Date();
-    const expiresAt = sessionData.expiresAt.toDate();
-    if (now > expiresAt) {
-      // Session expired - delete it and return null
-      await deleteSession(sessionId);
-      return null;
-    }
+  // Check if session is expired (idle timeout or absolute lifetime)
+  if (Date.now() > getSessionExpiry(sessionData)) {
+    // Session expired - delete it and return null
+    await deleteSession(sessionId);
+    recordSessionExpired(sessionId, sessionData);
+    return null;
   }
 
   return {
@@ -96,8 +180,27 @@ export async function getSession(sessionId: string): Promise<SessionWithId | nul
   };
 }
 
+/**
+ * Compares two hex tokens in constant time
+ */
+function tokensMatch(expected: string, provided: string): boolean {
+  try {
+    const expectedBuffer = Buffer.from(expected, 'hex');
+    const providedBuffer = Buffer.from(provided, 'hex');
+
+    if (expectedBuffer.length !== providedBuffer.length) {
+      return false;
+    }
+
+    return crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Validates a CSRF token against the session's token
+ * The token replaced by the last rotation is accepted until its grace period ends
  */
 export function validateCsrfToken(session: Session, token: string): boolean {
   if (!session.csrfToken || !token) {
@@ -105,20 +208,89 @@ export function validateCsrfToken(session: Session, token: string): boolean {
   }
 
   // Use timing-safe comparison to prevent timing attacks
-  try {
-    const sessionTokenBuffer = Buffer.from(session.csrfToken, 'hex');
-    const providedTokenBuffer = Buffer.from(token, 'hex');
+  if (tokensMatch(session.csrfToken, token)) {
+    return true;
+  }
 
-    if (sessionTokenBuffer.length !== providedTokenBuffer.length) {
-      return false;
+  return Boolean(
+    session.previousCsrfToken &&
+    session.previousCsrfTokenExpiresAt &&
+    session.previousCsrfTokenExpiresAt.toMillis() > Date.now() &&
+    tokensMatch(session.previousCsrfToken, token)
+  );
+}
+
+/**
+ * Whether a session's CSRF token is old enough to be rotated
+ */
+export function isCsrfRotationDue(session: Session): boolean {
+  const rotatedAt = session.csrfRotatedAt ?? session.createdAt;
+  return Date.now() - rotatedAt.toMillis() >= CSRF_ROTATION_INTERVAL_MS;
+}
+
+/**
+ * Replaces a session's CSRF token, keeping the old one valid for the grace period
+ * If a concurrent request already rotated the token, that token is adopted
+ * instead so the two rotations don't invalidate each other
+ * Updates the session object in place
+ */
+export async function rotateCsrfToken(session: SessionWithId): Promise<void> {
+  const sessionRef = db.collection('sessions').doc(session.sessionId);
+
+  const updates = await db.runTransaction(async (transaction) => {
+    const sessionDoc = await transaction.get(sessionRef);
+
+    if (!sessionDoc.exists) {
+      return null;
     }
 
-    return crypto.timingSafeEqual(sessionTokenBuffer, providedTokenBuffer);
-  } catch {
-    return false;
+    const current = sessionDoc.data() as Session;
+
+    if (current.csrfToken !== session.csrfToken) {
+      return {
+        csrfToken: current.csrfToken,
+        csrfRotatedAt: current.csrfRotatedAt ?? current.createdAt,
+        previousCsrfToken: current.previousCsrfToken ?? null,
+        previousCsrfTokenExpiresAt: current.previousCsrfTokenExpiresAt ?? null,
+      };
+    }
+
+    const rotation = {
+      csrfToken: generateSecureToken(CSRF_TOKEN_LENGTH),
+      csrfRotatedAt: firestore.Timestamp.now(),
+      previousCsrfToken: current.csrfToken,
+      previousCsrfTokenExpiresAt: firestore.Timestamp.fromMillis(Date.now() + CSRF_GRACE_PERIOD_MS),
+    };
+
+    transaction.update(sessionRef, rotation);
+    return rotation;
+  });
+
+  if (updates) {
+    Object.assign(session, updates);
   }
 }
 
+/**
+ * Whether the user signed in again through single sign-on recently enough
+ * for it to confirm a sensitive change in place of their password
+ */
+export function isRecentlyReauthenticated(session: Session): boolean {
+  return Boolean(
+    session.reauthenticatedAt &&
+    Date.now() - session.reauthenticatedAt.toMillis() < REAUTHENTICATION_MAX_AGE_MS
+  );
+}
+
+/**
+ * Records a single sign-on re-authentication on a session
+ */
+export async function markSessionReauthenticated(sessionId: string): Promise<void> {
+  await db.collection('sessions').doc(sessionId).update({
+    reauthenticatedAt: firestore.Timestamp.now(),
+  });
+}
+
 /**
  * Deletes a session
  */
@@ -129,32 +301,126 @@ export async function deleteSession(sessionId: string): Promise<void> {
 }
 
 /**
- * Cleans up expired sessions (can be called periodically or on demand)
- * Returns the number of deleted sessions
+ * Records activity on a session and slides its idle expiry forward,
+ * never past the absolute lifetime
+ * Writes are throttled so busy clients don't update the document on every request
+ * Returns true if the session was updated
  */
-export async function cleanupExpiredSessions(): Promise<number> {
+export async function touchSession(session: SessionWithId): Promise<boolean> {
+  const lastSeenAt = session.lastSeenAt ?? session.createdAt;
+
+  if (Date.now() - lastSeenAt.toMillis() < LAST_SEEN_UPDATE_INTERVAL_MS) {
+    return false;
+  }
+
+  const { idleTimeoutMs, absoluteLifetimeMs } = getExpiryPolicy(session.rememberMe);
   const now = firestore.Timestamp.now();
+  const absoluteExpiresAt = session.absoluteExpiresAt
+    ?? firestore.Timestamp.fromMillis(session.createdAt.toMillis() + absoluteLifetimeMs);
+  const expiresAt = firestore.Timestamp.fromMillis(
+    Math.min(now.toMillis() + idleTimeoutMs, absoluteExpiresAt.toMillis())
+  );
+
+  await db.collection('sessions').doc(session.sessionId).update({
+    lastSeenAt: now,
+    expiresAt,
+    absoluteExpiresAt,
+  });
+
+  session.lastSeenAt = now;
+  session.expiresAt = expiresAt;
+  session.absoluteExpiresAt = absoluteExpiresAt;
+
+  return true;
+}
 
-  // Query for expired sessions
-  const expiredSessions = await db
+/**
+ * Lists all unexpired sessions belonging to a user
+ */
+export async function listUserSessions(userId: string): Promise<SessionWithId[]> {
+  const userSessions = await db
     .collection('sessions')
-    .where('expiresAt', '!=', null)
-    .where('expiresAt', '<', now)
+    .where('userId', '==', userId)
     .get();
 
-  // Delete expired sessions
-  const batch = db.batch();
-  let count = 0;
+  const now = Date.now();
 
-  expiredSessions.docs.forEach((doc) => {
-    batch.delete(doc.ref);
-    count++;
+  return userSessions.docs
+    .map((doc) => ({ sessionId: doc.id, ...(doc.data() as Session) }))
+    .filter((session) => getSessionExpiry(session) > now);
+}
+
+/**
+ * Deletes every session belonging to a user, optionally keeping one
+ * Returns the number of deleted sessions
+ */
+export async function deleteUserSessions(
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const userSessions = await db
+    .collection('sessions')
+    .where('userId', '==', userId)
+    .get();
+
+  const refs = userSessions.docs
+    .filter((doc) => doc.id !== exceptSessionId)
+    .map((doc) => doc.ref);
+
+  return deleteInBatches(refs);
+}
+
+/**
+ * Records that a session ended because it expired
+ */
+function recordSessionExpired(sessionId: string, session: Session): void {
+  recordAuditEvent('session_expired', session.userId, null, {
+    sessionId: getSessionPublicId(sessionId),
   });
+}
+
+/**
+ * Cleans up expired sessions (called by the session-cleanup job or on demand)
+ * Deletes in pages so any number of expired sessions can be removed
+ * Returns the number of deleted sessions
+ */
+export async function cleanupExpiredSessions(): Promise<number> {
+  const now = firestore.Timestamp.now();
+  let count = 0;
+
+  // Sessions past their stored expiry
+  for (;;) {
+    const expiredSessions = await db
+      .collection('sessions')
+      .where('expiresAt', '<', now)
+      .limit(CLEANUP_PAGE_SIZE)
+      .get();
+
+    if (expiredSessions.empty) {
+      break;
+    }
 
-  if (count > 0) {
-    await batch.commit();
+    count += await deleteInBatches(expiredSessions.docs.map((doc) => doc.ref));
+    expiredSessions.docs.forEach((doc) => recordSessionExpired(doc.id, doc.data() as Session));
+
+    if (expiredSessions.size < CLEANUP_PAGE_SIZE) {
+      break;
+    }
   }
 
+  // Legacy sessions created before expiry was stored
+  const legacySessions = await db
+    .collection('sessions')
+    .where('expiresAt', '==', null)
+    .get();
+
+  const expiredLegacyDocs = legacySessions.docs.filter(
+    (doc) => getSessionExpiry(doc.data() as Session) < now.toMillis()
+  );
+
+  count += await deleteInBatches(expiredLegacyDocs.map((doc) => doc.ref));
+  expiredLegacyDocs.forEach((doc) => recordSessionExpired(doc.id, doc.data() as Session));
+
   return count;
 }
 
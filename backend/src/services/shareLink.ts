@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { deleteInBatches } from './batch';
+
+// Link configuration
+const SHARE_TOKEN_LENGTH = 24; // 192 bits
+const LAST_VIEWED_UPDATE_INTERVAL_MS = 60 * 1000; // Throttle lastViewedAt writes to once a minute
+
+// Types
+export interface ShareLink {
+  ownerId: string;
+  listId: string;
+  createdBy: string;
+  expiresAt: firestore.Timestamp | null;
+  createdAt: firestore.Timestamp;
+  lastViewedAt: firestore.Timestamp | null;
+}
+
+export interface ShareLinkWithId extends ShareLink {
+  linkId: string;
+}
+
+/**
+ * Hashes a share token - only the hash is stored, as the document ID
+ */
+function hashShareToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Creates a public read-only link to a list
+ * Returns the plaintext token, which is only available at creation time
+ */
+export async function createShareLink(
+  ownerId: string,
+  listId: string,
+  createdBy: string,
+  expiresAt: firestore.Timestamp | null
+): Promise<{ token: string; shareLink: ShareLinkWithId }> {
+  const token = crypto.randomBytes(SHARE_TOKEN_LENGTH).toString('base64url');
+  const linkId = hashShareToken(token);
+
+  const linkData: ShareLink = {
+    ownerId,
+    listId,
+    createdBy,
+    expiresAt,
+    createdAt: firestore.Timestamp.now(),
+    lastViewedAt: null,
+  };
+
+  await db.collection('shareLinks').doc(linkId).set(linkData);
+
+  return {
+    token,
+    shareLink: { linkId, ...linkData },
+  };
+}
+
+/**
+ * Looks up a share token from a public link and records the view
+ * Returns null if the token is unknown or expired
+ */
+export async function getShareLink(token: string): Promise<ShareLinkWithId | null> {
+  if (!token || typeof token !== 'string') {
+    return null;
+  }
+
+  const linkDoc = await db.collection('shareLinks').doc(hashShareToken(token)).get();
+
+  if (!linkDoc.exists) {
+    return null;
+  }
+
+  const linkData = linkDoc.data() as ShareLink;
+
+  if (linkData.expiresAt && linkData.expiresAt.toMillis() < Date.now()) {
+    return null;
+  }
+
+  const lastViewedAt = linkData.lastViewedAt?.toMillis() ?? 0;
+  if (Date.now() - lastViewedAt >= LAST_VIEWED_UPDATE_INTERVAL_MS) {
+    linkData.lastViewedAt = firestore.Timestamp.now();
+    await linkDoc.ref.update({ lastViewedAt: linkData.lastViewedAt });
+  }
+
+  return { linkId: linkDoc.id, ...linkData };
+}
+
+/**
+ * Lists a list's share links, newest first - expired links are included
+ * so the owner can see and remove them
+ */
+export async function listListShareLinks(ownerId: string, listId: string): Promise<ShareLinkWithId[]> {
+  const linksSnapshot = await db
+    .collection('shareLinks')
+    .where('ownerId', '==', ownerId)
+    .where('listId', '==', listId)
+    .get();
+
+  return linksSnapshot.docs
+    .map((doc) => ({ linkId: doc.id, ...(doc.data() as ShareLink) }))
+    .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+}
+
+/**
+ * Revokes one of a list's share links
+ * Returns false if the link doesn't exist or belongs to another list
+ */
+export async function deleteShareLink(
+  ownerId: string,
+  listId: string,
+  linkId: string
+): Promise<boolean> {
+  const linkRef = db.collection('shareLinks').doc(linkId);
+  const linkDoc = await linkRef.get();
+  const linkData = linkDoc.data() as ShareLink | undefined;
+
+  if (!linkData || linkData.ownerId !== ownerId || linkData.listId !== listId) {
+    return false;
+  }
+
+  await linkRef.delete();
+  return true;
+}
+
+/**
+ * Revokes every share link of a list - used when the list itself is deleted
+ */
+export async function deleteListShareLinks(ownerId: string, listId: string): Promise<number> {
+  const linksSnapshot = await db
+    .collection('shareLinks')
+    .where('ownerId', '==', ownerId)
+    .where('listId', '==', listId)
+    .get();
+
+  return deleteInBatches(linksSnapshot.docs.map((doc) => doc.ref));
+}
+
+/**
+ * Revokes every share link to a user's lists
+ */
+export async function deleteUserShareLinks(ownerId: string): Promise<number> {
+  const linksSnapshot = await db.collection('shareLinks').where('ownerId', '==', ownerId).get();
+
+  return deleteInBatches(linksSnapshot.docs.map((doc) => doc.ref));
+}
+
+/**
+ * Deletes every link that has expired
+ */
+export async function cleanupExpiredShareLinks(): Promise<number> {
+  const expiredLinks = await db
+    .collection('shareLinks')
+    .where('expiresAt', '<', firestore.Timestamp.now())
+    .get();
+
+  return deleteInBatches(expiredLinks.docs.map((doc) => doc.ref));
+}
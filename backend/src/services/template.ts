@@ -0,0 +1,97 @@
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { AppError } from '../errors/AppError';
+
+// Types
+export interface TemplateTask {
+  title: string;
+  order: number;
+}
+
+/**
+ * Personal list template stored at users/{userId}/templates/{templateId}
+ * Templates keep task titles only - lists created from them start unchecked
+ */
+export interface ListTemplate {
+  title: string;
+  tasks: TemplateTask[];
+  createdAt: firestore.Timestamp;
+  updatedAt: firestore.Timestamp;
+}
+
+export interface ListTemplateWithId extends ListTemplate {
+  id: string;
+}
+
+function getTemplatesRef(userId: string): firestore.CollectionReference {
+  return db.collection('users').doc(userId).collection('templates');
+}
+
+/**
+ * Saves tasks as a new template for the user
+ */
+export async function createTemplate(
+  userId: string,
+  title: string,
+  tasks: TemplateTask[]
+): Promise<ListTemplateWithId> {
+  const now = firestore.Timestamp.now();
+  const templateData: ListTemplate = {
+    title,
+    tasks: [...tasks].sort((a, b) => a.order - b.order),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const templateDoc = await getTemplatesRef(userId).add(templateData);
+
+  return { id: templateDoc.id, ...templateData };
+}
+
+/**
+ * Lists the user's templates, alphabetically by title
+ */
+export async function listTemplates(userId: string): Promise<ListTemplateWithId[]> {
+  const templatesSnapshot = await getTemplatesRef(userId).get();
+
+  return templatesSnapshot.docs
+    .map((doc) => ({ id: doc.id, ...(doc.data() as ListTemplate) }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Counts the user's templates
+ */
+export async function countTemplates(userId: string): Promise<number> {
+  const countSnapshot = await getTemplatesRef(userId).count().get();
+  return countSnapshot.data().count;
+}
+
+/**
+ * Loads one of the user's templates, or throws NOT_FOUND
+ */
+export async function getTemplate(userId: string, templateId: string): Promise<ListTemplateWithId> {
+  const templateDoc = await getTemplatesRef(userId).doc(templateId).get();
+
+  if (!templateDoc.exists) {
+    throw new AppError('Template not found', 404, 'NOT_FOUND');
+  }
+
+  return { id: templateDoc.id, ...(templateDoc.data() as ListTemplate) };
+}
+
+/**
+ * Deletes one of the user's templates
+ * Returns false if it doesn't exist
+ */
+export async function deleteTemplate(userId: string, templateId: string): Promise<boolean> {
+  const templateRef = getTemplatesRef(userId).doc(templateId);
+  const templateDoc = await templateRef.get();
+
+  if (!templateDoc.exists) {
+    return false;
+  }
+
+  await templateRef.delete();
+  return true;
+}
@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+
+// RFC 6238 parameters understood by every common authenticator app
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_SECRET_BYTES = 20; // 160 bits, as recommended by RFC 4226
+const TOTP_ALLOWED_DRIFT_STEPS = 1; // Accept the previous and next code for clock skew
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encodes bytes as unpadded RFC 4648 base32
+ */
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = ((value << 8) | byte) & 0xffff;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decodes RFC 4648 base32, ignoring padding, spaces and case
+ */
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = ((value << 5) | index) & 0xffff;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Computes an RFC 4226 HOTP value for a counter
+ */
+function generateHotp(key: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', key).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Returns the current RFC 6238 time step
+ */
+function getCurrentStep(): number {
+  return Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Generates a new random TOTP secret, base32 encoded
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(TOTP_SECRET_BYTES));
+}
+
+/**
+ * Builds the otpauth:// URI that authenticator apps import
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Verifies a TOTP code against a secret
+ * Returns the matched time step, or null if the code is invalid
+ * Steps at or before lastUsedStep are rejected so a code cannot be replayed
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep?: number | null
+): number | null {
+  const normalizedCode = code.replace(/\s/g, '');
+
+  if (!/^\d+$/.test(normalizedCode) || normalizedCode.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  let key: Buffer;
+  try {
+    key = base32Decode(secret);
+  } catch {
+    return null;
+  }
+
+  const currentStep = getCurrentStep();
+
+  for (let drift = -TOTP_ALLOWED_DRIFT_STEPS; drift <= TOTP_ALLOWED_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+
+    if (lastUsedStep != null && step <= lastUsedStep) {
+      continue;
+    }
+
+    const expected = Buffer.from(generateHotp(key, step));
+    const provided = Buffer.from(normalizedCode);
+
+    if (crypto.timingSafeEqual(expected, provided)) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Generates one-time backup codes formatted as XXXX-XXXX
+ */
+export function generateBackupCodes(count: number): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(crypto.randomBytes(5));
+    return `${code.slice(0, 4)}-${code.slice(4, 8)}`;
+  });
+}
+
+/**
+ * Hashes a backup code for storage, ignoring formatting and case
+ */
+export function hashBackupCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
@@ -0,0 +1,79 @@
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { deleteInBatches } from './batch';
+import { deleteListMembers } from './listAccess';
+import { deleteListShareLinks } from './shareLink';
+
+/**
+ * Reads a duration in milliseconds from the environment
+ */
+function readDurationMs(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Deleted lists and tasks stay in the trash this long before they are purged
+export const TRASH_RETENTION_MS = readDurationMs('TRASH_RETENTION_MS', 30 * 24 * 60 * 60 * 1000);
+
+/**
+ * Whether a list or task document has been moved to the trash
+ */
+export function isTrashed(doc: firestore.DocumentSnapshot): boolean {
+  return Boolean(doc.get('deletedAt'));
+}
+
+/**
+ * When a trashed item will be purged automatically
+ */
+export function getPurgeAt(deletedAt: firestore.Timestamp): firestore.Timestamp {
+  return firestore.Timestamp.fromMillis(deletedAt.toMillis() + TRASH_RETENTION_MS);
+}
+
+/**
+ * Permanently deletes a list with all its tasks, memberships and share links
+ * Lists live at users/{ownerId}/lists/{listId}
+ */
+export async function purgeList(listRef: firestore.DocumentReference): Promise<void> {
+  const ownerId = listRef.parent.parent!.id;
+  const tasksSnapshot = await listRef.collection('tasks').get();
+
+  await deleteInBatches([...tasksSnapshot.docs.map((doc) => doc.ref), listRef]);
+  await deleteListMembers(ownerId, listRef.id);
+  await deleteListShareLinks(ownerId, listRef.id);
+}
+
+/**
+ * Lists the tasks in the trash of one list
+ */
+export async function listTrashedTasks(
+  listRef: firestore.DocumentReference
+): Promise<firestore.QueryDocumentSnapshot[]> {
+  const tasksSnapshot = await listRef.collection('tasks').where('deletedAt', '!=', null).get();
+  return tasksSnapshot.docs;
+}
+
+/**
+ * Purges every list and task that has been in the trash longer than the
+ * retention period, across all users
+ * Returns the number of lists and tasks purged
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const cutoff = firestore.Timestamp.fromMillis(Date.now() - TRASH_RETENTION_MS);
+
+  const expiredLists = await db.collectionGroup('lists').where('deletedAt', '<', cutoff).get();
+
+  for (const listDoc of expiredLists.docs) {
+    await purgeList(listDoc.ref);
+  }
+
+  // Tasks deleted on their own - those in purged lists are already gone
+  const expiredTasks = await db.collectionGroup('tasks').where('deletedAt', '<', cutoff).get();
+  const purgedListIds = new Set(expiredLists.docs.map((doc) => doc.ref.path));
+  const taskRefs = expiredTasks.docs
+    .map((doc) => doc.ref)
+    .filter((ref) => !purgedListIds.has(ref.parent.parent!.path));
+
+  const taskCount = await deleteInBatches(taskRefs);
+
+  return expiredLists.size + taskCount;
+}
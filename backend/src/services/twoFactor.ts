@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { User } from '../models/user';
+import { deleteInBatches } from './batch';
+import { verifyTotp, hashBackupCode } from './totp';
+
+// Pending login configuration
+const PENDING_LOGIN_TOKEN_LENGTH = 32;
+const PENDING_LOGIN_EXPIRY_MS = 5 * 60 * 1000; // 5 minutes to enter a code
+const PENDING_LOGIN_MAX_ATTEMPTS = 5;
+
+// Types
+export interface PendingLogin {
+  userId: string;
+  rememberMe: boolean;
+  attempts: number;
+  expiresAt: firestore.Timestamp;
+  createdAt: firestore.Timestamp;
+}
+
+/**
+ * Hashes a pending login token so the raw token is never stored
+ */
+function hashPendingLoginToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Creates a short-lived pending login for a user who passed the password
+ * check but still needs to provide a second factor
+ * Returns the token the client must send back with the code
+ */
+export async function createPendingLogin(userId: string, rememberMe: boolean): Promise<string> {
+  const token = crypto.randomBytes(PENDING_LOGIN_TOKEN_LENGTH).toString('hex');
+  const now = firestore.Timestamp.now();
+
+  const pendingLogin: PendingLogin = {
+    userId,
+    rememberMe,
+    attempts: 0,
+    expiresAt: firestore.Timestamp.fromMillis(now.toMillis() + PENDING_LOGIN_EXPIRY_MS),
+    createdAt: now,
+  };
+
+  await db.collection('pendingLogins').doc(hashPendingLoginToken(token)).set(pendingLogin);
+
+  return token;
+}
+
+/**
+ * Retrieves a pending login by token
+ * Returns null if it doesn't exist, has expired or has used up its attempts
+ */
+export async function getPendingLogin(token: string): Promise<PendingLogin | null> {
+  if (!token) {
+    return null;
+  }
+
+  const pendingRef = db.collection('pendingLogins').doc(hashPendingLoginToken(token));
+  const pendingDoc = await pendingRef.get();
+
+  if (!pendingDoc.exists) {
+    return null;
+  }
+
+  const pendingLogin = pendingDoc.data() as PendingLogin;
+
+  if (
+    pendingLogin.expiresAt.toMillis() < Date.now() ||
+    pendingLogin.attempts >= PENDING_LOGIN_MAX_ATTEMPTS
+  ) {
+    await pendingRef.delete();
+    return null;
+  }
+
+  return pendingLogin;
+}
+
+/**
+ * Counts a failed code attempt against a pending login
+ */
+export async function recordPendingLoginFailure(token: string): Promise<void> {
+  await db
+    .collection('pendingLogins')
+    .doc(hashPendingLoginToken(token))
+    .update({ attempts: firestore.FieldValue.increment(1) });
+}
+
+/**
+ * Deletes a pending login once it has been completed
+ */
+export async function deletePendingLogin(token: string): Promise<void> {
+  await db.collection('pendingLogins').doc(hashPendingLoginToken(token)).delete();
+}
+
+/**
+ * Deletes every pending login for a user, so a second step started with an
+ * old password can't be completed after the password changes
+ * Returns the number of deleted pending logins
+ */
+export async function deleteUserPendingLogins(userId: string): Promise<number> {
+  const pendingSnapshot = await db
+    .collection('pendingLogins')
+    .where('userId', '==', userId)
+    .get();
+
+  return deleteInBatches(pendingSnapshot.docs.map((doc) => doc.ref));
+}
+
+/**
+ * Deletes pending logins whose second step was never completed
+ * Returns the number of deleted pending logins
+ */
+export async function cleanupExpiredPendingLogins(): Promise<number> {
+  const expiredPendingLogins = await db
+    .collection('pendingLogins')
+    .where('expiresAt', '<', firestore.Timestamp.now())
+    .get();
+
+  return deleteInBatches(expiredPendingLogins.docs.map((doc) => doc.ref));
+}
+
+/**
+ * Verifies a TOTP or backup code for a user with two-factor enabled
+ * Consumes the code atomically: TOTP steps cannot be replayed and each
+ * backup code works only once
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const userRef = db.collection('users').doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+
+    if (!userDoc.exists) {
+      return false;
+    }
+
+    const userData = userDoc.data() as User;
+
+    if (!userData.totpEnabled || !userData.totpSecret) {
+      return false;
+    }
+
+    // Try the authenticator app code first
+    const step = verifyTotp(userData.totpSecret, code, userData.totpLastUsedStep);
+
+    if (step !== null) {
+      transaction.update(userRef, { totpLastUsedStep: step });
+      return true;
+    }
+
+    // Fall back to a one-time backup code
+    const codeHash = hashBackupCode(code);
+    const backupCodeHashes = userData.backupCodeHashes ?? [];
+
+    if (backupCodeHashes.includes(codeHash)) {
+      transaction.update(userRef, {
+        backupCodeHashes: backupCodeHashes.filter((hash) => hash !== codeHash),
+      });
+      return true;
+    }
+
+    return false;
+  });
+}
@@ -0,0 +1,277 @@
+import { firestore } from 'firebase-admin';
+import { db } from '../config/firebase';
+import { AppError } from '../errors/AppError';
+import { User } from '../models/user';
+
+// Usernames that can't be registered because they could be mistaken for staff or system accounts
+const RESERVED_USERNAMES = new Set([
+  'admin',
+  'administrator',
+  'moderator',
+  'root',
+  'superuser',
+  'support',
+  'system',
+  'tasklist',
+  'official',
+  'security',
+  'anonymous',
+  'everyone',
+]);
+
+// Validation constants
+export const USERNAME_MIN_LENGTH = 6;
+export const USERNAME_MAX_LENGTH = 12;
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+// Types
+export interface UsernameReservation {
+  userId: string;
+  username: string;
+  createdAt: firestore.Timestamp;
+}
+
+/**
+ * Normalizes a username for uniqueness checks
+ * "Alice1" and "alice1" normalize to the same value
+ */
+export function normalizeUsername(username: string): string {
+  return username.trim().normalize('NFKC').toLowerCase();
+}
+
+/**
+ * Whether a username is reserved and can't be registered or renamed to
+ */
+export function isReservedUsername(username: string): boolean {
+  return RESERVED_USERNAMES.has(normalizeUsername(username));
+}
+
+/**
+ * Validates a new username against the length, character and reserved-name rules
+ * Returns the trimmed username
+ */
+export function validateUsername(username: unknown): string {
+  if (!username || typeof username !== 'string') {
+    throw new AppError('Username is required', 400, 'VALIDATION_ERROR');
+  }
+
+  const trimmedUsername = username.trim();
+
+  if (trimmedUsername.length < USERNAME_MIN_LENGTH) {
+    throw new AppError(
+      `Username must be at least ${USERNAME_MIN_LENGTH} characters`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  if (trimmedUsername.length > USERNAME_MAX_LENGTH) {
+    throw new AppError(
+      `Username must be at most ${USERNAME_MAX_LENGTH} characters`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  if (!USERNAME_PATTERN.test(trimmedUsername)) {
+    throw new AppError(
+      'Username may only contain letters, numbers, underscores, hyphens and periods',
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  if (isReservedUsername(trimmedUsername)) {
+    throw new AppError('This username is reserved', 400, 'USERNAME_RESERVED');
+  }
+
+  return trimmedUsername;
+}
+
+/**
+ * Returns the reservation document for a username
+ */
+function getReservationRef(username: string): firestore.DocumentReference {
+  return db.collection('usernames').doc(normalizeUsername(username));
+}
+
+/**
+ * Creates a user and reserves their username in a single transaction,
+ * so concurrent registrations can't claim the same name
+ * beforeCreate runs in the same transaction, for documents that must be
+ * created together with the user - it may throw to abort
+ * Returns the new user's ID
+ */
+export async function createUserWithUsername(
+  userData: User,
+  beforeCreate?: (transaction: firestore.Transaction, userId: string) => Promise<void>
+): Promise<string> {
+  const reservationRef = getReservationRef(userData.username);
+  const userRef = db.collection('users').doc();
+
+  await db.runTransaction(async (transaction) => {
+    const reservationDoc = await transaction.get(reservationRef);
+
+    if (reservationDoc.exists) {
+      throw new AppError('Username already taken', 409, 'USERNAME_TAKEN');
+    }
+
+    if (beforeCreate) {
+      await beforeCreate(transaction, userRef.id);
+    }
+
+    const reservation: UsernameReservation = {
+      userId: userRef.id,
+      username: userData.username,
+      createdAt: userData.createdAt,
+    };
+
+    transaction.create(reservationRef, reservation);
+    transaction.create(userRef, userData);
+  });
+
+  return userRef.id;
+}
+
+/**
+ * Looks up a user by their exact username, as stored before reservations existed
+ */
+async function findUserByExactUsername(
+  username: string
+): Promise<firestore.DocumentSnapshot | null> {
+  const userQuery = await db
+    .collection('users')
+    .where('username', '==', username)
+    .limit(1)
+    .get();
+
+  return userQuery.empty ? null : userQuery.docs[0];
+}
+
+/**
+ * Looks up a user by username, ignoring case
+ * Falls back to an exact match for accounts the username migration hasn't reserved
+ */
+export async function findUserByUsername(
+  username: string
+): Promise<firestore.DocumentSnapshot | null> {
+  const trimmedUsername = username.trim();
+  const reservationDoc = await getReservationRef(trimmedUsername).get();
+
+  if (!reservationDoc.exists) {
+    return findUserByExactUsername(trimmedUsername);
+  }
+
+  const reservation = reservationDoc.data() as UsernameReservation;
+
+  // An exact match on another account wins, so legacy accounts whose names
+  // collide only by case can still sign in
+  if (reservation.username !== trimmedUsername) {
+    const exactUserDoc = await findUserByExactUsername(trimmedUsername);
+
+    if (exactUserDoc) {
+      return exactUserDoc;
+    }
+  }
+
+  const userDoc = await db.collection('users').doc(reservation.userId).get();
+  return userDoc.exists ? userDoc : null;
+}
+
+/**
+ * Renames a user, moving their username reservation atomically
+ * Changing only the capitalization of the current name is always allowed
+ */
+export async function changeUsername(userId: string, newUsername: string): Promise<void> {
+  const userRef = db.collection('users').doc(userId);
+  const newReservationRef = getReservationRef(newUsername);
+
+  await db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+
+    if (!userDoc.exists) {
+      throw new AppError('User not found', 404, 'NOT_FOUND');
+    }
+
+    const userData = userDoc.data() as User;
+    const oldReservationRef = getReservationRef(userData.username);
+    const [oldReservationDoc, newReservationDoc] = await transaction.getAll(
+      oldReservationRef,
+      newReservationRef
+    );
+
+    if (
+      newReservationDoc.exists &&
+      (newReservationDoc.data() as UsernameReservation).userId !== userId
+    ) {
+      throw new AppError('Username already taken', 409, 'USERNAME_TAKEN');
+    }
+
+    const now = firestore.Timestamp.now();
+
+    // Release the old name, unless it's the same reservation being recased
+    if (
+      oldReservationRef.path !== newReservationRef.path &&
+      oldReservationDoc.exists &&
+      (oldReservationDoc.data() as UsernameReservation).userId === userId
+    ) {
+      transaction.delete(oldReservationRef);
+    }
+
+    const reservation: UsernameReservation = {
+      userId,
+      username: newUsername,
+      createdAt: now,
+    };
+
+    transaction.set(newReservationRef, reservation);
+    transaction.update(userRef, {
+      username: newUsername,
+      updatedAt: now,
+    });
+  });
+}
+
+/**
+ * Releases a user's username reservation so the name can be registered again
+ */
+export async function releaseUsername(userId: string, username: string): Promise<void> {
+  const reservationRef = getReservationRef(username);
+  const reservationDoc = await reservationRef.get();
+
+  if (
+    reservationDoc.exists &&
+    (reservationDoc.data() as UsernameReservation).userId === userId
+  ) {
+    await reservationRef.delete();
+  }
+}
+
+/**
+ * Reserves the username of an existing user who registered before reservations existed
+ * Returns 'conflict' if another account already holds the name in a different case
+ */
+export async function reserveExistingUsername(
+  userId: string,
+  username: string
+): Promise<'reserved' | 'exists' | 'conflict'> {
+  const reservationRef = getReservationRef(username);
+
+  return db.runTransaction(async (transaction) => {
+    const reservationDoc = await transaction.get(reservationRef);
+
+    if (reservationDoc.exists) {
+      const { userId: holderId } = reservationDoc.data() as UsernameReservation;
+      return holderId === userId ? 'exists' : 'conflict';
+    }
+
+    const reservation: UsernameReservation = {
+      userId,
+      username,
+      createdAt: firestore.Timestamp.now(),
+    };
+
+    transaction.create(reservationRef, reservation);
+    return 'reserved';
+  });
+}
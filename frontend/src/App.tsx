@@ -2,11 +2,19 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ListsProvider } from "@/contexts/ListsContext";
 import { ToastProvider } from "@/components/ui/toast";
-import { ProtectedRoute, PublicRoute } from "@/components/routing";
+import { AdminRoute, ProtectedRoute, PublicRoute } from "@/components/routing";
 import RegisterPage from "@/pages/RegisterPage";
 import LoginPage from "@/pages/LoginPage";
+import ForgotPasswordPage from "@/pages/ForgotPasswordPage";
+import ResetPasswordPage from "@/pages/ResetPasswordPage";
+import VerifyEmailPage from "@/pages/VerifyEmailPage";
 import ListsPage from "@/pages/ListsPage";
 import ListDetailPage from "@/pages/ListDetailPage";
+import SettingsPage from "@/pages/SettingsPage";
+import AuditLogPage from "@/pages/AuditLogPage";
+import AdminPage from "@/pages/AdminPage";
+import PublicListPage from "@/pages/PublicListPage";
+import TrashPage from "@/pages/TrashPage";
 
 function App() {
   return (
@@ -32,6 +40,19 @@ function App() {
                   </PublicRoute>
                 }
               />
+              <Route
+                path="/forgot-password"
+                element={
+                  <PublicRoute>
+                    <ForgotPasswordPage />
+                  </PublicRoute>
+                }
+              />
+              {/* Opened from emailed links, signed in or not */}
+              <Route path="/reset-password" element={<ResetPasswordPage />} />
+              <Route path="/verify-email" element={<VerifyEmailPage />} />
+              {/* Public read-only share links, no account needed */}
+              <Route path="/shared/:token" element={<PublicListPage />} />
               <Route
                 path="/lists"
                 element={
@@ -48,6 +69,38 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/trash"
+                element={
+                  <ProtectedRoute>
+                    <TrashPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/settings"
+                element={
+                  <ProtectedRoute>
+                    <SettingsPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/settings/activity"
+                element={
+                  <ProtectedRoute>
+                    <AuditLogPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin"
+                element={
+                  <AdminRoute>
+                    <AdminPage />
+                  </AdminRoute>
+                }
+              />
             </Routes>
           </ListsProvider>
         </ToastProvider>
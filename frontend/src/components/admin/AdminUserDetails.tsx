@@ -0,0 +1,336 @@
+import { useState, useEffect, useCallback, useId } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { apiFetch } from "@/lib/api";
+import type { UserRole } from "@/contexts/AuthContextDef";
+import type { UserLimits } from "@/contexts/ListsContextDef";
+import { DeleteUserDialog } from "./DeleteUserDialog";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+// Shared styling for native select elements, matching the Input component
+const SELECT_CLASS_NAME =
+  "dark:bg-input/30 border-input h-9 w-full min-w-0 rounded-md border bg-transparent px-3 py-1 text-base shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 md:text-sm";
+
+type UserPlan = UserLimits["plan"];
+
+const PLAN_OPTIONS: Array<{ label: string; plan: UserPlan }> = [
+  { label: "Free", plan: "free" },
+  { label: "Pro", plan: "pro" },
+];
+
+/**
+ * User type from the admin API
+ */
+export interface AdminUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  disabled: boolean;
+  twoFactorEnabled: boolean;
+  createdAt: string;
+  disabledAt: string | null;
+  limits: UserLimits; // The plan's limits with any overrides applied
+  quotaOverrides: { maxLists?: number; maxTasksPerList?: number };
+}
+
+/**
+ * Usage counts from the admin API
+ */
+interface UserUsage {
+  listCount: number;
+  taskCount: number;
+  completedTaskCount: number;
+  activeSessionCount: number;
+  apiTokenCount: number;
+}
+
+interface AdminUserDetailsProps {
+  /** The user to show */
+  user: AdminUser;
+  /** Whether this is the signed-in admin's own account */
+  isSelf: boolean;
+  /** Callback with the updated user after it is disabled, enabled or moved to a plan */
+  onUpdated: (user: AdminUser) => void;
+  /** Callback after the user is deleted */
+  onDeleted: (userId: string) => void;
+}
+
+/**
+ * Expanded row on the admin page - a user's usage and the account actions
+ */
+export function AdminUserDetails({
+  user,
+  isSelf,
+  onUpdated,
+  onDeleted,
+}: AdminUserDetailsProps) {
+  const [usage, setUsage] = useState<UserUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [isSigningOut, setIsSigningOut] = useState(false);
+  const [isChangingPlan, setIsChangingPlan] = useState(false);
+  const planId = useId();
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+
+  /**
+   * Load the user's usage counts
+   */
+  const fetchUsage = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/admin/users/${user.id}`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to fetch usage");
+      }
+
+      setUsage(data.usage as UserUsage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch usage");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user.id]);
+
+  // Load usage when the row is expanded
+  useEffect(() => {
+    void fetchUsage();
+  }, [fetchUsage]);
+
+  const handleToggleDisabled = async () => {
+    setIsUpdating(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ disabled: !user.disabled }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to update account");
+      }
+
+      onUpdated(data.user as AdminUser);
+
+      // Disabling also ends the user's sessions
+      if (!user.disabled) {
+        setUsage((prev) => (prev ? { ...prev, activeSessionCount: 0 } : prev));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update account");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handlePlanChange = async (plan: UserPlan) => {
+    setIsChangingPlan(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/admin/users/${user.id}/quota`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ plan }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to change plan");
+      }
+
+      onUpdated(data.user as AdminUser);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change plan");
+    } finally {
+      setIsChangingPlan(false);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    setIsSigningOut(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await apiFetch(
+        `${API_URL}/api/admin/users/${user.id}/sessions`,
+        { method: "DELETE" }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to sign out sessions");
+      }
+
+      const revokedCount = Number(data.revokedCount) || 0;
+      setNotice(
+        revokedCount === 1 ? "Signed out 1 session." : `Signed out ${revokedCount} sessions.`
+      );
+      setUsage((prev) => (prev ? { ...prev, activeSessionCount: 0 } : prev));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign out sessions");
+    } finally {
+      setIsSigningOut(false);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    const response = await apiFetch(`${API_URL}/api/admin/users/${user.id}`, {
+      method: "DELETE",
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.message || "Failed to delete account");
+    }
+
+    onDeleted(user.id);
+  };
+
+  const isBusy = isUpdating || isSigningOut || isChangingPlan;
+  const hasQuotaOverrides = Object.keys(user.quotaOverrides).length > 0;
+
+  return (
+    <div className="space-y-3 pt-3">
+      {error && (
+        <div
+          role="alert"
+          className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+        >
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <p role="status" className="text-sm text-muted-foreground">
+          {notice}
+        </p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading usage...</p>
+      ) : (
+        usage && (
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm sm:grid-cols-3">
+            <div>
+              <dt className="text-muted-foreground">Lists</dt>
+              <dd className="font-medium">{usage.listCount}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Tasks</dt>
+              <dd className="font-medium">
+                {usage.taskCount} ({usage.completedTaskCount} done)
+              </dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Active sessions</dt>
+              <dd className="font-medium">{usage.activeSessionCount}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">API tokens</dt>
+              <dd className="font-medium">{usage.apiTokenCount}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Two-factor</dt>
+              <dd className="font-medium">
+                {user.twoFactorEnabled ? "On" : "Off"}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Limits</dt>
+              <dd className="font-medium">
+                {user.limits.maxLists} lists, {user.limits.maxTasksPerList} tasks each
+                {hasQuotaOverrides && " (custom)"}
+              </dd>
+            </div>
+          </dl>
+        )
+      )}
+
+      <div className="max-w-xs space-y-2">
+        <Label htmlFor={planId}>Plan</Label>
+        <select
+          id={planId}
+          className={SELECT_CLASS_NAME}
+          value={user.limits.plan}
+          onChange={(e) => void handlePlanChange(e.target.value as UserPlan)}
+          disabled={isBusy}
+        >
+          {PLAN_OPTIONS.map((option) => (
+            <option key={option.plan} value={option.plan}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {isSelf ? (
+        <p className="text-sm text-muted-foreground">
+          Manage your own account from Settings.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleToggleDisabled}
+            disabled={isBusy}
+          >
+            {isUpdating
+              ? "Saving..."
+              : user.disabled
+                ? "Enable account"
+                : "Disable account"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSignOutEverywhere}
+            disabled={isBusy}
+          >
+            {isSigningOut ? "Signing out..." : "Sign out everywhere"}
+          </Button>
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => setIsDeleteDialogOpen(true)}
+            disabled={isBusy}
+          >
+            Delete user
+          </Button>
+        </div>
+      )}
+
+      <DeleteUserDialog
+        username={user.username}
+        open={isDeleteDialogOpen}
+        onOpenChange={setIsDeleteDialogOpen}
+        onConfirm={handleDeleteConfirm}
+      />
+    </div>
+  );
+}
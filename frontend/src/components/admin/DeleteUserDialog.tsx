@@ -0,0 +1,88 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { buttonVariants } from "@/components/ui/button";
+
+interface DeleteUserDialogProps {
+  /** Username of the account to delete */
+  username: string;
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Callback when delete is confirmed */
+  onConfirm: () => Promise<void>;
+}
+
+/**
+ * Confirmation dialog for an admin deleting another user's account.
+ */
+export function DeleteUserDialog({
+  username,
+  open,
+  onOpenChange,
+  onConfirm,
+}: DeleteUserDialogProps) {
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = async (e: React.MouseEvent) => {
+    // Keep the dialog open until the request succeeds
+    e.preventDefault();
+
+    setIsDeleting(true);
+    setError(null);
+
+    try {
+      await onConfirm();
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete account");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete User</AlertDialogTitle>
+          <AlertDialogDescription>
+            This will permanently delete &ldquo;{username}&rdquo;, all of their
+            lists and tasks, and sign them out on every device. This cannot be
+            undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && (
+          <div
+            role="alert"
+            className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+          >
+            {error}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleDelete}
+            disabled={isDeleting}
+            className={buttonVariants({ variant: "destructive" })}
+          >
+            {isDeleting ? "Deleting..." : "Delete User"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,89 @@
+import { Check, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  checkPasswordRules,
+  estimatePasswordStrength,
+  type PasswordPolicy,
+} from "@/lib/passwordPolicy";
+
+// Bar colors by strength score
+const STRENGTH_COLORS = [
+  "bg-destructive",
+  "bg-destructive",
+  "bg-yellow-500",
+  "bg-green-500",
+  "bg-green-600",
+];
+
+interface PasswordStrengthMeterProps {
+  policy: PasswordPolicy;
+  password: string;
+}
+
+/**
+ * Live strength bar and policy checklist shown under a new password field
+ */
+export function PasswordStrengthMeter({
+  policy,
+  password,
+}: PasswordStrengthMeterProps) {
+  const strength = estimatePasswordStrength(password);
+  const checks = checkPasswordRules(policy, password);
+
+  return (
+    <div className="space-y-2">
+      {password && (
+        <div className="flex items-center gap-2">
+          <div
+            className="flex flex-1 gap-1"
+            role="meter"
+            aria-label="Password strength"
+            aria-valuemin={0}
+            aria-valuemax={4}
+            aria-valuenow={strength.score}
+            aria-valuetext={strength.label}
+          >
+            {[1, 2, 3, 4].map((segment) => (
+              <div
+                key={segment}
+                className={cn(
+                  "h-1.5 flex-1 rounded-full",
+                  strength.score >= segment
+                    ? STRENGTH_COLORS[strength.score]
+                    : "bg-muted"
+                )}
+              />
+            ))}
+          </div>
+          <span className="text-xs text-muted-foreground w-16 text-right">
+            {strength.label}
+          </span>
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {checks.map((check) => (
+          <li
+            key={check.label}
+            className={cn(
+              "flex items-center gap-1.5 text-xs",
+              check.met ? "text-green-600" : "text-muted-foreground"
+            )}
+          >
+            {check.met ? (
+              <Check className="h-3 w-3" aria-hidden="true" />
+            ) : (
+              <X className="h-3 w-3" aria-hidden="true" />
+            )}
+            {check.label}
+          </li>
+        ))}
+        {policy.breachCheck && (
+          <li className="text-xs text-muted-foreground">
+            Common or breached passwords aren't allowed
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
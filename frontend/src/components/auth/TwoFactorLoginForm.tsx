@@ -0,0 +1,139 @@
+import { useState, useId, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { User } from "@/contexts/AuthContextDef";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+interface TwoFactorLoginFormProps {
+  /** Token from the first login step */
+  pendingToken: string;
+  /** Called with the signed-in user once the code is accepted */
+  onSuccess: (user: User) => void;
+  /** Called when the user abandons the second step or it expires */
+  onCancel: (message?: string) => void;
+}
+
+/**
+ * Second login step - asks for an authenticator or backup code
+ */
+export function TwoFactorLoginForm({
+  pendingToken,
+  onSuccess,
+  onCancel,
+}: TwoFactorLoginFormProps) {
+  const codeId = useId();
+  const codeErrorId = useId();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Focus code input on mount
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      setError("Enter the code from your authenticator app");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/auth/login/2fa`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ pendingToken, code: code.trim() }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.error === "INVALID_TWO_FACTOR_CODE") {
+          setError("Invalid verification code");
+          setCode("");
+          inputRef.current?.focus();
+        } else if (data.error === "PENDING_LOGIN_INVALID") {
+          onCancel("Your sign-in expired. Please sign in again.");
+        } else if (data.error === "ACCOUNT_DISABLED") {
+          onCancel("This account has been disabled.");
+        } else if (data.error === "ACCOUNT_LOCKED") {
+          const retryAfterMinutes = Math.ceil((Number(data.retryAfter) || 60) / 60);
+          setError(
+            `Too many failed attempts. Please try again in ${
+              retryAfterMinutes === 1 ? "a minute" : `${retryAfterMinutes} minutes`
+            }.`
+          );
+          setCode("");
+        } else if (data.error === "RATE_LIMIT_EXCEEDED") {
+          setError("Too many attempts. Please try again later.");
+        } else {
+          setError("Something went wrong. Please try again.");
+        }
+        return;
+      }
+
+      onSuccess(data.user);
+    } catch {
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={codeId}>Verification code</Label>
+        <Input
+          ref={inputRef}
+          id={codeId}
+          type="text"
+          inputMode="text"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={isSubmitting}
+          aria-invalid={!!error}
+          aria-describedby={error ? codeErrorId : undefined}
+          maxLength={12}
+        />
+        <p className="text-xs text-muted-foreground">
+          Enter the 6-digit code from your authenticator app, or one of your
+          backup codes.
+        </p>
+        {error && (
+          <span id={codeErrorId} role="alert" className="text-sm text-destructive">
+            {error}
+          </span>
+        )}
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isSubmitting}>
+        {isSubmitting ? "Verifying..." : "Verify"}
+      </Button>
+
+      <Button
+        type="button"
+        variant="ghost"
+        className="w-full"
+        onClick={() => onCancel()}
+        disabled={isSubmitting}
+      >
+        Back to sign in
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect, useId } from "react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useLists } from "@/hooks/useLists";
+import { useToast } from "@/hooks/useToast";
+import { apiFetch } from "@/lib/api";
+import type { List } from "@/contexts/ListsContextDef";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+interface CopyListDialogProps {
+  /** The list to copy */
+  list: List;
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Callback with the new list after duplicating */
+  onDuplicated: (list: List) => void;
+}
+
+/**
+ * Dialog for duplicating a list or saving it as a personal template
+ */
+export function CopyListDialog({
+  list,
+  open,
+  onOpenChange,
+  onDuplicated,
+}: CopyListDialogProps) {
+  const { duplicateList } = useLists();
+  const { showToast } = useToast();
+  const resetCompletionId = useId();
+  const [resetCompletion, setResetCompletion] = useState(false);
+  const [pendingAction, setPendingAction] = useState<"duplicate" | "template" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start fresh each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setResetCompletion(false);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleDuplicate = async () => {
+    setPendingAction("duplicate");
+    setError(null);
+
+    try {
+      const createdList = await duplicateList(list.id, resetCompletion);
+      onOpenChange(false);
+      onDuplicated(createdList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to duplicate list");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    setPendingAction("template");
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/templates`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ listId: list.id }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to save template");
+      }
+
+      onOpenChange(false);
+      showToast({ message: `Saved "${list.title}" as a template` });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save template");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const isPending = pendingAction !== null;
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Copy List</AlertDialogTitle>
+          <AlertDialogDescription>
+            Duplicate &ldquo;{list.title}&rdquo; into a new list, or save its
+            tasks as a template to start new lists from.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div
+              role="alert"
+              className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+            >
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={resetCompletionId}
+              checked={resetCompletion}
+              onCheckedChange={setResetCompletion}
+              disabled={isPending}
+            />
+            <Label
+              htmlFor={resetCompletionId}
+              className="text-sm font-normal cursor-pointer"
+            >
+              Uncheck all tasks in the copy
+            </Label>
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+          <Button variant="outline" onClick={handleSaveTemplate} disabled={isPending}>
+            {pendingAction === "template" ? "Saving..." : "Save as template"}
+          </Button>
+          <Button onClick={handleDuplicate} disabled={isPending}>
+            {pendingAction === "duplicate" ? "Duplicating..." : "Duplicate"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
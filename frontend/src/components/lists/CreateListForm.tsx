@@ -1,21 +1,44 @@
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useId } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { useLists } from "@/hooks/useLists";
+import { apiFetch } from "@/lib/api";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 
 const MAX_TITLE_LENGTH = 64;
 
+// Shared styling for native select elements, matching the Input component
+const SELECT_CLASS_NAME =
+  "dark:bg-input/30 border-input h-9 w-full min-w-0 rounded-md border bg-transparent px-3 py-1 text-base shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 md:text-sm";
+
+/**
+ * List template type from the API
+ */
+interface ListTemplate {
+  id: string;
+  title: string;
+  taskCount: number;
+  createdAt: string;
+}
+
 interface CreateListFormProps {
   onCancel: () => void;
   onSuccess: () => void;
 }
 
 /**
- * Inline form for creating a new list
+ * Inline form for creating a new list, blank or from one of the user's templates
  */
 export function CreateListForm({ onCancel, onSuccess }: CreateListFormProps) {
   const { createList } = useLists();
+  const templateSelectId = useId();
   const [title, setTitle] = useState("");
+  const [templates, setTemplates] = useState<ListTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [isDeletingTemplate, setIsDeletingTemplate] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -25,6 +48,63 @@ export function CreateListForm({ onCancel, onSuccess }: CreateListFormProps) {
     inputRef.current?.focus();
   }, []);
 
+  // Load templates on mount - the picker only shows once there are some
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch(`${API_URL}/api/templates`, {
+          method: "GET",
+          credentials: "include",
+        });
+
+        const data = await response.json();
+
+        if (response.ok) {
+          setTemplates(data.templates as ListTemplate[]);
+        }
+      } catch {
+        // Creating blank lists still works without templates
+      }
+    };
+
+    void loadTemplates();
+  }, []);
+
+  const handleTemplateChange = (nextTemplateId: string) => {
+    const currentTemplate = templates.find((template) => template.id === templateId);
+    const nextTemplate = templates.find((template) => template.id === nextTemplateId);
+
+    // Suggest the template's title unless the user typed their own
+    if (nextTemplate && (title.trim() === "" || title === currentTemplate?.title)) {
+      setTitle(nextTemplate.title);
+    }
+
+    setTemplateId(nextTemplateId);
+  };
+
+  const handleDeleteTemplate = async () => {
+    setIsDeletingTemplate(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/templates/${templateId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to delete template");
+      }
+
+      setTemplates((prev) => prev.filter((template) => template.id !== templateId));
+      setTemplateId("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete template");
+    } finally {
+      setIsDeletingTemplate(false);
+    }
+  };
+
   const trimmedTitle = title.trim();
   const charCount = trimmedTitle.length;
   const isOverLimit = charCount > MAX_TITLE_LENGTH;
@@ -41,14 +121,14 @@ export function CreateListForm({ onCancel, onSuccess }: CreateListFormProps) {
       setError(null);
 
       try {
-        await createList(trimmedTitle);
+        await createList(trimmedTitle, templateId || undefined);
         onSuccess();
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to create list");
         setIsSubmitting(false);
       }
     },
-    [isValid, isSubmitting, createList, trimmedTitle, onSuccess]
+    [isValid, isSubmitting, createList, trimmedTitle, templateId, onSuccess]
   );
 
   const handleKeyDown = useCallback(
@@ -97,6 +177,39 @@ export function CreateListForm({ onCancel, onSuccess }: CreateListFormProps) {
         </Button>
       </div>
 
+      {templates.length > 0 && (
+        <div className="flex items-end gap-2">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor={templateSelectId}>Start from</Label>
+            <select
+              id={templateSelectId}
+              className={SELECT_CLASS_NAME}
+              value={templateId}
+              onChange={(e) => handleTemplateChange(e.target.value)}
+              disabled={isSubmitting || isDeletingTemplate}
+            >
+              <option value="">Blank list</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.title} ({template.taskCount === 1 ? "1 task" : `${template.taskCount} tasks`})
+                </option>
+              ))}
+            </select>
+          </div>
+          {templateId && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={handleDeleteTemplate}
+              disabled={isSubmitting || isDeletingTemplate}
+              aria-label="Delete selected template"
+            >
+              {isDeletingTemplate ? "Deleting..." : "Delete template"}
+            </Button>
+          )}
+        </div>
+      )}
+
       <div className="flex justify-between items-center text-xs">
         {error ? (
           <span id="create-list-error" className="text-destructive" role="alert">
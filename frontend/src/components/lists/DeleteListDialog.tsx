@@ -62,8 +62,8 @@ export function DeleteListDialog({
         <AlertDialogHeader>
           <AlertDialogTitle>Delete List</AlertDialogTitle>
           <AlertDialogDescription>
-            This will permanently delete &ldquo;{list.title}&rdquo; and all{" "}
-            {taskText}. This cannot be undone.
+            This will move &ldquo;{list.title}&rdquo; and all {taskText} to
+            the trash. You can restore it from the Trash page.
           </AlertDialogDescription>
         </AlertDialogHeader>
 
@@ -6,6 +6,7 @@ interface EditableTitleProps {
   title: string;
   onSave: (newTitle: string) => Promise<void>;
   maxLength?: number;
+  readOnly?: boolean; // Viewers see the title without the edit button
 }
 
 /**
@@ -15,6 +16,7 @@ export function EditableTitle({
   title,
   onSave,
   maxLength = 64,
+  readOnly = false,
 }: EditableTitleProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(title);
@@ -176,6 +178,10 @@ export function EditableTitle({
     );
   }
 
+  if (readOnly) {
+    return <h1 className="text-2xl font-bold truncate">{title}</h1>;
+  }
+
   return (
     <div className="group flex items-center gap-2">
       <h1 className="text-2xl font-bold truncate">{title}</h1>
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { buttonVariants } from "@/components/ui/button";
+import type { List } from "@/contexts/ListsContextDef";
+
+interface LeaveListDialogProps {
+  /** The list to leave */
+  list: List;
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Callback when leaving is confirmed */
+  onConfirm: () => Promise<void>;
+}
+
+/**
+ * Confirmation dialog for leaving a list someone shared with you.
+ */
+export function LeaveListDialog({
+  list,
+  open,
+  onOpenChange,
+  onConfirm,
+}: LeaveListDialogProps) {
+  const [isLeaving, setIsLeaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLeave = async () => {
+    setIsLeaving(true);
+    setError(null);
+
+    try {
+      await onConfirm();
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to leave list");
+      setIsLeaving(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Leave List</AlertDialogTitle>
+          <AlertDialogDescription>
+            You will lose access to &ldquo;{list.title}&rdquo;. To get it
+            back, {list.ownerUsername ?? "the owner"} will need to invite you
+            again.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && (
+          <div
+            role="alert"
+            className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+          >
+            {error}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isLeaving}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleLeave}
+            disabled={isLeaving}
+            className={buttonVariants({ variant: "destructive" })}
+          >
+            {isLeaving ? "Leaving..." : "Leave"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
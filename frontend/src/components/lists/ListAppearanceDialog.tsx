@@ -0,0 +1,183 @@
+import { useState, useEffect, useId } from "react";
+import { Check } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useLists } from "@/hooks/useLists";
+import {
+  LIST_COLORS,
+  LIST_DESCRIPTION_MAX_LENGTH,
+  getListColorClasses,
+} from "@/lib/listAppearance";
+import type { List, ListColor } from "@/contexts/ListsContextDef";
+
+// Shared styling for native textarea elements, matching the Input component
+const TEXTAREA_CLASS_NAME =
+  "dark:bg-input/30 border-input min-h-24 w-full min-w-0 rounded-md border bg-transparent px-3 py-2 text-base shadow-xs transition-[color,box-shadow] outline-none placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 md:text-sm";
+
+interface ListAppearanceDialogProps {
+  /** The list to restyle */
+  list: List;
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Callback with the updated list after saving */
+  onUpdated: (list: List) => void;
+}
+
+/**
+ * Dialog for changing a list's accent color, emoji and description
+ */
+export function ListAppearanceDialog({
+  list,
+  open,
+  onOpenChange,
+  onUpdated,
+}: ListAppearanceDialogProps) {
+  const { updateListAppearance } = useLists();
+  const colorLabelId = useId();
+  const emojiId = useId();
+  const descriptionId = useId();
+  const [color, setColor] = useState<ListColor>(list.color);
+  const [emoji, setEmoji] = useState(list.emoji ?? "");
+  const [description, setDescription] = useState(list.description);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the list's current appearance each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setColor(list.color);
+      setEmoji(list.emoji ?? "");
+      setDescription(list.description);
+      setError(null);
+    }
+  }, [open, list.color, list.emoji, list.description]);
+
+  const isOverLimit = description.trim().length > LIST_DESCRIPTION_MAX_LENGTH;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const updatedList = await updateListAppearance(list.id, {
+        color,
+        emoji: emoji.trim() || null,
+        description: description.trim(),
+      });
+      onOpenChange(false);
+      onUpdated(updatedList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update list");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>List Appearance</AlertDialogTitle>
+          <AlertDialogDescription>
+            Choose how &ldquo;{list.title}&rdquo; looks for everyone who can see it.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div
+              role="alert"
+              className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+            >
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label id={colorLabelId}>Color</Label>
+            <div
+              role="radiogroup"
+              aria-labelledby={colorLabelId}
+              className="flex flex-wrap gap-2"
+            >
+              {LIST_COLORS.map((option) => {
+                const { label, swatch } = getListColorClasses(option);
+                const isSelected = color === option;
+
+                return (
+                  <button
+                    key={option}
+                    type="button"
+                    role="radio"
+                    aria-checked={isSelected}
+                    aria-label={label}
+                    title={label}
+                    onClick={() => setColor(option)}
+                    disabled={isSaving}
+                    className={`flex h-8 w-8 items-center justify-center rounded-full ${swatch} ${
+                      isSelected ? "ring-2 ring-ring ring-offset-2 ring-offset-background" : ""
+                    }`}
+                  >
+                    {isSelected && <Check className="h-4 w-4 text-white" aria-hidden="true" />}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={emojiId}>Emoji</Label>
+            <Input
+              id={emojiId}
+              value={emoji}
+              onChange={(e) => setEmoji(e.target.value)}
+              placeholder="None"
+              maxLength={32}
+              className="w-24"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={descriptionId}>Description</Label>
+            <textarea
+              id={descriptionId}
+              className={TEXTAREA_CLASS_NAME}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What is this list for?"
+              aria-invalid={isOverLimit}
+              disabled={isSaving}
+            />
+            <p
+              className={`text-xs text-right ${
+                isOverLimit ? "text-destructive" : "text-muted-foreground"
+              }`}
+            >
+              {description.trim().length}/{LIST_DESCRIPTION_MAX_LENGTH}
+            </p>
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+          <Button onClick={handleSave} disabled={isSaving || isOverLimit}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -1,17 +1,20 @@
-import { useCallback, useState } from "react";
+import { useCallback, useState, type HTMLAttributes } from "react";
 import { useNavigate } from "react-router-dom";
-import { Pin, PinOff } from "lucide-react";
+import { GripVertical, Pin, PinOff, Users } from "lucide-react";
 import { useLists } from "@/hooks/useLists";
+import { getListColorClasses } from "@/lib/listAppearance";
 import type { List } from "@/contexts/ListsContextDef";
 
 interface ListCardProps {
   list: List;
+  /** Drag-and-drop attributes and listeners - shows a drag handle when given */
+  dragHandleProps?: HTMLAttributes<HTMLElement>;
 }
 
 /**
  * Card component for displaying a single list
  */
-export function ListCard({ list }: ListCardProps) {
+export function ListCard({ list, dragHandleProps }: ListCardProps) {
   const navigate = useNavigate();
   const { togglePinned } = useLists();
   const [isPinning, setIsPinning] = useState(false);
@@ -68,6 +71,16 @@ export function ListCard({ list }: ListCardProps) {
     ? "No tasks"
     : `${list.completedCount}/${list.taskCount} done`;
 
+  // Who else can see the list - the owner for shared lists, the count for the user's own
+  let sharingText: string | null = null;
+  if (list.role !== "owner") {
+    sharingText = `Shared by ${list.ownerUsername ?? "another user"}`;
+  } else if (list.memberCount > 0) {
+    sharingText = `Shared with ${list.memberCount} ${
+      list.memberCount === 1 ? "person" : "people"
+    }`;
+  }
+
   const PinIcon = list.isPinned ? PinOff : Pin;
   const pinLabel = list.isPinned ? "Unpin list" : "Pin list";
 
@@ -77,9 +90,9 @@ export function ListCard({ list }: ListCardProps) {
       tabIndex={0}
       onClick={handleClick}
       onKeyDown={handleKeyDown}
-      className={`relative p-4 rounded-lg border bg-card hover:shadow-md cursor-pointer transition-shadow ${
-        isEmpty ? "border-dashed" : ""
-      }`}
+      className={`relative p-4 rounded-lg border border-l-4 bg-card hover:shadow-md cursor-pointer transition-shadow ${
+        getListColorClasses(list.color).accent
+      } ${isEmpty ? "border-dashed" : ""}`}
       aria-label={`${list.title} - ${statusText}`}
     >
       {/* Pin button */}
@@ -100,11 +113,46 @@ export function ListCard({ list }: ListCardProps) {
         <PinIcon className="h-4 w-4" />
       </button>
 
-      <h3 className="font-medium truncate pr-8">{list.title}</h3>
+      {/* Drag handle - kept out of the card's click and key handling */}
+      {dragHandleProps && (
+        <div
+          {...dragHandleProps}
+          onClick={(event) => event.stopPropagation()}
+          onKeyDown={(event) => {
+            dragHandleProps.onKeyDown?.(event);
+            event.stopPropagation();
+          }}
+          className="absolute top-2 right-9 p-1.5 rounded-md cursor-grab active:cursor-grabbing text-muted-foreground hover:text-foreground"
+          aria-label={`Drag to reorder list: ${list.title}`}
+        >
+          <GripVertical className="h-4 w-4" />
+        </div>
+      )}
+
+      <h3 className={`font-medium truncate ${dragHandleProps ? "pr-16" : "pr-8"}`}>
+        {list.emoji && (
+          <span className="mr-1.5" aria-hidden="true">
+            {list.emoji}
+          </span>
+        )}
+        {list.title}
+      </h3>
+      {list.description && (
+        <p className="mt-1 text-sm text-muted-foreground whitespace-pre-line line-clamp-2">
+          {list.description}
+        </p>
+      )}
       <div className="flex items-center justify-between mt-2 text-sm text-muted-foreground">
         <span>{list.taskCount} {list.taskCount === 1 ? "task" : "tasks"}</span>
         <span>{statusText}</span>
       </div>
+      {sharingText && (
+        <p className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+          <Users className="h-3 w-3" aria-hidden="true" />
+          {sharingText}
+          {list.role === "viewer" && <> &middot; View only</>}
+        </p>
+      )}
 
       {/* Error toast */}
       {pinError && (
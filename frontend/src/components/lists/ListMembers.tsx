@@ -0,0 +1,305 @@
+import { useState, useEffect, useCallback, useId } from "react";
+import { Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { apiFetch } from "@/lib/api";
+import type { List, ListRole } from "@/contexts/ListsContextDef";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+const SELECT_CLASS_NAME =
+  "dark:bg-input/30 border-input h-9 rounded-md border bg-transparent px-3 py-1 text-base shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 md:text-sm";
+
+type MemberRole = Exclude<ListRole, "owner">;
+
+/**
+ * Member type from the API
+ */
+interface Member {
+  userId: string;
+  username: string | null;
+  role: ListRole;
+  status: "pending" | "accepted";
+}
+
+const ROLE_LABELS: Record<ListRole, string> = {
+  owner: "Owner",
+  editor: "Can edit",
+  viewer: "Can view",
+};
+
+interface ListMembersProps {
+  list: List;
+}
+
+/**
+ * Shows who has access to a list
+ * The owner can also invite people by username, change their roles and remove them
+ */
+export function ListMembers({ list }: ListMembersProps) {
+  const usernameId = useId();
+  const roleId = useId();
+  const isOwner = list.role === "owner";
+
+  const [members, setMembers] = useState<Member[]>([]);
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<MemberRole>("editor");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isInviting, setIsInviting] = useState(false);
+  const [pendingUserId, setPendingUserId] = useState<string | null>(null);
+
+  /**
+   * Load the members from the backend
+   */
+  const fetchMembers = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`${API_URL}/api/lists/${list.id}/members`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to fetch members");
+      }
+
+      setMembers(data.members as Member[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch members");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [list.id]);
+
+  // Load members on mount
+  useEffect(() => {
+    void fetchMembers();
+  }, [fetchMembers]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!username.trim()) {
+      setError("Username is required");
+      return;
+    }
+
+    setError(null);
+    setIsInviting(true);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/lists/${list.id}/members`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ username: username.trim(), role }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.error === "USER_NOT_FOUND") {
+          setError(`No user named "${username.trim()}"`);
+        } else {
+          setError(data.message || "Failed to invite user");
+        }
+        return;
+      }
+
+      setMembers((prev) => [...prev, data.member as Member]);
+      setUsername("");
+    } catch {
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: Member, newRole: MemberRole) => {
+    setError(null);
+    setPendingUserId(member.userId);
+
+    try {
+      const response = await apiFetch(
+        `${API_URL}/api/lists/${list.id}/members/${member.userId}`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ role: newRole }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to change role");
+      }
+
+      setMembers((prev) =>
+        prev.map((item) =>
+          item.userId === member.userId ? { ...item, role: newRole } : item
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change role");
+    } finally {
+      setPendingUserId(null);
+    }
+  };
+
+  const handleRemove = async (member: Member) => {
+    setError(null);
+    setPendingUserId(member.userId);
+
+    try {
+      const response = await apiFetch(
+        `${API_URL}/api/lists/${list.id}/members/${member.userId}`,
+        { method: "DELETE" }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to remove member");
+      }
+
+      setMembers((prev) => prev.filter((item) => item.userId !== member.userId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove member");
+    } finally {
+      setPendingUserId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-4 w-4" aria-hidden="true" />
+          People with access
+        </CardTitle>
+        <CardDescription>
+          {isOwner
+            ? "Editors can change tasks and the title, viewers can only look"
+            : `You can ${list.role === "editor" ? "edit" : "view"} this list`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div
+            role="alert"
+            className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+          >
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading members...</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {members.map((member) => {
+              const name = member.username ?? "Deleted user";
+              const isPending = pendingUserId === member.userId;
+
+              return (
+                <li
+                  key={member.userId}
+                  className="flex flex-wrap items-center justify-between gap-3 p-3"
+                >
+                  <p className="text-sm font-medium truncate">
+                    {name}
+                    {member.status === "pending" && (
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        Invited
+                      </span>
+                    )}
+                  </p>
+
+                  {isOwner && member.role !== "owner" ? (
+                    <div className="flex items-center gap-2">
+                      <select
+                        className={SELECT_CLASS_NAME}
+                        value={member.role}
+                        onChange={(e) =>
+                          handleRoleChange(member, e.target.value as MemberRole)
+                        }
+                        disabled={isPending}
+                        aria-label={`Role for ${name}`}
+                      >
+                        <option value="editor">{ROLE_LABELS.editor}</option>
+                        <option value="viewer">{ROLE_LABELS.viewer}</option>
+                      </select>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRemove(member)}
+                        disabled={isPending}
+                        aria-label={`Remove ${name}`}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">
+                      {ROLE_LABELS[member.role]}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-2">
+            <div className="space-y-2 flex-1 min-w-40">
+              <Label htmlFor={usernameId}>Invite by username</Label>
+              <Input
+                id={usernameId}
+                type="text"
+                placeholder="Username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                disabled={isInviting}
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={roleId}>Role</Label>
+              <select
+                id={roleId}
+                className={SELECT_CLASS_NAME}
+                value={role}
+                onChange={(e) => setRole(e.target.value as MemberRole)}
+                disabled={isInviting}
+              >
+                <option value="editor">{ROLE_LABELS.editor}</option>
+                <option value="viewer">{ROLE_LABELS.viewer}</option>
+              </select>
+            </div>
+            <Button type="submit" disabled={isInviting || !username.trim()}>
+              {isInviting ? "Inviting..." : "Invite"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,24 +1,118 @@
-import { Pin, List, CheckCircle, type LucideIcon } from "lucide-react";
+import { useCallback, useMemo } from "react";
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  rectSortingStrategy,
+  useSortable,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { Pin, List, CheckCircle, Users, type LucideIcon } from "lucide-react";
 import { ListCard } from "./ListCard";
 import type { List as ListType } from "@/contexts/ListsContextDef";
 
-type SectionType = "pinned" | "active" | "completed";
+type SectionType = "pinned" | "active" | "completed" | "shared";
 
 interface ListSectionProps {
   type: SectionType;
   lists: ListType[];
+  /** Makes the cards draggable - called with the section's new manual order */
+  onReorder?: (orders: Array<{ listId: string; order: number }>) => Promise<void>;
 }
 
 const sectionConfig: Record<SectionType, { label: string; Icon: LucideIcon }> = {
   pinned: { label: "Pinned", Icon: Pin },
   active: { label: "Active", Icon: List },
   completed: { label: "Completed", Icon: CheckCircle },
+  shared: { label: "Shared with me", Icon: Users },
 };
 
+interface SortableListCardProps {
+  list: ListType;
+  prefersReducedMotion: boolean;
+}
+
+/**
+ * List card wrapped for drag-and-drop - dragged by its handle
+ */
+function SortableListCard({ list, prefersReducedMotion }: SortableListCardProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } =
+    useSortable({ id: list.id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition: !prefersReducedMotion ? transition : undefined,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div ref={setNodeRef} style={style}>
+      <ListCard list={list} dragHandleProps={{ ...attributes, ...listeners }} />
+    </div>
+  );
+}
+
 /**
  * Section component for displaying a group of lists
+ * Includes drag-and-drop reordering with dnd-kit when onReorder is given
  */
-export function ListSection({ type, lists }: ListSectionProps) {
+export function ListSection({ type, lists, onReorder }: ListSectionProps) {
+  // Check if prefers-reduced-motion is set
+  const prefersReducedMotion = useMemo(() => {
+    return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+  }, []);
+
+  // Setup sensors for drag-and-drop
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8, // Require at least 8px of movement to start drag
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  // Handle drag end
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      const { active, over } = event;
+
+      if (!onReorder || !over || active.id === over.id) {
+        return;
+      }
+
+      const oldIndex = lists.findIndex((list) => list.id === active.id);
+      const newIndex = lists.findIndex((list) => list.id === over.id);
+
+      if (oldIndex === -1 || newIndex === -1) {
+        return;
+      }
+
+      // Calculate new order values for this section
+      const orders = arrayMove(lists, oldIndex, newIndex).map((list, index) => ({
+        listId: list.id,
+        order: index + 1,
+      }));
+
+      // Errors are shown by the page, and the context rolls back
+      onReorder(orders).catch((err) => {
+        console.error("Failed to reorder lists:", err);
+      });
+    },
+    [lists, onReorder]
+  );
+
   // Don't render if no lists in this section
   if (lists.length === 0) {
     return null;
@@ -32,11 +126,31 @@ export function ListSection({ type, lists }: ListSectionProps) {
         <Icon className="h-4 w-4" aria-hidden="true" />
         {label}
       </h2>
-      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
-        {lists.map((list) => (
-          <ListCard key={list.id} list={list} />
-        ))}
-      </div>
+      {onReorder ? (
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCenter}
+          onDragEnd={handleDragEnd}
+        >
+          <SortableContext items={lists.map((list) => list.id)} strategy={rectSortingStrategy}>
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {lists.map((list) => (
+                <SortableListCard
+                  key={list.id}
+                  list={list}
+                  prefersReducedMotion={prefersReducedMotion}
+                />
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
+      ) : (
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {lists.map((list) => (
+            <ListCard key={list.id} list={list} />
+          ))}
+        </div>
+      )}
     </section>
   );
 }
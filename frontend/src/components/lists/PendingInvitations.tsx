@@ -0,0 +1,152 @@
+import { useState, useEffect, useCallback } from "react";
+import { Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useLists } from "@/hooks/useLists";
+import { apiFetch } from "@/lib/api";
+import type { ListRole } from "@/contexts/ListsContextDef";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+/**
+ * Invitation type from the API
+ */
+interface Invitation {
+  id: string;
+  listId: string;
+  listTitle: string;
+  ownerUsername: string | null;
+  invitedByUsername: string | null;
+  role: Exclude<ListRole, "owner">;
+  createdAt: string;
+}
+
+/**
+ * Invitations to other people's lists, with accept and decline
+ * Renders nothing when there are none
+ */
+export function PendingInvitations() {
+  const { refreshLists } = useLists();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load pending invitations from the backend
+   */
+  const fetchInvitations = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/invitations`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to fetch invitations");
+      }
+
+      setInvitations(data.invitations as Invitation[]);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch invitations"
+      );
+    }
+  }, []);
+
+  // Load invitations on mount
+  useEffect(() => {
+    void fetchInvitations();
+  }, [fetchInvitations]);
+
+  const handleRespond = async (
+    invitation: Invitation,
+    action: "accept" | "decline"
+  ) => {
+    setError(null);
+    setRespondingId(invitation.id);
+
+    try {
+      const response = await apiFetch(
+        `${API_URL}/api/invitations/${invitation.id}/${action}`,
+        { method: "POST" }
+      );
+
+      const data = await response.json();
+
+      // An invitation that's gone was withdrawn - drop it either way
+      if (!response.ok && data.error !== "NOT_FOUND") {
+        throw new Error(data.message || `Failed to ${action} invitation`);
+      }
+
+      setInvitations((prev) => prev.filter((item) => item.id !== invitation.id));
+
+      if (action === "accept") {
+        await refreshLists();
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : `Failed to ${action} invitation`
+      );
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (invitations.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <section className="mb-8 space-y-3">
+      <h2 className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+        <Mail className="h-4 w-4" aria-hidden="true" />
+        Invitations
+      </h2>
+
+      {error && (
+        <div
+          role="alert"
+          className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+        >
+          {error}
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {invitations.map((invitation) => (
+          <li
+            key={invitation.id}
+            className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-lg border bg-card"
+          >
+            <div className="min-w-0">
+              <p className="font-medium truncate">{invitation.listTitle}</p>
+              <p className="text-sm text-muted-foreground">
+                {invitation.invitedByUsername ?? "Someone"} invited you as{" "}
+                {invitation.role === "editor" ? "an editor" : "a viewer"}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => handleRespond(invitation, "accept")}
+                disabled={respondingId !== null}
+              >
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRespond(invitation, "decline")}
+                disabled={respondingId !== null}
+              >
+                Decline
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
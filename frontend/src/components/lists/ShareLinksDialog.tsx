@@ -0,0 +1,290 @@
+import { useState, useEffect, useCallback, useId } from "react";
+import { Link2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { apiFetch } from "@/lib/api";
+import type { List } from "@/contexts/ListsContextDef";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+// Expiry choices offered when creating a link (null = never expires)
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "1 day", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "Never", days: null },
+];
+
+// Shared styling for native select elements, matching the Input component
+const SELECT_CLASS_NAME =
+  "dark:bg-input/30 border-input h-9 w-full min-w-0 rounded-md border bg-transparent px-3 py-1 text-base shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 md:text-sm";
+
+/**
+ * Share link type from the API
+ */
+interface ShareLink {
+  id: string;
+  expiresAt: string | null;
+  createdAt: string;
+  lastViewedAt: string | null;
+}
+
+interface ShareLinksDialogProps {
+  /** The list to share */
+  list: List;
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Builds the public URL for a share token
+ */
+function getShareUrl(token: string): string {
+  return `${window.location.origin}/shared/${token}`;
+}
+
+/**
+ * Dialog for creating, copying and revoking public read-only links to a list
+ */
+export function ShareLinksDialog({ list, open, onOpenChange }: ShareLinksDialogProps) {
+  const expiryId = useId();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expiryIndex, setExpiryIndex] = useState(1);
+  const [isCreating, setIsCreating] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  // Full URL, shown once right after creation
+  const [newUrl, setNewUrl] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+
+  /**
+   * Load links from the backend
+   */
+  const refreshLinks = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/lists/${list.id}/links`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to fetch share links");
+      }
+
+      setLinks(data.links as ShareLink[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch share links");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [list.id]);
+
+  // Load links each time the dialog opens, and forget the last new link
+  useEffect(() => {
+    if (open) {
+      setNewUrl(null);
+      void refreshLinks();
+    }
+  }, [open, refreshLinks]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/lists/${list.id}/links`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          expiresInDays: EXPIRY_OPTIONS[expiryIndex].days,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to create share link");
+      }
+
+      setLinks((prev) => [data.link as ShareLink, ...prev]);
+      setNewUrl(getShareUrl(data.token as string));
+      setIsCopied(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create share link");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    setPendingId(linkId);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/lists/${list.id}/links/${linkId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to revoke share link");
+      }
+
+      setLinks((prev) => prev.filter((link) => link.id !== linkId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke share link");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newUrl) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(newUrl);
+      setIsCopied(true);
+    } catch {
+      setError("Could not copy to clipboard. Select the link and copy it manually.");
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Share Links</AlertDialogTitle>
+          <AlertDialogDescription>
+            Anyone with a link can view &ldquo;{list.title}&rdquo; without
+            signing in, but can&rsquo;t change it.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div
+              role="alert"
+              className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+            >
+              {error}
+            </div>
+          )}
+
+          {/* The link is only available right after creation */}
+          {newUrl && (
+            <div className="space-y-2 rounded-md border p-3">
+              <p className="text-sm font-medium">Copy your new link</p>
+              <p className="text-xs text-muted-foreground">
+                It will not be shown again.
+              </p>
+              <p className="font-mono text-sm break-all rounded-md bg-muted p-2">
+                {newUrl}
+              </p>
+              <Button size="sm" variant="outline" onClick={handleCopy}>
+                {isCopied ? "Copied" : "Copy"}
+              </Button>
+            </div>
+          )}
+
+          <form onSubmit={handleCreate} className="flex items-end gap-2">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor={expiryId}>Expires after</Label>
+              <select
+                id={expiryId}
+                className={SELECT_CLASS_NAME}
+                value={expiryIndex}
+                onChange={(e) => setExpiryIndex(Number(e.target.value))}
+                disabled={isCreating}
+              >
+                {EXPIRY_OPTIONS.map((option, index) => (
+                  <option key={option.label} value={index}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button type="submit" disabled={isCreating}>
+              {isCreating ? "Creating..." : "Create link"}
+            </Button>
+          </form>
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading links...</p>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No share links yet.</p>
+          ) : (
+            <ul className="divide-y rounded-md border">
+              {links.map((link) => (
+                <li
+                  key={link.id}
+                  className="flex items-center justify-between gap-4 p-3"
+                >
+                  <div className="flex items-start gap-3 min-w-0">
+                    <Link2
+                      className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0"
+                      aria-hidden="true"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Created {formatDate(link.createdAt)} &middot;{" "}
+                      {link.lastViewedAt
+                        ? `Last viewed ${formatDate(link.lastViewedAt)}`
+                        : "Never viewed"}{" "}
+                      &middot;{" "}
+                      {link.expiresAt
+                        ? `${new Date(link.expiresAt).getTime() < Date.now() ? "Expired" : "Expires"} ${formatDate(link.expiresAt)}`
+                        : "No expiry"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(link.id)}
+                    disabled={pendingId === link.id}
+                    aria-label={`Revoke link created ${formatDate(link.createdAt)}`}
+                  >
+                    {pendingId === link.id ? "Revoking..." : "Revoke"}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Close</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
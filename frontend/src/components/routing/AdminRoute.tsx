@@ -0,0 +1,57 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+
+interface AdminRouteProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Loading spinner component for auth check
+ */
+function LoadingSpinner() {
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center">
+      <div className="flex flex-col items-center space-y-4">
+        <div
+          className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"
+          role="status"
+          aria-label="Loading"
+        />
+        <p className="text-sm text-muted-foreground">Checking authentication...</p>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * AdminRoute wrapper that redirects to login if not authenticated and to
+ * /lists if the user is not an admin
+ *
+ * The API enforces the admin role on its own - this only keeps the area out
+ * of sight for regular users
+ *
+ * Usage:
+ * <Route path="/admin" element={<AdminRoute><AdminPage /></AdminRoute>} />
+ */
+export function AdminRoute({ children }: AdminRouteProps) {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const location = useLocation();
+
+  // Show loading state while checking authentication
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  // Redirect to login if not authenticated
+  // Save the current location so we can redirect back after login
+  if (!isAuthenticated) {
+    return <Navigate to="/login" state={{ from: location }} replace />;
+  }
+
+  // Signed in but not an admin
+  if (user?.role !== "admin") {
+    return <Navigate to="/lists" replace />;
+  }
+
+  return <>{children}</>;
+}
@@ -1,2 +1,3 @@
+export { AdminRoute } from "./AdminRoute";
 export { ProtectedRoute } from "./ProtectedRoute";
 export { PublicRoute } from "./PublicRoute";
@@ -0,0 +1,204 @@
+import { useState, useEffect, useCallback } from "react";
+import { Monitor } from "lucide-react";
+import { describeUserAgent } from "@/lib/userAgent";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { apiFetch } from "@/lib/api";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+/**
+ * Session type from the API
+ */
+interface Session {
+  id: string;
+  isCurrent: boolean;
+  rememberMe: boolean;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string | null;
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Settings panel listing the user's sessions with revoke actions
+ */
+export function ActiveSessions() {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [isRevokingOthers, setIsRevokingOthers] = useState(false);
+
+  /**
+   * Load sessions from the backend
+   */
+  const refreshSessions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/auth/sessions`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to fetch sessions");
+      }
+
+      setSessions(data.sessions as Session[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch sessions");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const handleRevoke = useCallback(async (sessionId: string) => {
+    setPendingId(sessionId);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/auth/sessions/${sessionId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to revoke session");
+      }
+
+      setSessions((prev) => prev.filter((session) => session.id !== sessionId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke session");
+    } finally {
+      setPendingId(null);
+    }
+  }, []);
+
+  const handleRevokeOthers = useCallback(async () => {
+    setIsRevokingOthers(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/auth/sessions`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to sign out other sessions");
+      }
+
+      setSessions((prev) => prev.filter((session) => session.isCurrent));
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to sign out other sessions"
+      );
+    } finally {
+      setIsRevokingOthers(false);
+    }
+  }, []);
+
+  // Load sessions on mount
+  useEffect(() => {
+    void refreshSessions();
+  }, [refreshSessions]);
+
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Active Sessions</CardTitle>
+        <CardDescription>
+          Devices where you are currently signed in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div
+            role="alert"
+            className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+          >
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading sessions...</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {sessions.map((session) => (
+              <li
+                key={session.id}
+                className="flex items-center justify-between gap-4 p-3"
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  <Monitor
+                    className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0"
+                    aria-hidden="true"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {describeUserAgent(session.userAgent)}
+                      {session.isCurrent && (
+                        <span className="ml-2 text-xs text-primary">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Last active {formatDateTime(session.lastSeenAt)} &middot;
+                      Signed in {formatDateTime(session.createdAt)}
+                      {session.rememberMe && " · Remembered"}
+                    </p>
+                  </div>
+                </div>
+                {!session.isCurrent && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(session.id)}
+                    disabled={pendingId === session.id || isRevokingOthers}
+                    aria-label={`Revoke session ${describeUserAgent(session.userAgent)}`}
+                  >
+                    {pendingId === session.id ? "Revoking..." : "Revoke"}
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Button
+          variant="outline"
+          onClick={handleRevokeOthers}
+          disabled={!hasOtherSessions || isRevokingOthers}
+        >
+          {isRevokingOthers ? "Signing out..." : "Sign out everywhere else"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState, useEffect, useCallback, useId } from "react";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { apiFetch } from "@/lib/api";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+// Must match the backend limit
+const TOKEN_NAME_MAX_LENGTH = 50;
+
+// Expiry choices offered when creating a token (null = never expires)
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+  { label: "Never", days: null },
+];
+
+// Shared styling for native select elements, matching the Input component
+const SELECT_CLASS_NAME =
+  "dark:bg-input/30 border-input h-9 w-full min-w-0 rounded-md border bg-transparent px-3 py-1 text-base shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 md:text-sm";
+
+type TokenScope = "read" | "write";
+
+/**
+ * API token type from the API
+ */
+interface ApiToken {
+  id: string;
+  name: string;
+  scope: TokenScope;
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Settings panel for creating and revoking personal API tokens
+ */
+export function ApiTokens() {
+  const nameId = useId();
+  const scopeId = useId();
+  const expiryId = useId();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<TokenScope>("read");
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [isCreating, setIsCreating] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  // Plaintext token, shown once right after creation
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+
+  /**
+   * Load tokens from the backend
+   */
+  const refreshTokens = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/auth/tokens`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to fetch API tokens");
+      }
+
+      setTokens(data.tokens as ApiToken[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch API tokens");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const handleCreate = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsCreating(true);
+      setError(null);
+
+      try {
+        const response = await apiFetch(`${API_URL}/api/auth/tokens`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            name: name.trim(),
+            scope,
+            expiresInDays: EXPIRY_OPTIONS[expiryIndex].days,
+          }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to create API token");
+        }
+
+        setTokens((prev) => [data.apiToken as ApiToken, ...prev]);
+        setNewToken(data.token as string);
+        setIsCopied(false);
+        setName("");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to create API token");
+      } finally {
+        setIsCreating(false);
+      }
+    },
+    [name, scope, expiryIndex]
+  );
+
+  const handleRevoke = useCallback(async (tokenId: string) => {
+    setPendingId(tokenId);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/auth/tokens/${tokenId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to revoke API token");
+      }
+
+      setTokens((prev) => prev.filter((token) => token.id !== tokenId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke API token");
+    } finally {
+      setPendingId(null);
+    }
+  }, []);
+
+  const handleCopy = useCallback(async () => {
+    if (!newToken) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(newToken);
+      setIsCopied(true);
+    } catch {
+      setError("Could not copy to clipboard. Select the token and copy it manually.");
+    }
+  }, [newToken]);
+
+  // Load tokens on mount
+  useEffect(() => {
+    void refreshTokens();
+  }, [refreshTokens]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API Tokens</CardTitle>
+        <CardDescription>
+          Personal tokens for scripts. Send them as{" "}
+          <code className="font-mono text-xs">Authorization: Bearer &lt;token&gt;</code>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div
+            role="alert"
+            className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+          >
+            {error}
+          </div>
+        )}
+
+        {/* The plaintext token is only available right after creation */}
+        {newToken && (
+          <div className="space-y-2 rounded-md border p-3">
+            <p className="text-sm font-medium">Copy your new token</p>
+            <p className="text-xs text-muted-foreground">
+              It will not be shown again.
+            </p>
+            <p className="font-mono text-sm break-all rounded-md bg-muted p-2">
+              {newToken}
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={handleCopy}>
+                {isCopied ? "Copied" : "Copy"}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setNewToken(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor={nameId}>Token name</Label>
+            <Input
+              id={nameId}
+              type="text"
+              placeholder="e.g. Backup script"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isCreating}
+              maxLength={TOKEN_NAME_MAX_LENGTH}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor={scopeId}>Access</Label>
+              <select
+                id={scopeId}
+                className={SELECT_CLASS_NAME}
+                value={scope}
+                onChange={(e) => setScope(e.target.value as TokenScope)}
+                disabled={isCreating}
+              >
+                <option value="read">Read only</option>
+                <option value="write">Read and write</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={expiryId}>Expires after</Label>
+              <select
+                id={expiryId}
+                className={SELECT_CLASS_NAME}
+                value={expiryIndex}
+                onChange={(e) => setExpiryIndex(Number(e.target.value))}
+                disabled={isCreating}
+              >
+                {EXPIRY_OPTIONS.map((option, index) => (
+                  <option key={option.label} value={index}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <Button type="submit" disabled={isCreating || !name.trim()}>
+            {isCreating ? "Creating..." : "Create token"}
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading tokens...</p>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No API tokens yet.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {tokens.map((token) => (
+              <li
+                key={token.id}
+                className="flex items-center justify-between gap-4 p-3"
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  <KeyRound
+                    className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0"
+                    aria-hidden="true"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {token.name}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {token.scope === "write" ? "Read and write" : "Read only"}
+                      </span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Created {formatDate(token.createdAt)} &middot;{" "}
+                      {token.lastUsedAt
+                        ? `Last used ${formatDate(token.lastUsedAt)}`
+                        : "Never used"}{" "}
+                      &middot;{" "}
+                      {token.expiresAt
+                        ? `Expires ${formatDate(token.expiresAt)}`
+                        : "No expiry"}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevoke(token.id)}
+                  disabled={pendingId === token.id}
+                  aria-label={`Revoke token ${token.name}`}
+                >
+                  {pendingId === token.id ? "Revoking..." : "Revoke"}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
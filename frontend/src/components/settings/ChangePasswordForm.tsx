@@ -0,0 +1,211 @@
+import { useState, useId } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { PasswordStrengthMeter } from "@/components/auth/PasswordStrengthMeter";
+import { useAuth } from "@/hooks/useAuth";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
+import { getPasswordError } from "@/lib/passwordPolicy";
+import { apiFetch } from "@/lib/api";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+interface FormErrors {
+  currentPassword?: string;
+  newPassword?: string;
+  confirmPassword?: string;
+  general?: string;
+}
+
+interface ChangePasswordFormProps {
+  /** Called after the password has been changed */
+  onPasswordChanged?: () => void;
+}
+
+/**
+ * Settings form for changing the current user's password
+ */
+export function ChangePasswordForm({ onPasswordChanged }: ChangePasswordFormProps) {
+  const currentPasswordId = useId();
+  const newPasswordId = useId();
+  const confirmPasswordId = useId();
+  const { user } = useAuth();
+  const passwordPolicy = usePasswordPolicy();
+
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+
+  const validate = (): FormErrors => {
+    const nextErrors: FormErrors = {};
+
+    if (!currentPassword) {
+      nextErrors.currentPassword = "Current password is required";
+    }
+
+    const newPasswordError = getPasswordError(
+      passwordPolicy,
+      newPassword,
+      user?.username
+    );
+    if (newPasswordError) {
+      nextErrors.newPassword = newPasswordError;
+    }
+
+    if (confirmPassword !== newPassword) {
+      nextErrors.confirmPassword = "Passwords do not match";
+    }
+
+    return nextErrors;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSuccess(false);
+
+    const validationErrors = validate();
+    setErrors(validationErrors);
+
+    if (Object.keys(validationErrors).length > 0) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/auth/password`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.error === "INVALID_PASSWORD") {
+          setErrors({ currentPassword: "Current password is incorrect" });
+        } else if (data.error === "PASSWORD_BREACHED") {
+          setErrors({ newPassword: data.message });
+        } else if (data.error === "VALIDATION_ERROR") {
+          setErrors({ general: data.message });
+        } else {
+          setErrors({ general: "Something went wrong. Please try again." });
+        }
+        return;
+      }
+
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      setIsSuccess(true);
+      onPasswordChanged?.();
+    } catch {
+      setErrors({ general: "Something went wrong. Please try again." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Change Password</CardTitle>
+        <CardDescription>
+          Changing your password signs you out on all other devices
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {errors.general && (
+            <div
+              role="alert"
+              className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+            >
+              {errors.general}
+            </div>
+          )}
+
+          {isSuccess && (
+            <div role="status" className="text-sm bg-muted p-3 rounded-md">
+              Your password has been changed
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor={currentPasswordId}>Current password</Label>
+            <Input
+              id={currentPasswordId}
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              disabled={isSubmitting}
+              autoComplete="current-password"
+              aria-invalid={!!errors.currentPassword}
+            />
+            {errors.currentPassword && (
+              <span className="text-sm text-destructive">
+                {errors.currentPassword}
+              </span>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={newPasswordId}>New password</Label>
+            <Input
+              id={newPasswordId}
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              disabled={isSubmitting}
+              autoComplete="new-password"
+              aria-invalid={!!errors.newPassword}
+              maxLength={passwordPolicy.maxLength}
+            />
+            {errors.newPassword && (
+              <span className="text-sm text-destructive">
+                {errors.newPassword}
+              </span>
+            )}
+            <PasswordStrengthMeter policy={passwordPolicy} password={newPassword} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={confirmPasswordId}>Confirm new password</Label>
+            <Input
+              id={confirmPasswordId}
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              disabled={isSubmitting}
+              autoComplete="new-password"
+              aria-invalid={!!errors.confirmPassword}
+              maxLength={passwordPolicy.maxLength}
+            />
+            {errors.confirmPassword && (
+              <span className="text-sm text-destructive">
+                {errors.confirmPassword}
+              </span>
+            )}
+          </div>
+
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Changing password..." : "Change Password"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState, useId } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { apiFetch } from "@/lib/api";
+
+// Validation constants
+const USERNAME_MIN_LENGTH = 6;
+const USERNAME_MAX_LENGTH = 12;
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+interface FormErrors {
+  username?: string;
+  general?: string;
+}
+
+/**
+ * Settings form for renaming the current user
+ */
+export function ChangeUsernameForm() {
+  const usernameId = useId();
+  const { user, login } = useAuth();
+
+  const [username, setUsername] = useState(user?.username ?? "");
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+
+  const validate = (): FormErrors => {
+    const trimmed = username.trim();
+
+    if (trimmed.length < USERNAME_MIN_LENGTH) {
+      return { username: `Username must be at least ${USERNAME_MIN_LENGTH} characters` };
+    }
+    if (trimmed.length > USERNAME_MAX_LENGTH) {
+      return { username: `Username must be at most ${USERNAME_MAX_LENGTH} characters` };
+    }
+    if (!USERNAME_PATTERN.test(trimmed)) {
+      return {
+        username: "Username may only contain letters, numbers, underscores, hyphens and periods",
+      };
+    }
+
+    return {};
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSuccess(false);
+
+    const validationErrors = validate();
+    setErrors(validationErrors);
+
+    if (Object.keys(validationErrors).length > 0) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/auth/username`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ username: username.trim() }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.error === "USERNAME_TAKEN") {
+          setErrors({ username: "Username already taken" });
+        } else if (data.error === "USERNAME_RESERVED") {
+          setErrors({ username: "This username is reserved" });
+        } else if (data.error === "VALIDATION_ERROR") {
+          setErrors({ general: data.message });
+        } else {
+          setErrors({ general: "Something went wrong. Please try again." });
+        }
+        return;
+      }
+
+      // Update the signed-in user with the new name
+      login(data.user);
+      setUsername(data.user.username);
+      setIsSuccess(true);
+    } catch {
+      setErrors({ general: "Something went wrong. Please try again." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Username</CardTitle>
+        <CardDescription>
+          Usernames are unique regardless of capitalization
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {errors.general && (
+            <div
+              role="alert"
+              className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+            >
+              {errors.general}
+            </div>
+          )}
+
+          {isSuccess && (
+            <div role="status" className="text-sm bg-muted p-3 rounded-md">
+              Your username has been changed
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor={usernameId}>Username</Label>
+            <Input
+              id={usernameId}
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              disabled={isSubmitting}
+              autoComplete="username"
+              aria-invalid={!!errors.username}
+              maxLength={USERNAME_MAX_LENGTH}
+            />
+            {errors.username && (
+              <span className="text-sm text-destructive">{errors.username}</span>
+            )}
+          </div>
+
+          <Button
+            type="submit"
+            disabled={isSubmitting || username.trim() === user?.username}
+          >
+            {isSubmitting ? "Saving..." : "Change Username"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
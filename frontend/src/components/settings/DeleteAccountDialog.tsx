@@ -0,0 +1,118 @@
+import { useState, useId } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { buttonVariants } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SsoConfirmation } from "@/components/settings/SsoConfirmation";
+import { useAuth } from "@/hooks/useAuth";
+
+interface DeleteAccountDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Callback when deletion is confirmed with the current password */
+  onConfirm: (password: string) => Promise<void>;
+}
+
+/**
+ * Confirmation dialog for permanently deleting the user's account.
+ * Requires the current password before the delete button is enabled -
+ * accounts without one confirm by signing in again with single sign-on.
+ */
+export function DeleteAccountDialog({
+  open,
+  onOpenChange,
+  onConfirm,
+}: DeleteAccountDialogProps) {
+  const passwordId = useId();
+  const { user } = useAuth();
+  const needsPassword = user?.hasPassword !== false;
+  const [password, setPassword] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setPassword("");
+      setError(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleDelete = async (e: React.MouseEvent) => {
+    // Keep the dialog open until the request succeeds
+    e.preventDefault();
+
+    setIsDeleting(true);
+    setError(null);
+
+    try {
+      await onConfirm(password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete account");
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete Account</AlertDialogTitle>
+          <AlertDialogDescription>
+            This will permanently delete your account, all of your lists and
+            all of their tasks, and sign you out on every device. This cannot
+            be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {needsPassword ? (
+          <div className="space-y-2">
+            <Label htmlFor={passwordId}>Confirm your password</Label>
+            <Input
+              id={passwordId}
+              type="password"
+              placeholder="Enter password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={isDeleting}
+              autoComplete="current-password"
+            />
+          </div>
+        ) : (
+          <SsoConfirmation />
+        )}
+
+        {error && (
+          <div
+            role="alert"
+            className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+          >
+            {error}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleDelete}
+            disabled={isDeleting || (needsPassword && password.length === 0)}
+            className={buttonVariants({ variant: "destructive" })}
+          >
+            {isDeleting ? "Deleting..." : "Delete Account"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,331 @@
+import { useState, useEffect, useCallback, useId } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SsoConfirmation } from "@/components/settings/SsoConfirmation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useAuth } from "@/hooks/useAuth";
+import { apiFetch } from "@/lib/api";
+import { getEmailError } from "@/lib/email";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+interface FormErrors {
+  email?: string;
+  password?: string;
+  general?: string;
+}
+
+/**
+ * Settings panel for the recovery email address - set, change, verify or remove it
+ */
+export function EmailSettings() {
+  const emailId = useId();
+  const passwordId = useId();
+  const { user } = useAuth();
+  const needsPassword = user?.hasPassword !== false;
+
+  const [currentEmail, setCurrentEmail] = useState<string | null>(null);
+  const [emailVerified, setEmailVerified] = useState(false);
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+
+  /**
+   * Load the current address from the backend
+   */
+  const fetchEmail = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`${API_URL}/api/auth/email`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to fetch email settings");
+      }
+
+      setCurrentEmail(data.email as string | null);
+      setEmailVerified(Boolean(data.emailVerified));
+      setEmail((data.email as string | null) ?? "");
+    } catch (err) {
+      setErrors({
+        general:
+          err instanceof Error ? err.message : "Failed to fetch email settings",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load the address on mount
+  useEffect(() => {
+    void fetchEmail();
+  }, [fetchEmail]);
+
+  /**
+   * Maps an error response to form errors
+   */
+  const handleErrorResponse = (data: { error?: string; message?: string }) => {
+    if (data.error === "INVALID_PASSWORD") {
+      setErrors({ password: "Incorrect password" });
+    } else if (data.error === "VALIDATION_ERROR" || data.error === "REAUTHENTICATION_REQUIRED") {
+      setErrors({ general: data.message });
+    } else if (data.error === "RATE_LIMIT_EXCEEDED") {
+      setErrors({ general: "Too many email requests. Please try again later." });
+    } else {
+      setErrors({ general: "Something went wrong. Please try again." });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setNotice(null);
+
+    const validationErrors: FormErrors = {
+      email: getEmailError(email),
+      password: password || !needsPassword ? undefined : "Password is required",
+    };
+    setErrors(validationErrors);
+
+    if (validationErrors.email || validationErrors.password) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/auth/email`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ email: email.trim(), password }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        handleErrorResponse(data);
+        return;
+      }
+
+      setCurrentEmail(data.email as string);
+      setEmail(data.email as string);
+      setEmailVerified(false);
+      setPassword("");
+      setNotice(`We sent a verification link to ${data.email as string}`);
+    } catch {
+      setErrors({ general: "Something went wrong. Please try again." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setNotice(null);
+
+    if (needsPassword && !password) {
+      setErrors({ password: "Enter your password to remove your email" });
+      document.getElementById(passwordId)?.focus();
+      return;
+    }
+
+    setErrors({});
+    setIsSubmitting(true);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/auth/email`, {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ password }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        handleErrorResponse(data);
+        return;
+      }
+
+      setCurrentEmail(null);
+      setEmailVerified(false);
+      setEmail("");
+      setPassword("");
+      setNotice("Your email address has been removed");
+    } catch {
+      setErrors({ general: "Something went wrong. Please try again." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setNotice(null);
+    setErrors({});
+    setIsResending(true);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/auth/email/verification`, {
+        method: "POST",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.error === "EMAIL_ALREADY_VERIFIED") {
+          setEmailVerified(true);
+        } else {
+          handleErrorResponse(data);
+        }
+        return;
+      }
+
+      setNotice(`We sent a new verification link to ${currentEmail}`);
+    } catch {
+      setErrors({ general: "Something went wrong. Please try again." });
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const isBusy = isSubmitting || isResending;
+  const isUnchanged = email.trim().toLowerCase() === (currentEmail ?? "");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email</CardTitle>
+        <CardDescription>
+          A verified email address lets you reset your password if you forget it
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {errors.general && (
+          <div
+            role="alert"
+            className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+          >
+            {errors.general}
+          </div>
+        )}
+
+        {notice && (
+          <div role="status" className="text-sm bg-muted p-3 rounded-md">
+            {notice}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading email settings...</p>
+        ) : (
+          <>
+            {currentEmail && (
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm">
+                  {currentEmail}
+                  <span
+                    className={`ml-2 text-xs ${
+                      emailVerified ? "text-primary" : "text-muted-foreground"
+                    }`}
+                  >
+                    {emailVerified ? "Verified" : "Not verified"}
+                  </span>
+                </p>
+                {!emailVerified && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleResend}
+                    disabled={isBusy}
+                  >
+                    {isResending ? "Sending..." : "Resend link"}
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor={emailId}>
+                  {currentEmail ? "New email" : "Email"}
+                </Label>
+                <Input
+                  id={emailId}
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={isBusy}
+                  autoComplete="email"
+                  aria-invalid={!!errors.email}
+                />
+                {errors.email && (
+                  <span className="text-sm text-destructive">{errors.email}</span>
+                )}
+              </div>
+
+              {needsPassword ? (
+                <div className="space-y-2">
+                  <Label htmlFor={passwordId}>Current password</Label>
+                  <Input
+                    id={passwordId}
+                    type="password"
+                    placeholder="Enter password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={isBusy}
+                    autoComplete="current-password"
+                    aria-invalid={!!errors.password}
+                  />
+                  {errors.password && (
+                    <span className="text-sm text-destructive">{errors.password}</span>
+                  )}
+                </div>
+              ) : (
+                <SsoConfirmation />
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit" disabled={isBusy || isUnchanged}>
+                  {isSubmitting
+                    ? "Saving..."
+                    : currentEmail
+                      ? "Change email"
+                      : "Add email"}
+                </Button>
+                {currentEmail && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleRemove}
+                    disabled={isBusy}
+                  >
+                    Remove email
+                  </Button>
+                )}
+              </div>
+            </form>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
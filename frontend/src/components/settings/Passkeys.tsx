@@ -0,0 +1,257 @@
+import { useState, useEffect, useCallback, useId } from "react";
+import { Fingerprint } from "lucide-react";
+import { startRegistration, browserSupportsWebAuthn } from "@simplewebauthn/browser";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { apiFetch } from "@/lib/api";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+// Must match the backend limit
+const PASSKEY_NAME_MAX_LENGTH = 50;
+
+/**
+ * Passkey type from the API
+ */
+interface Passkey {
+  id: string;
+  name: string;
+  synced: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Settings panel for adding and removing passkeys
+ */
+export function Passkeys() {
+  const nameId = useId();
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  /**
+   * Load passkeys from the backend
+   */
+  const refreshPasskeys = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/auth/passkeys`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to fetch passkeys");
+      }
+
+      setPasskeys(data.passkeys as Passkey[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch passkeys");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const handleAdd = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsAdding(true);
+      setError(null);
+
+      try {
+        const headers = { "Content-Type": "application/json" };
+
+        const optionsResponse = await apiFetch(`${API_URL}/api/auth/passkeys/options`, {
+          method: "POST",
+          headers,
+        });
+
+        const optionsData = await optionsResponse.json();
+
+        if (!optionsResponse.ok) {
+          throw new Error(optionsData.message || "Failed to add passkey");
+        }
+
+        // Prompts the browser / authenticator to create the credential
+        const attestation = await startRegistration({
+          optionsJSON: optionsData.options,
+        });
+
+        const response = await apiFetch(`${API_URL}/api/auth/passkeys`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            challengeToken: optionsData.challengeToken,
+            response: attestation,
+            name: name.trim(),
+          }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to add passkey");
+        }
+
+        setPasskeys((prev) => [...prev, data.passkey as Passkey]);
+        setName("");
+      } catch (err) {
+        // The user dismissed the browser prompt - nothing to report
+        if (err instanceof Error && err.name === "NotAllowedError") {
+          return;
+        }
+        setError(err instanceof Error ? err.message : "Failed to add passkey");
+      } finally {
+        setIsAdding(false);
+      }
+    },
+    [name]
+  );
+
+  const handleRemove = useCallback(async (passkeyId: string) => {
+    setPendingId(passkeyId);
+    setError(null);
+
+    try {
+      const response = await apiFetch(
+        `${API_URL}/api/auth/passkeys/${encodeURIComponent(passkeyId)}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to remove passkey");
+      }
+
+      setPasskeys((prev) => prev.filter((passkey) => passkey.id !== passkeyId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove passkey");
+    } finally {
+      setPendingId(null);
+    }
+  }, []);
+
+  // Load passkeys on mount
+  useEffect(() => {
+    void refreshPasskeys();
+  }, [refreshPasskeys]);
+
+  const isSupported = browserSupportsWebAuthn();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Passkeys</CardTitle>
+        <CardDescription>
+          Sign in with your fingerprint, face or device PIN instead of a password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div
+            role="alert"
+            className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+          >
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading passkeys...</p>
+        ) : passkeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No passkeys yet.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {passkeys.map((passkey) => (
+              <li
+                key={passkey.id}
+                className="flex items-center justify-between gap-4 p-3"
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  <Fingerprint
+                    className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0"
+                    aria-hidden="true"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {passkey.name}
+                      {passkey.synced && (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          Synced
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Added {formatDate(passkey.createdAt)} &middot;{" "}
+                      {passkey.lastUsedAt
+                        ? `Last used ${formatDate(passkey.lastUsedAt)}`
+                        : "Never used"}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRemove(passkey.id)}
+                  disabled={pendingId === passkey.id}
+                  aria-label={`Remove passkey ${passkey.name}`}
+                >
+                  {pendingId === passkey.id ? "Removing..." : "Remove"}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isSupported ? (
+          <form onSubmit={handleAdd} className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor={nameId}>Passkey name</Label>
+              <Input
+                id={nameId}
+                type="text"
+                placeholder="e.g. Work laptop"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isAdding}
+                maxLength={PASSKEY_NAME_MAX_LENGTH}
+              />
+            </div>
+            <Button type="submit" disabled={isAdding}>
+              {isAdding ? "Waiting for passkey..." : "Add passkey"}
+            </Button>
+          </form>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            This browser doesn't support passkeys.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
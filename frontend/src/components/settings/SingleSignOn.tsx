@@ -0,0 +1,101 @@
+import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+// Messages for errors the SSO callback redirects back with
+const LINK_ERROR_MESSAGES: Record<string, string> = {
+  OIDC_CANCELLED: "Linking was cancelled.",
+  OIDC_STATE_INVALID: "Linking expired. Please try again.",
+  OIDC_ALREADY_LINKED: "That account is already linked to another user.",
+  OIDC_REAUTH_FAILED: "Your identity provider didn't ask you to sign in again. Please try again.",
+  OIDC_REAUTH_MISMATCH: "That account isn't linked to you.",
+};
+
+/**
+ * Single sign-on configuration from the API
+ */
+interface SsoConfig {
+  enabled: boolean;
+  providerName: string;
+}
+
+/**
+ * Settings panel for linking the account to the single sign-on provider
+ * Hidden when SSO is not configured
+ */
+export function SingleSignOn() {
+  const [searchParams] = useSearchParams();
+  const [ssoConfig, setSsoConfig] = useState<SsoConfig | null>(null);
+
+  const ssoError = searchParams.get("sso_error");
+  const error = ssoError
+    ? LINK_ERROR_MESSAGES[ssoError] ?? "Linking failed. Please try again."
+    : null;
+
+  // Check whether single sign-on is configured
+  useEffect(() => {
+    const fetchSsoConfig = async () => {
+      try {
+        const response = await fetch(`${API_URL}/api/auth/oidc/config`, {
+          method: "GET",
+          credentials: "include",
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          setSsoConfig({
+            enabled: data.enabled as boolean,
+            providerName: data.providerName as string,
+          });
+        }
+      } catch {
+        // Leave the panel hidden
+      }
+    };
+
+    void fetchSsoConfig();
+  }, []);
+
+  if (!ssoConfig?.enabled) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Single Sign-On</CardTitle>
+        <CardDescription>
+          Link your {ssoConfig.providerName} account to sign in without a
+          password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div
+            role="alert"
+            className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+          >
+            {error}
+          </div>
+        )}
+
+        {/* Full-page redirect - the provider sends the browser back here */}
+        <Button variant="outline" asChild>
+          <a href={`${API_URL}/api/auth/oidc/login?link=true`}>
+            Link {ssoConfig.providerName} account
+          </a>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,25 @@
+import { Button } from "@/components/ui/button";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+/**
+ * Stands in for the password field on accounts that sign in with single sign-on
+ * Signing in again with the provider approves changes for the next few minutes
+ */
+export function SsoConfirmation() {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Your account signs in with single sign-on. Sign in again to confirm
+        changes, then make them within 5 minutes.
+      </p>
+      {/* Full-page redirect - the provider sends the browser back to settings */}
+      <Button type="button" variant="outline" size="sm" asChild>
+        <a href={`${API_URL}/api/auth/oidc/login?reauth=true`}>
+          Confirm with single sign-on
+        </a>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState, useEffect, useCallback, useId } from "react";
+import { ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SsoConfirmation } from "@/components/settings/SsoConfirmation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useAuth } from "@/hooks/useAuth";
+import { apiFetch } from "@/lib/api";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+/**
+ * Sends a JSON request with the CSRF header and returns the parsed body
+ * Throws an Error with the API message if the request fails
+ */
+async function sendJson(
+  path: string,
+  method: string,
+  body?: unknown
+): Promise<Record<string, unknown>> {
+  const response = await apiFetch(`${API_URL}${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error((data.message as string) || "Something went wrong");
+  }
+
+  return data;
+}
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  backupCodesRemaining: number;
+}
+
+interface EnrollmentState {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * Settings panel for enrolling in and managing TOTP two-factor authentication
+ */
+export function TwoFactorSettings() {
+  const codeId = useId();
+  const passwordId = useId();
+  const { user } = useAuth();
+  const needsPassword = user?.hasPassword !== false;
+
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<EnrollmentState | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  /**
+   * Load two-factor status from the backend
+   */
+  const refreshStatus = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/auth/2fa`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to load two-factor status");
+      }
+
+      setStatus({
+        enabled: data.enabled,
+        backupCodesRemaining: data.backupCodesRemaining,
+      });
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load two-factor status"
+      );
+    }
+  }, []);
+
+  // Load status on mount
+  useEffect(() => {
+    void refreshStatus();
+  }, [refreshStatus]);
+
+  /**
+   * Runs an action with shared busy and error handling
+   */
+  const runAction = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStartSetup = () =>
+    runAction(async () => {
+      const data = await sendJson("/api/auth/2fa/setup", "POST");
+      setEnrollment({
+        secret: data.secret as string,
+        otpauthUri: data.otpauthUri as string,
+      });
+      setCode("");
+    });
+
+  const handleConfirmSetup = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    return runAction(async () => {
+      const data = await sendJson("/api/auth/2fa/confirm", "POST", {
+        code: code.trim(),
+      });
+      setEnrollment(null);
+      setCode("");
+      setBackupCodes(data.backupCodes as string[]);
+      await refreshStatus();
+    });
+  };
+
+  const handleRegenerateCodes = () =>
+    runAction(async () => {
+      const data = await sendJson("/api/auth/2fa/backup-codes", "POST", {
+        password,
+      });
+      setPassword("");
+      setBackupCodes(data.backupCodes as string[]);
+      await refreshStatus();
+    });
+
+  const handleDisable = () =>
+    runAction(async () => {
+      await sendJson("/api/auth/2fa", "DELETE", { password });
+      setPassword("");
+      setBackupCodes(null);
+      await refreshStatus();
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" aria-hidden="true" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when signing in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div
+            role="alert"
+            className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+          >
+            {error}
+          </div>
+        )}
+
+        {/* Backup codes are shown once after enrollment or regeneration */}
+        {backupCodes && (
+          <div className="space-y-2 rounded-md border p-3">
+            <p className="text-sm font-medium">Save your backup codes</p>
+            <p className="text-xs text-muted-foreground">
+              Each code can be used once if you lose access to your
+              authenticator app. They will not be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-1 font-mono text-sm">
+              {backupCodes.map((backupCode) => (
+                <li key={backupCode}>{backupCode}</li>
+              ))}
+            </ul>
+            <Button size="sm" variant="outline" onClick={() => setBackupCodes(null)}>
+              I've saved them
+            </Button>
+          </div>
+        )}
+
+        {!status ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : status.enabled ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Two-factor authentication is <strong>on</strong>.{" "}
+              {status.backupCodesRemaining} backup{" "}
+              {status.backupCodesRemaining === 1 ? "code" : "codes"} remaining.
+            </p>
+            {needsPassword ? (
+              <div className="space-y-2">
+                <Label htmlFor={passwordId}>Confirm your password to make changes</Label>
+                <Input
+                  id={passwordId}
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={isBusy}
+                  autoComplete="current-password"
+                />
+              </div>
+            ) : (
+              <SsoConfirmation />
+            )}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={handleRegenerateCodes}
+                disabled={isBusy || (needsPassword && !password)}
+              >
+                New backup codes
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleDisable}
+                disabled={isBusy || (needsPassword && !password)}
+              >
+                Turn off
+              </Button>
+            </div>
+          </div>
+        ) : enrollment ? (
+          <form onSubmit={handleConfirmSetup} className="space-y-3">
+            <p className="text-sm">
+              Add this account to your authenticator app, then enter the code it
+              shows.
+            </p>
+            <div className="rounded-md bg-muted p-3 space-y-1">
+              <p className="text-xs text-muted-foreground">Setup key</p>
+              <p className="font-mono text-sm break-all">{enrollment.secret}</p>
+              <a
+                href={enrollment.otpauthUri}
+                className="text-xs text-primary underline-offset-4 hover:underline"
+              >
+                Open in authenticator app
+              </a>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={codeId}>Verification code</Label>
+              <Input
+                id={codeId}
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={isBusy}
+                maxLength={6}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isBusy || code.trim().length !== 6}>
+                {isBusy ? "Verifying..." : "Turn on"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setEnrollment(null)}
+                disabled={isBusy}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button onClick={handleStartSetup} disabled={isBusy}>
+            Set up two-factor authentication
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,6 @@ import { useState, useCallback, useRef, useEffect } from "react";
 import { Input } from "@/components/ui/input";
 import { useTasks } from "@/hooks/useTasks";
 import { useTaskActions } from "@/hooks/useTaskActions";
-import { MAX_TASKS_PER_LIST } from "@/contexts/TasksContextDef";
 
 const MAX_TITLE_LENGTH = 64;
 
@@ -14,7 +13,7 @@ interface CreateTaskInputProps {
  * Input component for creating new tasks
  */
 export function CreateTaskInput({ onTaskCreated }: CreateTaskInputProps) {
-  const { taskCount, canCreateTask } = useTasks();
+  const { taskCount, canCreateTask, maxTasks } = useTasks();
   const { createTask } = useTaskActions();
   const [title, setTitle] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -31,7 +30,7 @@ export function CreateTaskInput({ onTaskCreated }: CreateTaskInputProps) {
   const charCount = title.length;
   const isNearLimit = charCount >= MAX_TITLE_LENGTH - 4;
   const isOverLimit = charCount > MAX_TITLE_LENGTH;
-  const isAtTaskLimit = taskCount >= MAX_TASKS_PER_LIST;
+  const isAtTaskLimit = maxTasks !== null && taskCount >= maxTasks;
   const isValid = title.trim().length > 0 && !isOverLimit;
 
   const handleSubmit = useCallback(async () => {
@@ -86,7 +85,7 @@ export function CreateTaskInput({ onTaskCreated }: CreateTaskInputProps) {
       {/* Task limit warning */}
       {isAtTaskLimit && (
         <p className="text-sm text-muted-foreground bg-amber-50 dark:bg-amber-950/20 p-2 rounded-md">
-          This list has reached the maximum of {MAX_TASKS_PER_LIST} tasks.
+          This list has reached the maximum of {maxTasks} tasks.
         </p>
       )}
 
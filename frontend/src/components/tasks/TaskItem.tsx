@@ -19,6 +19,7 @@ interface TaskItemProps {
   task: Task;
   isDragging?: boolean;  // Used to coordinate dragging state from parent
   prefersReducedMotion?: boolean;
+  readOnly?: boolean; // Hides the drag handle and delete button, disables editing
 }
 
 /**
@@ -30,6 +31,7 @@ export function TaskItem({
   task,
   isDragging: _isDragging = false,  // Reserved for future parent coordination (unused but part of API)
   prefersReducedMotion = false,
+  readOnly = false,
 }: TaskItemProps) {
   const { tasks } = useTasks();
   const { toggleComplete, updateTitle, deleteTask, reorderTasks } = useTaskActions();
@@ -73,6 +75,10 @@ export function TaskItem({
 
   // Long-press detection for mobile
   const handleTouchStart = useCallback(() => {
+    if (readOnly) {
+      return;
+    }
+
     const timer = setTimeout(() => {
       setIsReorderMode(true);
       // Haptic feedback if available
@@ -82,7 +88,7 @@ export function TaskItem({
     }, 500); // 500ms long-press
 
     setLongPressTimer(timer);
-  }, []);
+  }, [readOnly]);
 
   const handleTouchEnd = useCallback(() => {
     if (longPressTimer) {
@@ -127,7 +133,7 @@ export function TaskItem({
   // Handle keyboard navigation (Alt+ArrowUp/Down)
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
-      if (e.altKey) {
+      if (e.altKey && !readOnly) {
         if (e.key === "ArrowUp" && !isFirst) {
           e.preventDefault();
           void handleMoveTask("up");
@@ -137,7 +143,7 @@ export function TaskItem({
         }
       }
     },
-    [isFirst, isLast, handleMoveTask]
+    [isFirst, isLast, handleMoveTask, readOnly]
   );
 
   // Handle checkbox toggle
@@ -217,21 +223,23 @@ export function TaskItem({
         }`}
       >
         {/* Drag handle - visible on hover on desktop */}
-        <div
-          {...attributes}
-          {...listeners}
-          className="opacity-0 group-hover:opacity-100 md:opacity-0 md:group-hover:opacity-100 max-md:hidden transition-opacity cursor-grab active:cursor-grabbing flex-shrink-0 mt-0.5 text-muted-foreground hover:text-foreground"
-          aria-label={`Drag to reorder task: ${task.title}`}
-          role="img"
-        >
-          <GripVertical className="w-4 h-4" />
-        </div>
+        {!readOnly && (
+          <div
+            {...attributes}
+            {...listeners}
+            className="opacity-0 group-hover:opacity-100 md:opacity-0 md:group-hover:opacity-100 max-md:hidden transition-opacity cursor-grab active:cursor-grabbing flex-shrink-0 mt-0.5 text-muted-foreground hover:text-foreground"
+            aria-label={`Drag to reorder task: ${task.title}`}
+            role="img"
+          >
+            <GripVertical className="w-4 h-4" />
+          </div>
+        )}
 
         {/* Checkbox */}
         <Checkbox
           checked={task.isCompleted}
           onCheckedChange={handleCheckedChange}
-          disabled={isToggling || isDeleting || isTempTask}
+          disabled={readOnly || isToggling || isDeleting || isTempTask}
           aria-label={ariaLabel}
           className="transition-all duration-150 mt-0.5"
         />
@@ -240,7 +248,7 @@ export function TaskItem({
         <EditableTaskTitle
           title={task.title}
           onSave={handleTitleSave}
-          isDisabled={isTempTask || isDeleting}
+          isDisabled={readOnly || isTempTask || isDeleting}
           isCompleted={task.isCompleted}
         />
 
@@ -275,16 +283,18 @@ export function TaskItem({
         )}
 
         {/* Delete button */}
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={handleDelete}
-          disabled={isDeleting || isTempTask}
-          aria-label={`Delete task: ${task.title}`}
-          className="h-auto p-1 opacity-0 group-hover:opacity-100 md:opacity-0 md:group-hover:opacity-100 max-md:opacity-100 transition-opacity text-muted-foreground hover:text-destructive flex-shrink-0"
-        >
-          <Trash2 className="w-4 h-4" />
-        </Button>
+        {!readOnly && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleDelete}
+            disabled={isDeleting || isTempTask}
+            aria-label={`Delete task: ${task.title}`}
+            className="h-auto p-1 opacity-0 group-hover:opacity-100 md:opacity-0 md:group-hover:opacity-100 max-md:opacity-100 transition-opacity text-muted-foreground hover:text-destructive flex-shrink-0"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
       </div>
 
       {/* Error message */}
@@ -19,11 +19,15 @@ import { useTaskActions } from "@/hooks/useTaskActions";
 import { TaskItem } from "./TaskItem";
 import { CreateTaskInput } from "./CreateTaskInput";
 
+interface TaskListProps {
+  readOnly?: boolean; // Viewers can't add, change or reorder tasks
+}
+
 /**
  * Task list component showing all tasks and the create input
  * Includes drag-and-drop reordering with dnd-kit
  */
-export function TaskList() {
+export function TaskList({ readOnly = false }: TaskListProps) {
   const { tasks, isLoading, error } = useTasks();
   const { reorderTasks } = useTaskActions();
   const [isDragging, setIsDragging] = useState(false);
@@ -107,7 +111,9 @@ export function TaskList() {
       {tasks.length === 0 && (
         <div className="bg-muted/30 border border-dashed rounded-lg p-8 text-center">
           <p className="text-sm text-muted-foreground">
-            No tasks yet. Type below to add your first task.
+            {readOnly
+              ? "No tasks yet."
+              : "No tasks yet. Type below to add your first task."}
           </p>
         </div>
       )}
@@ -123,7 +129,7 @@ export function TaskList() {
           <SortableContext
             items={taskIds}
             strategy={verticalListSortingStrategy}
-            disabled={prefersReducedMotion}
+            disabled={prefersReducedMotion || readOnly}
           >
             <div
               className={`space-y-2 ${
@@ -141,6 +147,7 @@ export function TaskList() {
                   task={task}
                   isDragging={isDragging}
                   prefersReducedMotion={prefersReducedMotion}
+                  readOnly={readOnly}
                 />
               ))}
             </div>
@@ -149,9 +156,11 @@ export function TaskList() {
       )}
 
       {/* Create task input */}
-      <div className="mt-4">
-        <CreateTaskInput />
-      </div>
+      {!readOnly && (
+        <div className="mt-4">
+          <CreateTaskInput />
+        </div>
+      )}
     </div>
   );
 }
@@ -5,6 +5,7 @@ import {
   useMemo,
   type ReactNode,
 } from "react";
+import { apiFetch } from "@/lib/api";
 import {
   AuthContext,
   type AuthContextValue,
@@ -14,18 +15,6 @@ import {
 // API URL from environment
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 
-/**
- * Gets a cookie value by name
- */
-function getCookie(name: string): string | undefined {
-  const value = `; ${document.cookie}`;
-  const parts = value.split(`; ${name}=`);
-  if (parts.length === 2) {
-    return parts.pop()?.split(";").shift();
-  }
-  return undefined;
-}
-
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -75,15 +64,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
    */
   const logout = useCallback(async () => {
     try {
-      const csrfToken = getCookie("csrf_token");
-
-      await fetch(`${API_URL}/api/auth/logout`, {
+      await apiFetch(`${API_URL}/api/auth/logout`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          ...(csrfToken ? { "x-csrf-token": csrfToken } : {}),
         },
-        credentials: "include",
       });
     } catch {
       // Even if logout fails, clear local state
@@ -91,6 +76,26 @@ export function AuthProvider({ children }: AuthProviderProps) {
     setUser(null);
   }, []);
 
+  /**
+   * Permanently delete the account - requires the current password
+   */
+  const deleteAccount = useCallback(async (password: string) => {
+    const response = await apiFetch(`${API_URL}/api/auth/account`, {
+      method: "DELETE",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ password }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.message || "Failed to delete account");
+    }
+
+    setUser(null);
+  }, []);
+
   // Check session on mount
   useEffect(() => {
     refreshAuth();
@@ -104,8 +109,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
       login,
       logout,
       refreshAuth,
+      deleteAccount,
     }),
-    [user, isLoading, login, logout, refreshAuth]
+    [user, isLoading, login, logout, refreshAuth, deleteAccount]
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
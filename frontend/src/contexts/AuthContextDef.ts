@@ -1,11 +1,19 @@
 import { createContext } from "react";
 
+/**
+ * Account role - admins can manage other users
+ */
+export type UserRole = "user" | "admin";
+
 /**
  * User type from the API
  */
 export interface User {
   id: string;
   username: string;
+  role?: UserRole;
+  /** False for accounts provisioned through single sign-on */
+  hasPassword?: boolean;
 }
 
 /**
@@ -24,6 +32,7 @@ export interface AuthContextValue extends AuthState {
   login: (user: User) => void;
   logout: () => void;
   refreshAuth: () => Promise<void>;
+  deleteAccount: (password: string) => Promise<void>;
 }
 
 export const AuthContext = createContext<AuthContextValue | null>(null);
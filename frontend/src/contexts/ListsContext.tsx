@@ -5,28 +5,22 @@ import {
   useEffect,
   type ReactNode,
 } from "react";
+import { apiFetch } from "@/lib/api";
+import { useAuth } from "@/hooks/useAuth";
+import { useEventStream } from "@/hooks/useEventStream";
+import { LIST_DESCRIPTION_MAX_LENGTH } from "@/lib/listAppearance";
 import {
   ListsContext,
   type ListsContextValue,
   type List,
-  MAX_LISTS_PER_USER,
+  type ListSortMode,
+  type ListAppearance,
+  type UserLimits,
 } from "./ListsContextDef";
 
 // API URL from environment
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 
-/**
- * Gets a cookie value by name
- */
-function getCookie(name: string): string | undefined {
-  const value = `; ${document.cookie}`;
-  const parts = value.split(`; ${name}=`);
-  if (parts.length === 2) {
-    return parts.pop()?.split(";").shift();
-  }
-  return undefined;
-}
-
 interface ListsProviderProps {
   children: ReactNode;
 }
@@ -35,9 +29,12 @@ interface ListsProviderProps {
  * ListsProvider component that wraps the app and provides lists state
  */
 export function ListsProvider({ children }: ListsProviderProps) {
+  const { isAuthenticated, refreshAuth } = useAuth();
   const [lists, setLists] = useState<List[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [listSortMode, setListSortModeState] = useState<ListSortMode>("updated");
+  const [maxLists, setMaxLists] = useState<number | null>(null);
 
   /**
    * Refresh lists from the backend
@@ -69,9 +66,9 @@ export function ListsProvider({ children }: ListsProviderProps) {
   }, []);
 
   /**
-   * Create a new list
+   * Create a new list, optionally starting from one of the user's templates
    */
-  const createList = useCallback(async (title: string): Promise<List> => {
+  const createList = useCallback(async (title: string, templateId?: string): Promise<List> => {
     setError(null);
 
     // Client-side validation
@@ -83,8 +80,11 @@ export function ListsProvider({ children }: ListsProviderProps) {
       throw new Error("Title must be at most 64 characters");
     }
 
-    if (lists.length >= MAX_LISTS_PER_USER) {
-      throw new Error(`Maximum ${MAX_LISTS_PER_USER} lists allowed`);
+    // Lists shared with the user don't count towards their limit
+    // Only checked once the limit is known - the server has the final say
+    const ownedCount = lists.filter((list) => list.role === "owner").length;
+    if (maxLists !== null && ownedCount >= maxLists) {
+      throw new Error(`Maximum ${maxLists} lists allowed`);
     }
 
     // Create optimistic list
@@ -92,9 +92,16 @@ export function ListsProvider({ children }: ListsProviderProps) {
     const optimisticList: List = {
       id: tempId,
       title: title.trim(),
+      color: "gray",
+      emoji: null,
+      description: "",
       isPinned: false,
+      order: Math.max(0, ...lists.map((list) => list.order)) + 1,
       taskCount: 0,
       completedCount: 0,
+      role: "owner",
+      ownerUsername: null,
+      memberCount: 0,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -103,16 +110,12 @@ export function ListsProvider({ children }: ListsProviderProps) {
     setLists((prev) => [...prev, optimisticList]);
 
     try {
-      const csrfToken = getCookie("csrf_token");
-
-      const response = await fetch(`${API_URL}/api/lists`, {
+      const response = await apiFetch(`${API_URL}/api/lists`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          ...(csrfToken ? { "x-csrf-token": csrfToken } : {}),
         },
-        credentials: "include",
-        body: JSON.stringify({ title: title.trim() }),
+        body: JSON.stringify({ title: title.trim(), templateId }),
       });
 
       if (!response.ok) {
@@ -123,9 +126,11 @@ export function ListsProvider({ children }: ListsProviderProps) {
       const data = await response.json();
       const createdList = data.list as List;
 
-      // Replace optimistic list with real one
+      // Replace optimistic list with real one - a live update may already have added it
       setLists((prev) =>
-        prev.map((list) => (list.id === tempId ? createdList : list))
+        prev
+          .filter((list) => list.id !== createdList.id)
+          .map((list) => (list.id === tempId ? createdList : list))
       );
 
       return createdList;
@@ -138,7 +143,44 @@ export function ListsProvider({ children }: ListsProviderProps) {
       setError(errorMessage);
       throw err;
     }
-  }, [lists.length]);
+  }, [lists, maxLists]);
+
+  /**
+   * Copy a list and its tasks into a new list owned by the user
+   */
+  const duplicateList = useCallback(
+    async (listId: string, resetCompletion: boolean): Promise<List> => {
+      setError(null);
+
+      // Lists shared with the user don't count towards their limit
+      const ownedCount = lists.filter((list) => list.role === "owner").length;
+      if (maxLists !== null && ownedCount >= maxLists) {
+        throw new Error(`Maximum ${maxLists} lists allowed`);
+      }
+
+      const response = await apiFetch(`${API_URL}/api/lists/${listId}/duplicate`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ resetCompletion }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to duplicate list");
+      }
+
+      const createdList = data.list as List;
+
+      // A live update may already have added it
+      setLists((prev) => [...prev.filter((list) => list.id !== createdList.id), createdList]);
+
+      return createdList;
+    },
+    [lists, maxLists]
+  );
 
   /**
    * Get a single list by ID
@@ -199,15 +241,11 @@ export function ListsProvider({ children }: ListsProviderProps) {
     );
 
     try {
-      const csrfToken = getCookie("csrf_token");
-
-      const response = await fetch(`${API_URL}/api/lists/${listId}`, {
+      const response = await apiFetch(`${API_URL}/api/lists/${listId}`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
-          ...(csrfToken ? { "x-csrf-token": csrfToken } : {}),
         },
-        credentials: "include",
         body: JSON.stringify({ title: trimmedTitle }),
       });
 
@@ -240,6 +278,82 @@ export function ListsProvider({ children }: ListsProviderProps) {
     }
   }, [lists]);
 
+  /**
+   * Update a list's color, emoji or description with optimistic update
+   */
+  const updateListAppearance = useCallback(
+    async (listId: string, appearance: Partial<ListAppearance>): Promise<List> => {
+      setError(null);
+
+      // Client-side validation
+      if (
+        appearance.description !== undefined &&
+        appearance.description.trim().length > LIST_DESCRIPTION_MAX_LENGTH
+      ) {
+        throw new Error(`Description must be at most ${LIST_DESCRIPTION_MAX_LENGTH} characters`);
+      }
+
+      // Find the existing list to get previous state
+      const existingList = lists.find((list) => list.id === listId);
+      if (!existingList) {
+        throw new Error("List not found");
+      }
+
+      const previousAppearance: ListAppearance = {
+        color: existingList.color,
+        emoji: existingList.emoji,
+        description: existingList.description,
+      };
+
+      // Optimistic update
+      setLists((prev) =>
+        prev.map((list) =>
+          list.id === listId
+            ? { ...list, ...appearance, updatedAt: new Date().toISOString() }
+            : list
+        )
+      );
+
+      try {
+        const response = await apiFetch(`${API_URL}/api/lists/${listId}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(appearance),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.message || "Failed to update list");
+        }
+
+        const data = await response.json();
+        const updatedList = data.list as List;
+
+        // Update with server response
+        setLists((prev) =>
+          prev.map((list) => (list.id === listId ? updatedList : list))
+        );
+
+        return updatedList;
+      } catch (err) {
+        // Rollback optimistic update
+        setLists((prev) =>
+          prev.map((list) =>
+            list.id === listId ? { ...list, ...previousAppearance } : list
+          )
+        );
+
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to update list";
+        setError(errorMessage);
+        throw err;
+      }
+    },
+    [lists]
+  );
+
   /**
    * Toggle a list's pinned status with optimistic update
    */
@@ -265,15 +379,11 @@ export function ListsProvider({ children }: ListsProviderProps) {
     );
 
     try {
-      const csrfToken = getCookie("csrf_token");
-
-      const response = await fetch(`${API_URL}/api/lists/${listId}`, {
+      const response = await apiFetch(`${API_URL}/api/lists/${listId}`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
-          ...(csrfToken ? { "x-csrf-token": csrfToken } : {}),
         },
-        credentials: "include",
         body: JSON.stringify({ isPinned: newIsPinned }),
       });
 
@@ -306,6 +416,91 @@ export function ListsProvider({ children }: ListsProviderProps) {
     }
   }, [lists]);
 
+  /**
+   * Set the manual order of lists for the current user
+   */
+  const reorderLists = useCallback(
+    async (orders: Array<{ listId: string; order: number }>): Promise<void> => {
+      setError(null);
+
+      // Store previous orders for rollback
+      const previousOrders = new Map(lists.map((list) => [list.id, list.order]));
+      const newOrders = new Map(orders.map((item) => [item.listId, item.order]));
+
+      // Optimistic update
+      setLists((prev) =>
+        prev.map((list) =>
+          newOrders.has(list.id) ? { ...list, order: newOrders.get(list.id)! } : list
+        )
+      );
+
+      try {
+        const response = await apiFetch(`${API_URL}/api/lists/reorder`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ orders }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.message || "Failed to reorder lists");
+        }
+      } catch (err) {
+        // Rollback optimistic update
+        setLists((prev) =>
+          prev.map((list) =>
+            previousOrders.has(list.id)
+              ? { ...list, order: previousOrders.get(list.id)! }
+              : list
+          )
+        );
+
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to reorder lists";
+        setError(errorMessage);
+        throw err;
+      }
+    },
+    [lists]
+  );
+
+  /**
+   * Switch between manual and last-updated order, saved for the user
+   */
+  const setListSortMode = useCallback(
+    async (mode: ListSortMode): Promise<void> => {
+      setError(null);
+
+      const previousMode = listSortMode;
+      setListSortModeState(mode);
+
+      try {
+        const response = await apiFetch(`${API_URL}/api/me/preferences`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ listSortMode: mode }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.message || "Failed to save sort order");
+        }
+      } catch (err) {
+        setListSortModeState(previousMode);
+
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to save sort order";
+        setError(errorMessage);
+        throw err;
+      }
+    },
+    [listSortMode]
+  );
+
   /**
    * Delete a list and all its tasks
    */
@@ -322,14 +517,8 @@ export function ListsProvider({ children }: ListsProviderProps) {
     setLists((prev) => prev.filter((list) => list.id !== listId));
 
     try {
-      const csrfToken = getCookie("csrf_token");
-
-      const response = await fetch(`${API_URL}/api/lists/${listId}`, {
+      const response = await apiFetch(`${API_URL}/api/lists/${listId}`, {
         method: "DELETE",
-        headers: {
-          ...(csrfToken ? { "x-csrf-token": csrfToken } : {}),
-        },
-        credentials: "include",
       });
 
       if (!response.ok) {
@@ -349,13 +538,152 @@ export function ListsProvider({ children }: ListsProviderProps) {
     }
   }, [lists]);
 
+  /**
+   * Leave a list someone shared with the user
+   */
+  const leaveList = useCallback(async (listId: string): Promise<void> => {
+    setError(null);
+
+    const existingList = lists.find((list) => list.id === listId);
+    if (!existingList) {
+      throw new Error("List not found");
+    }
+
+    // Optimistic update - remove from state
+    setLists((prev) => prev.filter((list) => list.id !== listId));
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/lists/${listId}/leave`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to leave list");
+      }
+    } catch (err) {
+      // Rollback optimistic update
+      setLists((prev) => [...prev, existingList]);
+
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to leave list";
+      setError(errorMessage);
+      throw err;
+    }
+  }, [lists]);
+
+  /**
+   * Fetch one list after a live update and merge it into state
+   * Drops the list if the user can no longer see it
+   */
+  const syncList = useCallback(async (listId: string) => {
+    try {
+      const response = await fetch(`${API_URL}/api/lists/${listId}`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      if (response.status === 404) {
+        setLists((prev) => prev.filter((list) => list.id !== listId));
+        return;
+      }
+
+      if (!response.ok) {
+        return;
+      }
+
+      const data = await response.json();
+      const syncedList = data.list as List;
+
+      setLists((prev) =>
+        prev.some((list) => list.id === listId)
+          ? prev.map((list) => (list.id === listId ? syncedList : list))
+          : [...prev, syncedList]
+      );
+    } catch {
+      // The next change or reconnect brings the list up to date
+    }
+  }, []);
+
   // Load lists on mount
   useEffect(() => {
     void refreshLists();
   }, [refreshLists]);
 
-  const listCount = lists.length;
-  const canCreateList = listCount < MAX_LISTS_PER_USER;
+  // Load the user's sort preference and limits once signed in
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    const loadPreferences = async () => {
+      try {
+        const response = await fetch(`${API_URL}/api/me/preferences`, {
+          method: "GET",
+          credentials: "include",
+        });
+
+        const data = await response.json();
+
+        if (response.ok) {
+          setListSortModeState(data.preferences.listSortMode as ListSortMode);
+        }
+      } catch {
+        // Keep the default order
+      }
+    };
+
+    const loadLimits = async () => {
+      try {
+        const response = await fetch(`${API_URL}/api/me/limits`, {
+          method: "GET",
+          credentials: "include",
+        });
+
+        const data = await response.json();
+
+        if (response.ok) {
+          setMaxLists((data.limits as UserLimits).maxLists);
+        }
+      } catch {
+        // Leave the limit unknown - the server enforces the real one
+      }
+    };
+
+    void loadPreferences();
+    void loadLimits();
+  }, [isAuthenticated]);
+
+  // Live updates from other tabs, devices and collaborators
+  useEventStream(
+    isAuthenticated ? `${API_URL}/api/lists/events` : null,
+    {
+      list_changed: (data) => {
+        void syncList((data as { listId: string }).listId);
+      },
+      list_deleted: (data) => {
+        const { listId } = data as { listId: string };
+        setLists((prev) => prev.filter((list) => list.id !== listId));
+      },
+      memberships_changed: () => {
+        void refreshLists();
+      },
+    },
+    {
+      // Changes made while disconnected weren't streamed
+      onReconnect: () => {
+        void refreshLists();
+      },
+      // Signed out elsewhere, or the session expired or was revoked
+      onUnauthorized: () => {
+        void refreshAuth();
+      },
+    }
+  );
+
+  // Only the user's own lists count towards the limit
+  const listCount = lists.filter((list) => list.role === "owner").length;
+  const canCreateList = maxLists === null || listCount < maxLists;
 
   const value = useMemo(
     (): ListsContextValue => ({
@@ -364,14 +692,21 @@ export function ListsProvider({ children }: ListsProviderProps) {
       error,
       listCount,
       canCreateList,
+      maxLists,
+      listSortMode,
       createList,
+      duplicateList,
       updateListTitle,
+      updateListAppearance,
       togglePinned,
+      reorderLists,
+      setListSortMode,
       deleteList,
       getList,
       refreshLists,
+      leaveList,
     }),
-    [lists, isLoading, error, listCount, canCreateList, createList, updateListTitle, togglePinned, deleteList, getList, refreshLists]
+    [lists, isLoading, error, listCount, canCreateList, maxLists, listSortMode, createList, duplicateList, updateListTitle, updateListAppearance, togglePinned, reorderLists, setListSortMode, deleteList, getList, refreshLists, leaveList]
   );
 
   return <ListsContext.Provider value={value}>{children}</ListsContext.Provider>;
@@ -1,14 +1,60 @@
 import { createContext } from "react";
 
+/**
+ * The current user's role on a list
+ */
+export type ListRole = "owner" | "editor" | "viewer";
+
+/**
+ * How the lists page orders lists within each section
+ */
+export type ListSortMode = "manual" | "updated";
+
+/**
+ * Accent colors a list can use - see lib/listAppearance for their shades
+ */
+export type ListColor =
+  | "gray"
+  | "red"
+  | "orange"
+  | "yellow"
+  | "green"
+  | "teal"
+  | "blue"
+  | "purple"
+  | "pink";
+
+/**
+ * How a list looks - editors change it for everyone
+ */
+export interface ListAppearance {
+  color: ListColor;
+  emoji: string | null;
+  description: string; // Empty when there is none, may span several lines
+}
+
+/**
+ * The user's plan and limits from the API
+ */
+export interface UserLimits {
+  plan: "free" | "pro";
+  maxLists: number;
+  maxTasksPerList: number; // Lists shared with the user follow their owner's limit
+}
+
 /**
  * List type from the API
  */
-export interface List {
+export interface List extends ListAppearance {
   id: string;
   title: string;
   isPinned: boolean;
+  order: number; // Manual position for the current user, lowest first
   taskCount: number;
   completedCount: number;
+  role: ListRole;
+  ownerUsername: string | null; // Set on lists shared with the user
+  memberCount: number; // People the user shared their own list with
   createdAt: string;
   updatedAt: string;
 }
@@ -22,20 +68,25 @@ export interface ListsState {
   error: string | null;
   listCount: number;
   canCreateList: boolean;
+  maxLists: number | null; // Null until the user's limits load - the server enforces them either way
+  listSortMode: ListSortMode;
 }
 
 /**
  * Lists context value including actions
  */
 export interface ListsContextValue extends ListsState {
-  createList: (title: string) => Promise<List>;
+  createList: (title: string, templateId?: string) => Promise<List>;
+  duplicateList: (listId: string, resetCompletion: boolean) => Promise<List>;
   updateListTitle: (listId: string, title: string) => Promise<List>;
+  updateListAppearance: (listId: string, appearance: Partial<ListAppearance>) => Promise<List>;
   togglePinned: (listId: string) => Promise<List>;
+  reorderLists: (orders: Array<{ listId: string; order: number }>) => Promise<void>;
+  setListSortMode: (mode: ListSortMode) => Promise<void>;
   deleteList: (listId: string) => Promise<void>;
   getList: (listId: string) => Promise<List>;
   refreshLists: () => Promise<void>;
+  leaveList: (listId: string) => Promise<void>;
 }
 
-export const MAX_LISTS_PER_USER = 10;
-
 export const ListsContext = createContext<ListsContextValue | null>(null);
@@ -5,41 +5,44 @@ import {
   useEffect,
   type ReactNode,
 } from "react";
+import { apiFetch } from "@/lib/api";
+import { useAuth } from "@/hooks/useAuth";
+import { useEventStream } from "@/hooks/useEventStream";
 import {
   TasksContext,
   type TasksContextValue,
   type Task,
   type DeleteTaskResult,
-  MAX_TASKS_PER_LIST,
 } from "./TasksContextDef";
 
 // API URL from environment
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 
-/**
- * Gets a cookie value by name
- */
-function getCookie(name: string): string | undefined {
-  const value = `; ${document.cookie}`;
-  const parts = value.split(`; ${name}=`);
-  if (parts.length === 2) {
-    return parts.pop()?.split(";").shift();
-  }
-  return undefined;
-}
-
 interface TasksProviderProps {
   listId: string;
   children: ReactNode;
 }
 
+/**
+ * Adds a task or replaces the copy already in state, keeping tasks in order
+ * Live updates can deliver a task before or after the request that made it returns
+ */
+function upsertTask(tasks: Task[], task: Task): Task[] {
+  const others = tasks.filter((t) => t.id !== task.id);
+  return [...others, task].sort((a, b) => a.order - b.order);
+}
+
 /**
  * TasksProvider component that provides tasks state for a specific list
  */
 export function TasksProvider({ listId, children }: TasksProviderProps) {
+  const { isAuthenticated } = useAuth();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [maxTasks, setMaxTasks] = useState<number | null>(null);
+  // Set once the list is deleted or the user loses access - stops the live stream
+  const [isStreamEnded, setIsStreamEnded] = useState(false);
 
   /**
    * Refresh tasks from the backend
@@ -61,6 +64,7 @@ export function TasksProvider({ listId, children }: TasksProviderProps) {
 
       const data = await response.json();
       setTasks(data.tasks as Task[]);
+      setMaxTasks((data.maxTasks as number | undefined) ?? null);
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to fetch tasks";
@@ -85,8 +89,9 @@ export function TasksProvider({ listId, children }: TasksProviderProps) {
       throw new Error("Title must be at most 64 characters");
     }
 
-    if (tasks.length >= MAX_TASKS_PER_LIST) {
-      throw new Error(`Maximum ${MAX_TASKS_PER_LIST} tasks allowed per list`);
+    // Only checked once the limit is known - the server has the final say
+    if (maxTasks !== null && tasks.length >= maxTasks) {
+      throw new Error(`Maximum ${maxTasks} tasks allowed per list`);
     }
 
     // Create optimistic task
@@ -105,15 +110,11 @@ export function TasksProvider({ listId, children }: TasksProviderProps) {
     setTasks((prev) => [...prev, optimisticTask]);
 
     try {
-      const csrfToken = getCookie("csrf_token");
-
-      const response = await fetch(`${API_URL}/api/lists/${listId}/tasks`, {
+      const response = await apiFetch(`${API_URL}/api/lists/${listId}/tasks`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          ...(csrfToken ? { "x-csrf-token": csrfToken } : {}),
         },
-        credentials: "include",
         body: JSON.stringify({ title: title.trim() }),
       });
 
@@ -127,7 +128,7 @@ export function TasksProvider({ listId, children }: TasksProviderProps) {
 
       // Replace optimistic task with real one
       setTasks((prev) =>
-        prev.map((task) => (task.id === tempId ? createdTask : task))
+        upsertTask(prev.filter((task) => task.id !== tempId), createdTask)
       );
 
       return createdTask;
@@ -140,7 +141,7 @@ export function TasksProvider({ listId, children }: TasksProviderProps) {
       setError(errorMessage);
       throw err;
     }
-  }, [listId, tasks]);
+  }, [listId, tasks, maxTasks]);
 
   /**
    * Toggle a task's completion status
@@ -166,15 +167,11 @@ export function TasksProvider({ listId, children }: TasksProviderProps) {
     );
 
     try {
-      const csrfToken = getCookie("csrf_token");
-
-      const response = await fetch(`${API_URL}/api/lists/${listId}/tasks/${taskId}`, {
+      const response = await apiFetch(`${API_URL}/api/lists/${listId}/tasks/${taskId}`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
-          ...(csrfToken ? { "x-csrf-token": csrfToken } : {}),
         },
-        credentials: "include",
         body: JSON.stringify({ isCompleted: newIsCompleted }),
       });
 
@@ -246,15 +243,11 @@ export function TasksProvider({ listId, children }: TasksProviderProps) {
     );
 
     try {
-      const csrfToken = getCookie("csrf_token");
-
-      const response = await fetch(`${API_URL}/api/lists/${listId}/tasks/${taskId}`, {
+      const response = await apiFetch(`${API_URL}/api/lists/${listId}/tasks/${taskId}`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
-          ...(csrfToken ? { "x-csrf-token": csrfToken } : {}),
         },
-        credentials: "include",
         body: JSON.stringify({ title: trimmedTitle }),
       });
 
@@ -314,17 +307,13 @@ export function TasksProvider({ listId, children }: TasksProviderProps) {
       setTasks(reorderedTasks);
 
       try {
-        const csrfToken = getCookie("csrf_token");
-
-        const response = await fetch(
+        const response = await apiFetch(
           `${API_URL}/api/lists/${listId}/tasks/reorder`,
           {
             method: "PATCH",
             headers: {
               "Content-Type": "application/json",
-              ...(csrfToken ? { "x-csrf-token": csrfToken } : {}),
             },
-            credentials: "include",
             body: JSON.stringify({ orders }),
           }
         );
@@ -381,18 +370,13 @@ export function TasksProvider({ listId, children }: TasksProviderProps) {
 
     // Create undo function that restores the task
     const undo = async (): Promise<void> => {
-      // Re-create the task via API
-      const csrfToken = getCookie("csrf_token");
-
-      const response = await fetch(`${API_URL}/api/lists/${listId}/tasks`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(csrfToken ? { "x-csrf-token": csrfToken } : {}),
-        },
-        credentials: "include",
-        body: JSON.stringify({ title: deletedTask.title }),
-      });
+      // Deleted tasks go to the trash - bring it back with its ID and position
+      const response = await apiFetch(
+        `${API_URL}/api/trash/lists/${listId}/tasks/${taskId}/restore`,
+        {
+          method: "POST",
+        }
+      );
 
       if (!response.ok) {
         const data = await response.json();
@@ -403,18 +387,12 @@ export function TasksProvider({ listId, children }: TasksProviderProps) {
       const restoredTask = data.task as Task;
 
       // Add restored task back to state
-      setTasks((prev) => [...prev, restoredTask]);
+      setTasks((prev) => upsertTask(prev, restoredTask));
     };
 
     try {
-      const csrfToken = getCookie("csrf_token");
-
-      const response = await fetch(`${API_URL}/api/lists/${listId}/tasks/${taskId}`, {
+      const response = await apiFetch(`${API_URL}/api/lists/${listId}/tasks/${taskId}`, {
         method: "DELETE",
-        headers: {
-          ...(csrfToken ? { "x-csrf-token": csrfToken } : {}),
-        },
-        credentials: "include",
       });
 
       if (!response.ok) {
@@ -440,12 +418,60 @@ export function TasksProvider({ listId, children }: TasksProviderProps) {
 
   // Load tasks on mount or when listId changes
   useEffect(() => {
+    setIsStreamEnded(false);
     void refreshTasks();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [listId]);
 
+  // Live updates from other tabs, devices and collaborators
+  // Every (re)connection starts with a snapshot, which resyncs the whole list
+  useEventStream(
+    isStreamEnded || !isAuthenticated ? null : `${API_URL}/api/lists/${listId}/events`,
+    {
+      snapshot: (data) => {
+        const { tasks: serverTasks } = data as { tasks: Task[] };
+        // Keep tasks still being created - their requests haven't returned yet
+        setTasks((prev) => [
+          ...serverTasks,
+          ...prev.filter((task) => task.id.startsWith("temp-")),
+        ]);
+      },
+      task_created: (data) => {
+        setTasks((prev) => upsertTask(prev, (data as { task: Task }).task));
+      },
+      task_updated: (data) => {
+        setTasks((prev) => upsertTask(prev, (data as { task: Task }).task));
+      },
+      task_deleted: (data) => {
+        const { taskId } = data as { taskId: string };
+        setTasks((prev) => prev.filter((task) => task.id !== taskId));
+      },
+      tasks_reordered: (data) => {
+        const { orders } = data as { orders: Array<{ taskId: string; order: number }> };
+        const orderById = new Map(orders.map((o) => [o.taskId, o.order]));
+        setTasks((prev) =>
+          prev
+            .map((task) =>
+              orderById.has(task.id)
+                ? { ...task, order: orderById.get(task.id)! }
+                : task
+            )
+            .sort((a, b) => a.order - b.order)
+        );
+      },
+      list_deleted: () => {
+        setIsStreamEnded(true);
+        setError("This list has been deleted");
+      },
+      access_revoked: () => {
+        setIsStreamEnded(true);
+        setError("You no longer have access to this list");
+      },
+    }
+  );
+
   const taskCount = tasks.length;
-  const canCreateTask = taskCount < MAX_TASKS_PER_LIST;
+  const canCreateTask = maxTasks === null || taskCount < maxTasks;
 
   const value = useMemo(
     (): TasksContextValue => ({
@@ -454,6 +480,7 @@ export function TasksProvider({ listId, children }: TasksProviderProps) {
       error,
       taskCount,
       canCreateTask,
+      maxTasks,
       createTask,
       toggleComplete,
       updateTitle,
@@ -461,7 +488,7 @@ export function TasksProvider({ listId, children }: TasksProviderProps) {
       reorderTasks,
       refreshTasks,
     }),
-    [tasks, isLoading, error, taskCount, canCreateTask, createTask, toggleComplete, updateTitle, deleteTask, reorderTasks, refreshTasks]
+    [tasks, isLoading, error, taskCount, canCreateTask, maxTasks, createTask, toggleComplete, updateTitle, deleteTask, reorderTasks, refreshTasks]
   );
 
   return <TasksContext.Provider value={value}>{children}</TasksContext.Provider>;
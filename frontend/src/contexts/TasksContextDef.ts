@@ -21,6 +21,7 @@ export interface TasksState {
   error: string | null;
   taskCount: number;
   canCreateTask: boolean;
+  maxTasks: number | null; // The list owner's limit, null until the tasks load
 }
 
 /**
@@ -43,6 +44,4 @@ export interface TasksContextValue extends TasksState {
   refreshTasks: () => Promise<void>;
 }
 
-export const MAX_TASKS_PER_LIST = 25;
-
 export const TasksContext = createContext<TasksContextValue | null>(null);
@@ -0,0 +1,140 @@
+import { useEffect, useRef } from "react";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+// Reconnect backoff when the browser gives up on a stream (e.g. a 404 or 500)
+const RECONNECT_MIN_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+// Consecutive failed connections before giving up until the URL changes
+const MAX_RECONNECT_ATTEMPTS = 10;
+
+/**
+ * Handlers for named Server-Sent Events, keyed by event name
+ * Each receives the event's parsed JSON data
+ */
+export type EventStreamHandlers = Record<string, (data: unknown) => void>;
+
+interface EventStreamOptions {
+  /** Called on every reconnect - refetch anything the stream may have missed */
+  onReconnect?: () => void;
+  /** Called when the stream stops because the user is no longer signed in */
+  onUnauthorized?: () => void;
+}
+
+/**
+ * Whether the session cookie still signs the user in
+ * Network errors count as signed in, so a flaky connection keeps retrying
+ */
+async function isSignedIn(): Promise<boolean> {
+  try {
+    const response = await fetch(`${API_URL}/api/auth/me`, {
+      method: "GET",
+      credentials: "include",
+    });
+    return response.status !== 401;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Hook to subscribe to a Server-Sent Events stream with the session cookie
+ * Reconnects with backoff if the connection fails for good, giving up after
+ * repeated failures or once the user is signed out; pass a null URL to
+ * disconnect. Handlers may change between renders without reconnecting,
+ * but the set of event names is read when the stream connects
+ */
+export function useEventStream(
+  url: string | null,
+  handlers: EventStreamHandlers,
+  options: EventStreamOptions = {}
+): void {
+  const handlersRef = useRef(handlers);
+  const optionsRef = useRef(options);
+
+  // Always call the latest handlers
+  useEffect(() => {
+    handlersRef.current = handlers;
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    if (!url) {
+      return;
+    }
+
+    let eventSource: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnectDelay = RECONNECT_MIN_DELAY_MS;
+    let failedAttempts = 0;
+    let hasConnected = false;
+    let isStopped = false;
+
+    const connect = () => {
+      eventSource = new EventSource(url, { withCredentials: true });
+
+      eventSource.onopen = () => {
+        reconnectDelay = RECONNECT_MIN_DELAY_MS;
+        failedAttempts = 0;
+
+        if (hasConnected) {
+          optionsRef.current.onReconnect?.();
+        }
+        hasConnected = true;
+      };
+
+      // The browser retries dropped connections itself, but gives up on
+      // error responses - retry those here, backing off each time, unless the
+      // failure was the session ending
+      eventSource.onerror = () => {
+        if (eventSource?.readyState !== EventSource.CLOSED) {
+          return;
+        }
+
+        eventSource.close();
+        failedAttempts += 1;
+
+        if (failedAttempts > MAX_RECONNECT_ATTEMPTS) {
+          return;
+        }
+
+        void isSignedIn().then((signedIn) => {
+          if (isStopped) {
+            return;
+          }
+
+          if (!signedIn) {
+            optionsRef.current.onUnauthorized?.();
+            return;
+          }
+
+          reconnectTimer = setTimeout(connect, reconnectDelay);
+          reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_DELAY_MS);
+        });
+      };
+
+      Object.keys(handlersRef.current).forEach((eventName) => {
+        eventSource?.addEventListener(eventName, (event) => {
+          try {
+            const data: unknown = JSON.parse((event as MessageEvent<string>).data);
+            handlersRef.current[eventName]?.(data);
+          } catch (error) {
+            console.error(`Failed to handle ${eventName} event:`, error);
+          }
+        });
+      });
+    };
+
+    connect();
+
+    return () => {
+      isStopped = true;
+
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      eventSource?.close();
+    };
+  }, [url]);
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect } from "react";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  type PasswordPolicy,
+} from "@/lib/passwordPolicy";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+/**
+ * Hook to load the backend's password rules
+ * Returns the defaults until the request finishes, or if it fails
+ */
+export function usePasswordPolicy(): PasswordPolicy {
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      try {
+        const response = await fetch(`${API_URL}/api/auth/password-policy`, {
+          method: "GET",
+          credentials: "include",
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          setPolicy(data.policy as PasswordPolicy);
+        }
+      } catch {
+        // Keep the defaults - the backend still enforces its own rules
+      }
+    };
+
+    void fetchPolicy();
+  }, []);
+
+  return policy;
+}
@@ -0,0 +1,91 @@
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+const CSRF_COOKIE_NAME = "csrf_token";
+const CSRF_HEADER_NAME = "x-csrf-token";
+const CSRF_ERROR_CODES = new Set(["CSRF_TOKEN_MISSING", "CSRF_TOKEN_INVALID"]);
+const STATE_CHANGING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+/**
+ * Gets a cookie value by name
+ */
+export function getCookie(name: string): string | undefined {
+  const value = `; ${document.cookie}`;
+  const parts = value.split(`; ${name}=`);
+  if (parts.length === 2) {
+    return parts.pop()?.split(";").shift();
+  }
+  return undefined;
+}
+
+// Shared so concurrent failed requests trigger a single refresh
+let csrfRefresh: Promise<boolean> | null = null;
+
+/**
+ * Asks the backend to re-issue the CSRF cookie for the current session
+ * Resolves to false if there is no valid session
+ */
+export function refreshCsrfToken(): Promise<boolean> {
+  if (!csrfRefresh) {
+    csrfRefresh = fetch(`${API_URL}/api/auth/csrf`, {
+      method: "GET",
+      credentials: "include",
+    })
+      .then((response) => response.ok)
+      .catch(() => false)
+      .finally(() => {
+        csrfRefresh = null;
+      });
+  }
+
+  return csrfRefresh;
+}
+
+/**
+ * Adds cookies and, for state-changing requests, the CSRF header
+ */
+function withCredentials(init: RequestInit, method: string): RequestInit {
+  const headers = new Headers(init.headers);
+
+  if (STATE_CHANGING_METHODS.has(method)) {
+    const csrfToken = getCookie(CSRF_COOKIE_NAME);
+    if (csrfToken) {
+      headers.set(CSRF_HEADER_NAME, csrfToken);
+    }
+  }
+
+  return { ...init, headers, credentials: "include" };
+}
+
+/**
+ * fetch() for authenticated API calls
+ * Sends the session cookie and CSRF token, and if a mutation is rejected
+ * because the CSRF token is missing or stale, refreshes the token and
+ * retries the request once
+ */
+export async function apiFetch(
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const method = (init.method ?? "GET").toUpperCase();
+  const response = await fetch(url, withCredentials(init, method));
+
+  if (response.status !== 403 || !STATE_CHANGING_METHODS.has(method)) {
+    return response;
+  }
+
+  const data = await response
+    .clone()
+    .json()
+    .catch(() => null);
+
+  if (!data || !CSRF_ERROR_CODES.has(data.error)) {
+    return response;
+  }
+
+  if (!(await refreshCsrfToken())) {
+    return response;
+  }
+
+  return fetch(url, withCredentials(init, method));
+}
@@ -0,0 +1,17 @@
+// Mirrors the backend check - the verification link proves the rest
+const EMAIL_MAX_LENGTH = 254;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Returns an error message for an invalid email address, or undefined
+ */
+export function getEmailError(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (trimmed.length === 0) {
+    return "Email is required";
+  }
+  if (trimmed.length > EMAIL_MAX_LENGTH || !EMAIL_PATTERN.test(trimmed)) {
+    return "Please enter a valid email address";
+  }
+  return undefined;
+}
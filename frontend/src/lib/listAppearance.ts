@@ -0,0 +1,36 @@
+import type { ListColor } from "@/contexts/ListsContextDef";
+
+/**
+ * Tailwind classes for each list accent color
+ * Written out in full so Tailwind keeps them in the build
+ */
+interface ListColorClasses {
+  label: string;
+  /** Left border of list cards and the list header */
+  accent: string;
+  /** Filled circle in the color picker */
+  swatch: string;
+}
+
+export const LIST_COLOR_CLASSES: Record<ListColor, ListColorClasses> = {
+  gray: { label: "Gray", accent: "border-l-zinc-400", swatch: "bg-zinc-400" },
+  red: { label: "Red", accent: "border-l-red-500", swatch: "bg-red-500" },
+  orange: { label: "Orange", accent: "border-l-orange-500", swatch: "bg-orange-500" },
+  yellow: { label: "Yellow", accent: "border-l-yellow-400", swatch: "bg-yellow-400" },
+  green: { label: "Green", accent: "border-l-green-500", swatch: "bg-green-500" },
+  teal: { label: "Teal", accent: "border-l-teal-500", swatch: "bg-teal-500" },
+  blue: { label: "Blue", accent: "border-l-blue-500", swatch: "bg-blue-500" },
+  purple: { label: "Purple", accent: "border-l-purple-500", swatch: "bg-purple-500" },
+  pink: { label: "Pink", accent: "border-l-pink-500", swatch: "bg-pink-500" },
+};
+
+export const LIST_COLORS = Object.keys(LIST_COLOR_CLASSES) as ListColor[];
+
+export const LIST_DESCRIPTION_MAX_LENGTH = 500;
+
+/**
+ * Classes for a list's accent color, falling back to gray for unknown colors
+ */
+export function getListColorClasses(color: ListColor): ListColorClasses {
+  return LIST_COLOR_CLASSES[color] ?? LIST_COLOR_CLASSES.gray;
+}
@@ -0,0 +1,116 @@
+/**
+ * Password rules from GET /api/auth/password-policy
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  minCharacterClasses: number;
+  breachCheck: boolean;
+}
+
+/**
+ * Used until the backend policy has loaded - matches the backend defaults
+ */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 128,
+  minCharacterClasses: 1,
+  breachCheck: true,
+};
+
+// Character classes counted towards the complexity rule - must match the backend
+const CHARACTER_CLASSES: { pattern: RegExp; size: number }[] = [
+  { pattern: /[a-z]/, size: 26 },
+  { pattern: /[A-Z]/, size: 26 },
+  { pattern: /[0-9]/, size: 10 },
+  { pattern: /[^A-Za-z0-9]/, size: 33 },
+];
+
+export interface PasswordRuleCheck {
+  label: string;
+  met: boolean;
+}
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+}
+
+const STRENGTH_LABELS = ["Very weak", "Weak", "Fair", "Good", "Strong"];
+
+function countCharacterClasses(password: string): number {
+  return CHARACTER_CLASSES.filter(({ pattern }) => pattern.test(password)).length;
+}
+
+/**
+ * Lists each policy rule and whether the password meets it
+ */
+export function checkPasswordRules(
+  policy: PasswordPolicy,
+  password: string
+): PasswordRuleCheck[] {
+  const checks: PasswordRuleCheck[] = [
+    {
+      label: `${policy.minLength}–${policy.maxLength} characters`,
+      met:
+        password.length >= policy.minLength &&
+        password.length <= policy.maxLength,
+    },
+  ];
+
+  if (policy.minCharacterClasses > 1) {
+    checks.push({
+      label: `At least ${policy.minCharacterClasses} of: lowercase, uppercase, numbers, symbols`,
+      met: countCharacterClasses(password) >= policy.minCharacterClasses,
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Returns the first rule a new password breaks, as a form error message
+ * The breached-password check only runs on the backend
+ */
+export function getPasswordError(
+  policy: PasswordPolicy,
+  password: string,
+  username?: string
+): string | undefined {
+  if (password.length < policy.minLength) {
+    return `Password must be at least ${policy.minLength} characters`;
+  }
+  if (password.length > policy.maxLength) {
+    return `Password must be at most ${policy.maxLength} characters`;
+  }
+  if (countCharacterClasses(password) < policy.minCharacterClasses) {
+    return `Password must use at least ${policy.minCharacterClasses} of: lowercase letters, uppercase letters, numbers, symbols`;
+  }
+  if (username && password.toLowerCase() === username.trim().toLowerCase()) {
+    return "Password must not match your username";
+  }
+  return undefined;
+}
+
+/**
+ * Rough strength estimate from length, character variety and repetition
+ * Long passphrases score well even without symbols
+ */
+export function estimatePasswordStrength(password: string): PasswordStrength {
+  if (!password) {
+    return { score: 0, label: STRENGTH_LABELS[0] };
+  }
+
+  const poolSize = CHARACTER_CLASSES.filter(({ pattern }) =>
+    pattern.test(password)
+  ).reduce((total, { size }) => total + size, 0);
+
+  // Repeated characters ("aaaaaaaa") add little - count unique characters more
+  const uniqueCount = new Set(password).size;
+  const effectiveLength = Math.min(password.length, uniqueCount * 2);
+  const bits = effectiveLength * Math.log2(Math.max(poolSize, 2));
+
+  const score = bits < 28 ? 0 : bits < 40 ? 1 : bits < 60 ? 2 : bits < 80 ? 3 : 4;
+
+  return { score, label: STRENGTH_LABELS[score] };
+}
@@ -0,0 +1,32 @@
+/**
+ * Produces a short "Browser on OS" label from a user agent string
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Firefox\//.test(userAgent)
+      ? "Firefox"
+      : /Chrome\//.test(userAgent)
+        ? "Chrome"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : "Unknown browser";
+
+  const os = /Windows/.test(userAgent)
+    ? "Windows"
+    : /iPhone|iPad/.test(userAgent)
+      ? "iOS"
+      : /Mac OS X/.test(userAgent)
+        ? "macOS"
+        : /Android/.test(userAgent)
+          ? "Android"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : "unknown OS";
+
+  return `${browser} on ${os}`;
+}
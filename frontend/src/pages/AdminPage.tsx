@@ -0,0 +1,239 @@
+import { useState, useEffect, useCallback, useId } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AdminUserDetails,
+  type AdminUser,
+} from "@/components/admin/AdminUserDetails";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+// Users fetched per page
+const PAGE_SIZE = 25;
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Administration page - search users and manage their accounts
+ */
+function AdminPage() {
+  const searchId = useId();
+  const { user: currentUser } = useAuth();
+  const [query, setQuery] = useState("");
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // The search the current results belong to, used when loading more
+  const [activeQuery, setActiveQuery] = useState("");
+
+  /**
+   * Load a page of users - continues after the cursor when one is given
+   */
+  const fetchUsers = useCallback(async (search: string, cursor?: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (search) {
+        params.set("q", search);
+      }
+      if (cursor) {
+        params.set("cursor", cursor);
+      }
+
+      const response = await fetch(`${API_URL}/api/admin/users?${params}`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to fetch users");
+      }
+
+      const page = data.users as AdminUser[];
+      setUsers((prev) => (cursor ? [...prev, ...page] : page));
+      setNextCursor(data.nextCursor as string | null);
+      setActiveQuery(search);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch users");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load the first page on mount
+  useEffect(() => {
+    void fetchUsers("");
+  }, [fetchUsers]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setExpandedId(null);
+    void fetchUsers(query.trim());
+  };
+
+  const handleUpdated = (updated: AdminUser) => {
+    setUsers((prev) =>
+      prev.map((user) => (user.id === updated.id ? updated : user))
+    );
+  };
+
+  const handleDeleted = (userId: string) => {
+    setUsers((prev) => prev.filter((user) => user.id !== userId));
+    setExpandedId(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="mb-4">
+            <Link
+              to="/settings"
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              &larr; Back to Settings
+            </Link>
+          </div>
+          <h1 className="text-2xl font-bold">Administration</h1>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-6 max-w-2xl">
+        <Card>
+          <CardHeader>
+            <CardTitle>Users</CardTitle>
+            <CardDescription>
+              Review usage, disable accounts and sign users out
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleSearch} className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor={searchId}>Search by username</Label>
+                <Input
+                  id={searchId}
+                  type="search"
+                  placeholder="Username starts with..."
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                />
+              </div>
+              <Button type="submit" disabled={isLoading}>
+                Search
+              </Button>
+            </form>
+
+            {error && (
+              <div
+                role="alert"
+                className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+              >
+                {error}
+              </div>
+            )}
+
+            {users.length === 0 ? (
+              !isLoading &&
+              !error && (
+                <p className="text-sm text-muted-foreground">No users found.</p>
+              )
+            ) : (
+              <ul className="divide-y rounded-md border">
+                {users.map((user) => {
+                  const isExpanded = expandedId === user.id;
+
+                  return (
+                    <li key={user.id} className="p-3">
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">
+                            {user.username}
+                            {user.role === "admin" && (
+                              <span className="ml-2 text-xs text-primary">
+                                Admin
+                              </span>
+                            )}
+                            {user.disabled && (
+                              <span className="ml-2 text-xs text-destructive">
+                                Disabled
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            Joined {formatDate(user.createdAt)}
+                            {user.disabledAt &&
+                              ` · Disabled ${formatDate(user.disabledAt)}`}
+                          </p>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setExpandedId(isExpanded ? null : user.id)
+                          }
+                          aria-expanded={isExpanded}
+                          aria-label={`${isExpanded ? "Hide" : "Show"} details for ${user.username}`}
+                        >
+                          {isExpanded ? "Hide" : "Details"}
+                        </Button>
+                      </div>
+
+                      {isExpanded && (
+                        <AdminUserDetails
+                          user={user}
+                          isSelf={user.id === currentUser?.id}
+                          onUpdated={handleUpdated}
+                          onDeleted={handleDeleted}
+                        />
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            {isLoading && (
+              <p className="text-sm text-muted-foreground">Loading users...</p>
+            )}
+
+            {nextCursor && !isLoading && (
+              <Button
+                variant="outline"
+                onClick={() => fetchUsers(activeQuery, nextCursor)}
+              >
+                Load more
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
+
+export default AdminPage;
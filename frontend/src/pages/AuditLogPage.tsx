@@ -0,0 +1,262 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { describeUserAgent } from "@/lib/userAgent";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+// Events fetched per page
+const PAGE_SIZE = 20;
+
+/**
+ * Audit event type from the API
+ */
+interface AuditEvent {
+  id: string;
+  type: string;
+  ip: string | null;
+  userAgent: string | null;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+// Human-readable labels for event types
+const EVENT_LABELS: Record<string, string> = {
+  register: "Account created",
+  login_success: "Signed in",
+  login_failure: "Failed sign-in attempt",
+  logout: "Signed out",
+  session_expired: "Session expired",
+  session_revoked: "Session revoked",
+  csrf_failure: "Blocked request (invalid security token)",
+  password_changed: "Password changed",
+  password_reset_requested: "Password reset requested",
+  password_reset: "Password reset by email",
+  email_changed: "Email address changed",
+  email_verified: "Email address verified",
+  username_changed: "Username changed",
+  two_factor_enabled: "Two-factor authentication turned on",
+  two_factor_disabled: "Two-factor authentication turned off",
+  passkey_added: "Passkey added",
+  passkey_removed: "Passkey removed",
+  sso_linked: "Single sign-on account linked",
+  sso_reauthenticated: "Confirmed with single sign-on",
+  api_token_created: "API token created",
+  api_token_revoked: "API token revoked",
+  account_disabled: "Account disabled by an administrator",
+  account_enabled: "Account re-enabled by an administrator",
+  quota_changed: "Plan or limits changed by an administrator",
+  admin_account_deleted: "Deleted a user account",
+};
+
+// Event types shown with a warning style
+const WARNING_EVENTS = new Set([
+  "login_failure",
+  "csrf_failure",
+  "account_disabled",
+]);
+
+// Explanations for failed sign-in reasons
+const FAILURE_REASONS: Record<string, string> = {
+  invalid_password: "wrong password",
+  invalid_two_factor_code: "wrong verification code",
+  invalid_passkey: "passkey not accepted",
+  account_locked: "account locked",
+  sso_failed: "single sign-on failed",
+};
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Builds a short description of an event's details
+ */
+function describeDetails(event: AuditEvent): string | null {
+  const { details } = event;
+
+  switch (event.type) {
+    case "login_failure":
+      return typeof details.reason === "string"
+        ? FAILURE_REASONS[details.reason] ?? null
+        : null;
+    case "username_changed":
+      return `${String(details.from)} → ${String(details.to)}`;
+    case "session_revoked":
+      if (details.scope === "others") {
+        return `All other sessions (${String(details.revokedCount)})`;
+      }
+      return details.scope === "all"
+        ? `All sessions, by an administrator (${String(details.revokedCount)})`
+        : null;
+    case "email_changed":
+      return typeof details.to === "string" ? details.to : "Removed";
+    case "email_verified":
+      return typeof details.email === "string" ? details.email : null;
+    case "admin_account_deleted":
+      return typeof details.username === "string" ? details.username : null;
+    case "passkey_added":
+    case "api_token_created":
+    case "api_token_revoked":
+      return typeof details.name === "string" ? details.name : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Account activity page - the signed-in user's security audit log
+ */
+function AuditLogPage() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load a page of events - continues after the cursor when one is given
+   */
+  const fetchEvents = useCallback(async (cursor?: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (cursor) {
+        params.set("cursor", cursor);
+      }
+
+      const response = await fetch(`${API_URL}/api/auth/audit?${params}`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to fetch account activity");
+      }
+
+      const page = data.events as AuditEvent[];
+      setEvents((prev) => (cursor ? [...prev, ...page] : page));
+      setNextCursor(data.nextCursor as string | null);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch account activity"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load the first page on mount
+  useEffect(() => {
+    void fetchEvents();
+  }, [fetchEvents]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="mb-4">
+            <Link
+              to="/settings"
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              &larr; Back to Settings
+            </Link>
+          </div>
+          <h1 className="text-2xl font-bold">Account Activity</h1>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-6 max-w-2xl">
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent activity</CardTitle>
+            <CardDescription>
+              Sign-ins, failed attempts and security changes on your account
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <div
+                role="alert"
+                className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+              >
+                {error}
+              </div>
+            )}
+
+            {events.length === 0 ? (
+              !isLoading &&
+              !error && (
+                <p className="text-sm text-muted-foreground">No activity yet.</p>
+              )
+            ) : (
+              <ul className="divide-y rounded-md border">
+                {events.map((event) => {
+                  const detail = describeDetails(event);
+
+                  return (
+                    <li key={event.id} className="p-3">
+                      <p
+                        className={
+                          WARNING_EVENTS.has(event.type)
+                            ? "text-sm font-medium text-destructive"
+                            : "text-sm font-medium"
+                        }
+                      >
+                        {EVENT_LABELS[event.type] ?? event.type}
+                        {detail && (
+                          <span className="font-normal text-muted-foreground">
+                            {" "}
+                            &middot; {detail}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDateTime(event.createdAt)}
+                        {event.userAgent &&
+                          ` · ${describeUserAgent(event.userAgent)}`}
+                        {event.ip && ` · ${event.ip}`}
+                      </p>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            {isLoading && (
+              <p className="text-sm text-muted-foreground">Loading activity...</p>
+            )}
+
+            {nextCursor && !isLoading && (
+              <Button variant="outline" onClick={() => fetchEvents(nextCursor)}>
+                Load more
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
+
+export default AuditLogPage;
@@ -0,0 +1,150 @@
+import { useState, useId } from "react";
+import { Link } from "react-router-dom";
+import { getEmailError } from "@/lib/email";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+/**
+ * Forgot password page - requests a reset link for a verified email address
+ */
+function ForgotPasswordPage() {
+  const emailId = useId();
+  const emailErrorId = useId();
+
+  const [email, setEmail] = useState("");
+  const [emailError, setEmailError] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = getEmailError(email);
+    setEmailError(validationError);
+
+    if (validationError) {
+      document.getElementById(emailId)?.focus();
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/auth/forgot`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ email: email.trim() }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.error === "RATE_LIMIT_EXCEEDED") {
+          setError("Too many requests. Please try again later.");
+        } else if (data.error === "VALIDATION_ERROR") {
+          setEmailError(data.message);
+        } else {
+          setError("Something went wrong. Please try again.");
+        }
+        return;
+      }
+
+      setIsSent(true);
+    } catch {
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Forgot Password</CardTitle>
+          <CardDescription>
+            Enter the verified email address on your account and we'll send you
+            a link to choose a new password
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isSent ? (
+            <div className="space-y-4">
+              <p role="status" className="text-sm">
+                If <span className="font-medium">{email.trim()}</span> belongs
+                to an account with a verified email address, a reset link is on
+                its way. The link expires soon, so use it shortly.
+              </p>
+              <Button variant="outline" className="w-full" asChild>
+                <Link to="/login">Back to sign in</Link>
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div
+                  role="alert"
+                  className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+                >
+                  {error}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor={emailId}>Email</Label>
+                <Input
+                  id={emailId}
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={isSubmitting}
+                  autoComplete="email"
+                  aria-invalid={!!emailError}
+                  aria-describedby={emailError ? emailErrorId : undefined}
+                />
+                {emailError && (
+                  <span id={emailErrorId} className="text-sm text-destructive">
+                    {emailError}
+                  </span>
+                )}
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting ? "Sending..." : "Send reset link"}
+              </Button>
+
+              <p className="text-center text-sm text-muted-foreground">
+                Remembered it?{" "}
+                <Link
+                  to="/login"
+                  className="text-primary underline-offset-4 hover:underline"
+                >
+                  Sign in
+                </Link>
+              </p>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default ForgotPasswordPage;
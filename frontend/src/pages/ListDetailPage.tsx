@@ -1,15 +1,21 @@
 import { useState, useCallback, useEffect } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
-import { Pin, PinOff } from "lucide-react";
+import { Copy, Link2, Palette, Pin, PinOff, Users } from "lucide-react";
 import { useLists } from "@/hooks/useLists";
 import { useTasks } from "@/hooks/useTasks";
 import { Button } from "@/components/ui/button";
 import { EditableTitle } from "@/components/lists/EditableTitle";
+import { CopyListDialog } from "@/components/lists/CopyListDialog";
 import { DeleteListDialog } from "@/components/lists/DeleteListDialog";
+import { LeaveListDialog } from "@/components/lists/LeaveListDialog";
+import { ListAppearanceDialog } from "@/components/lists/ListAppearanceDialog";
+import { ListMembers } from "@/components/lists/ListMembers";
+import { ShareLinksDialog } from "@/components/lists/ShareLinksDialog";
 import { TaskList, UndoRedoToolbar } from "@/components/tasks";
 import { TasksProvider } from "@/contexts/TasksContext";
 import { UndoRedoProvider } from "@/contexts/UndoRedoTasksContext";
 import { useUndoRedoContext } from "@/hooks/useUndoRedoContext";
+import { getListColorClasses } from "@/lib/listAppearance";
 import type { List } from "@/contexts/ListsContextDef";
 
 /**
@@ -18,7 +24,7 @@ import type { List } from "@/contexts/ListsContextDef";
 function ListDetailPage() {
   const { listId } = useParams<{ listId: string }>();
   const navigate = useNavigate();
-  const { getList, updateListTitle, togglePinned, deleteList, lists } = useLists();
+  const { getList, updateListTitle, togglePinned, deleteList, leaveList, lists } = useLists();
 
   const [list, setList] = useState<List | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -26,6 +32,11 @@ function ListDetailPage() {
   const [updateError, setUpdateError] = useState<string | null>(null);
   const [isPinning, setIsPinning] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isLeaveDialogOpen, setIsLeaveDialogOpen] = useState(false);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const [isShareLinksDialogOpen, setIsShareLinksDialogOpen] = useState(false);
+  const [isCopyDialogOpen, setIsCopyDialogOpen] = useState(false);
+  const [isAppearanceDialogOpen, setIsAppearanceDialogOpen] = useState(false);
 
   // Load list data
   useEffect(() => {
@@ -104,6 +115,20 @@ function ListDetailPage() {
     navigate("/lists");
   }, [listId, deleteList, navigate]);
 
+  const handleDuplicated = useCallback(
+    (createdList: List) => {
+      navigate(`/lists/${createdList.id}`);
+    },
+    [navigate]
+  );
+
+  const handleLeaveConfirm = useCallback(async () => {
+    if (!listId) return;
+
+    await leaveList(listId);
+    navigate("/lists");
+  }, [listId, leaveList, navigate]);
+
   // Loading state
   if (isLoading) {
     return (
@@ -139,6 +164,9 @@ function ListDetailPage() {
     day: "numeric",
   });
 
+  const isOwner = list.role === "owner";
+  const isReadOnly = list.role === "viewer";
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -154,19 +182,86 @@ function ListDetailPage() {
           </div>
 
           <div className="flex items-start justify-between gap-4">
-            <div className="flex-1 min-w-0">
-              <EditableTitle
-                title={list.title}
-                onSave={handleTitleSave}
-                maxLength={64}
-              />
+            <div
+              className={`flex-1 min-w-0 border-l-4 pl-3 ${
+                getListColorClasses(list.color).accent
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                {list.emoji && (
+                  <span className="text-2xl" aria-hidden="true">
+                    {list.emoji}
+                  </span>
+                )}
+                <div className="flex-1 min-w-0">
+                  <EditableTitle
+                    title={list.title}
+                    onSave={handleTitleSave}
+                    maxLength={64}
+                    readOnly={isReadOnly}
+                  />
+                </div>
+              </div>
+              {list.description && (
+                <p className="text-sm mt-1 whitespace-pre-line break-words">
+                  {list.description}
+                </p>
+              )}
               <p className="text-sm text-muted-foreground mt-1">
                 Updated: {formattedDate}
+                {!isOwner && (
+                  <>
+                    {" "}
+                    &middot; Shared by {list.ownerUsername ?? "another user"}
+                    {isReadOnly && " (view only)"}
+                  </>
+                )}
               </p>
             </div>
 
             {/* Actions */}
             <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsMembersOpen((open) => !open)}
+                aria-expanded={isMembersOpen}
+                aria-label={isOwner ? "Share list" : "People with access"}
+              >
+                <Users className="h-4 w-4 mr-1" />
+                {isOwner ? "Share" : "People"}
+              </Button>
+              {isOwner && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsShareLinksDialogOpen(true)}
+                  aria-label="Public share links"
+                >
+                  <Link2 className="h-4 w-4 mr-1" />
+                  Links
+                </Button>
+              )}
+              {!isReadOnly && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsAppearanceDialogOpen(true)}
+                  aria-label="Change color, emoji and description"
+                >
+                  <Palette className="h-4 w-4 mr-1" />
+                  Style
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsCopyDialogOpen(true)}
+                aria-label="Duplicate list or save as template"
+              >
+                <Copy className="h-4 w-4 mr-1" />
+                Copy
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -187,15 +282,27 @@ function ListDetailPage() {
                   </>
                 )}
               </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setIsDeleteDialogOpen(true)}
-                className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                aria-label="Delete list"
-              >
-                Delete
-              </Button>
+              {isOwner ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsDeleteDialogOpen(true)}
+                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  aria-label="Delete list"
+                >
+                  Delete
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsLeaveDialogOpen(true)}
+                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  aria-label="Leave list"
+                >
+                  Leave
+                </Button>
+              )}
             </div>
           </div>
 
@@ -207,6 +314,41 @@ function ListDetailPage() {
             onConfirm={handleDeleteConfirm}
           />
 
+          {/* Public share links dialog */}
+          {isOwner && (
+            <ShareLinksDialog
+              list={list}
+              open={isShareLinksDialogOpen}
+              onOpenChange={setIsShareLinksDialogOpen}
+            />
+          )}
+
+          {/* Duplicate and save-as-template dialog */}
+          <CopyListDialog
+            list={list}
+            open={isCopyDialogOpen}
+            onOpenChange={setIsCopyDialogOpen}
+            onDuplicated={handleDuplicated}
+          />
+
+          {/* Color, emoji and description dialog */}
+          {!isReadOnly && (
+            <ListAppearanceDialog
+              list={list}
+              open={isAppearanceDialogOpen}
+              onOpenChange={setIsAppearanceDialogOpen}
+              onUpdated={setList}
+            />
+          )}
+
+          {/* Leave confirmation dialog */}
+          <LeaveListDialog
+            list={list}
+            open={isLeaveDialogOpen}
+            onOpenChange={setIsLeaveDialogOpen}
+            onConfirm={handleLeaveConfirm}
+          />
+
           {/* Update error toast */}
           {updateError && (
             <div
@@ -221,9 +363,15 @@ function ListDetailPage() {
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6">
+        {isMembersOpen && (
+          <div className="mb-6 max-w-xl">
+            <ListMembers list={list} />
+          </div>
+        )}
+
         <TasksProvider listId={listId!}>
           <UndoRedoProvider>
-            <TaskStatsAndListWithUndo />
+            <TaskStatsAndListWithUndo readOnly={isReadOnly} />
           </UndoRedoProvider>
         </TasksProvider>
       </main>
@@ -231,10 +379,14 @@ function ListDetailPage() {
   );
 }
 
+interface TaskStatsAndListProps {
+  readOnly: boolean;
+}
+
 /**
  * Component to display task stats and list, must be inside TasksProvider
  */
-function TaskStatsAndList() {
+function TaskStatsAndList({ readOnly }: TaskStatsAndListProps) {
   const { tasks } = useTasks();
   const completedCount = tasks.filter((t) => t.isCompleted).length;
   const taskCount = tasks.length;
@@ -253,7 +405,7 @@ function TaskStatsAndList() {
       </div>
 
       {/* Task list */}
-      <TaskList />
+      <TaskList readOnly={readOnly} />
     </>
   );
 }
@@ -261,12 +413,17 @@ function TaskStatsAndList() {
 /**
  * Component with undo/redo functionality
  * Must be inside both TasksProvider and UndoRedoProvider
+ * Viewers get neither the toolbar nor the shortcuts
  */
-function TaskStatsAndListWithUndo() {
+function TaskStatsAndListWithUndo({ readOnly }: TaskStatsAndListProps) {
   const { canUndo, canRedo, undo, redo } = useUndoRedoContext();
 
   // Keyboard shortcuts for undo/redo
   useEffect(() => {
+    if (readOnly) {
+      return;
+    }
+
     const handleKeyDown = async (e: KeyboardEvent) => {
       // Check for Ctrl/Cmd key modifier
       const isMac = navigator.platform.toUpperCase().indexOf("MAC") >= 0;
@@ -301,17 +458,19 @@ function TaskStatsAndListWithUndo() {
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, [canUndo, canRedo, undo, redo]);
+  }, [canUndo, canRedo, undo, redo, readOnly]);
 
   return (
     <>
-      <TaskStatsAndList />
-      <UndoRedoToolbar
-        canUndo={canUndo}
-        canRedo={canRedo}
-        onUndo={undo}
-        onRedo={redo}
-      />
+      <TaskStatsAndList readOnly={readOnly} />
+      {!readOnly && (
+        <UndoRedoToolbar
+          canUndo={canUndo}
+          canRedo={canRedo}
+          onUndo={undo}
+          onRedo={redo}
+        />
+      )}
     </>
   );
 }
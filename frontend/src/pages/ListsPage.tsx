@@ -5,8 +5,8 @@ import { useLists } from "@/hooks/useLists";
 import { Button } from "@/components/ui/button";
 import { CreateListForm } from "@/components/lists/CreateListForm";
 import { ListSection } from "@/components/lists/ListSection";
-import { MAX_LISTS_PER_USER } from "@/contexts/ListsContextDef";
-import type { List } from "@/contexts/ListsContextDef";
+import { PendingInvitations } from "@/components/lists/PendingInvitations";
+import type { List, ListSortMode } from "@/contexts/ListsContextDef";
 
 /**
  * Determines if a list is completed (all tasks done and has at least one task)
@@ -24,6 +24,23 @@ function sortByUpdatedAt(lists: List[]): List[] {
   );
 }
 
+/**
+ * Sorts lists by the user's manual order, newest first among equal orders
+ */
+function sortByOrder(lists: List[]): List[] {
+  return [...lists].sort(
+    (a, b) =>
+      a.order - b.order ||
+      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+}
+
+// Sort choices offered on the page
+const SORT_OPTIONS: { label: string; mode: ListSortMode }[] = [
+  { label: "Last updated", mode: "updated" },
+  { label: "Manual", mode: "manual" },
+];
+
 /**
  * Lists page - shows user's lists organized by sections
  */
@@ -31,7 +48,17 @@ function ListsPage() {
   const navigate = useNavigate();
   const location = useLocation();
   const { user, logout } = useAuth();
-  const { lists, canCreateList, listCount, isLoading, refreshLists } = useLists();
+  const {
+    lists,
+    canCreateList,
+    listCount,
+    maxLists,
+    isLoading,
+    refreshLists,
+    listSortMode,
+    setListSortMode,
+    reorderLists,
+  } = useLists();
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
@@ -47,14 +74,17 @@ function ListsPage() {
   }, [location.pathname, refreshLists]);
 
   // Organize lists into sections
-  const { pinnedLists, activeLists, completedLists } = useMemo(() => {
+  const { pinnedLists, activeLists, completedLists, sharedLists } = useMemo(() => {
     const pinned: List[] = [];
     const active: List[] = [];
     const completed: List[] = [];
+    const shared: List[] = [];
 
     lists.forEach((list) => {
       if (list.isPinned) {
         pinned.push(list);
+      } else if (list.role !== "owner") {
+        shared.push(list);
       } else if (isListCompleted(list)) {
         completed.push(list);
       } else {
@@ -62,18 +92,22 @@ function ListsPage() {
       }
     });
 
+    const sortLists = listSortMode === "manual" ? sortByOrder : sortByUpdatedAt;
+
     return {
-      pinnedLists: sortByUpdatedAt(pinned),
-      activeLists: sortByUpdatedAt(active),
-      completedLists: sortByUpdatedAt(completed),
+      pinnedLists: sortLists(pinned),
+      activeLists: sortLists(active),
+      completedLists: sortLists(completed),
+      sharedLists: sortLists(shared),
     };
-  }, [lists]);
+  }, [lists, listSortMode]);
 
   const hasLists = lists.length > 0;
   const hasSections =
     pinnedLists.length > 0 ||
     activeLists.length > 0 ||
-    completedLists.length > 0;
+    completedLists.length > 0 ||
+    sharedLists.length > 0;
 
   const handleLogout = useCallback(async () => {
     setIsLoggingOut(true);
@@ -90,6 +124,35 @@ function ListsPage() {
     }
   }, [logout, navigate]);
 
+  const handleSortModeChange = useCallback(
+    async (mode: ListSortMode) => {
+      setError(null);
+
+      try {
+        await setListSortMode(mode);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to save sort order");
+      }
+    },
+    [setListSortMode]
+  );
+
+  const handleReorder = useCallback(
+    async (orders: Array<{ listId: string; order: number }>) => {
+      setError(null);
+
+      try {
+        await reorderLists(orders);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to reorder lists");
+      }
+    },
+    [reorderLists]
+  );
+
+  // Lists can be dragged in the pinned and active sections in manual order
+  const onReorder = listSortMode === "manual" ? handleReorder : undefined;
+
   const handleNewListClick = useCallback(() => {
     setIsCreating(true);
   }, []);
@@ -114,15 +177,33 @@ function ListsPage() {
                 Welcome, {user?.username}!
               </p>
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleLogout}
-              disabled={isLoggingOut}
-              aria-label="Sign out of your account"
-            >
-              {isLoggingOut ? "Signing out..." : "Sign Out"}
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/trash")}
+                aria-label="Deleted lists and tasks"
+              >
+                Trash
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/settings")}
+                aria-label="Account settings"
+              >
+                Settings
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleLogout}
+                disabled={isLoggingOut}
+                aria-label="Sign out of your account"
+              >
+                {isLoggingOut ? "Signing out..." : "Sign Out"}
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -155,23 +236,46 @@ function ListsPage() {
                 aria-label={
                   canCreateList
                     ? "Create new list"
-                    : `Maximum ${MAX_LISTS_PER_USER} lists reached`
+                    : `Maximum ${maxLists} lists reached`
                 }
                 title={
                   !canCreateList
-                    ? `Maximum ${MAX_LISTS_PER_USER} lists reached`
+                    ? `Maximum ${maxLists} lists reached`
                     : undefined
                 }
               >
                 + New List
               </Button>
-              <p className="text-xs text-muted-foreground">
-                {listCount} of {MAX_LISTS_PER_USER} lists
-              </p>
+              <div className="flex items-center gap-4">
+                <div
+                  role="group"
+                  aria-label="Sort lists"
+                  className="flex items-center gap-1"
+                >
+                  {SORT_OPTIONS.map((option) => (
+                    <Button
+                      key={option.mode}
+                      variant={listSortMode === option.mode ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => handleSortModeChange(option.mode)}
+                      aria-pressed={listSortMode === option.mode}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {maxLists === null
+                    ? `${listCount} ${listCount === 1 ? "list" : "lists"}`
+                    : `${listCount} of ${maxLists} lists`}
+                </p>
+              </div>
             </div>
           )}
         </div>
 
+        <PendingInvitations />
+
         {/* Loading State */}
         {isLoading && !hasLists && (
           <div className="text-center py-8">
@@ -194,9 +298,10 @@ function ListsPage() {
         {/* Lists Sections */}
         {hasSections && (
           <div className="space-y-8">
-            <ListSection type="pinned" lists={pinnedLists} />
-            <ListSection type="active" lists={activeLists} />
+            <ListSection type="pinned" lists={pinnedLists} onReorder={onReorder} />
+            <ListSection type="active" lists={activeLists} onReorder={onReorder} />
             <ListSection type="completed" lists={completedLists} />
+            <ListSection type="shared" lists={sharedLists} />
           </div>
         )}
       </main>
@@ -1,10 +1,13 @@
-import { useState, useCallback, useId } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useState, useCallback, useEffect, useId } from "react";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
+import { startAuthentication, browserSupportsWebAuthn } from "@simplewebauthn/browser";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { TwoFactorLoginForm } from "@/components/auth/TwoFactorLoginForm";
+import type { User } from "@/contexts/AuthContextDef";
 import {
   Card,
   CardContent,
@@ -16,12 +19,29 @@ import {
 // Validation constants
 const USERNAME_MIN_LENGTH = 6;
 const USERNAME_MAX_LENGTH = 12;
-const PASSWORD_MIN_LENGTH = 8;
-const PASSWORD_MAX_LENGTH = 16;
 
 // API URL from environment
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 
+// Messages for errors the SSO callback redirects back with
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  OIDC_CANCELLED: "Single sign-on was cancelled.",
+  OIDC_STATE_INVALID: "Single sign-on expired. Please try again.",
+  OIDC_ACCOUNT_NOT_LINKED:
+    "No account is linked to this sign-in. Sign in with your password and link it from Settings.",
+  OIDC_DISABLED: "Single sign-on is not available.",
+  ACCOUNT_DISABLED: "This account has been disabled.",
+  UNAUTHORIZED: "Please sign in first.",
+};
+
+/**
+ * Single sign-on configuration from the API
+ */
+interface SsoConfig {
+  enabled: boolean;
+  providerName: string;
+}
+
 interface FormErrors {
   username?: string;
   password?: string;
@@ -33,8 +53,21 @@ interface FormTouched {
   password: boolean;
 }
 
+/**
+ * Formats a lockout countdown as "1m 05s" or "42s"
+ */
+function formatLockDuration(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  if (minutes === 0) {
+    return `${seconds}s`;
+  }
+  return `${minutes}m ${seconds.toString().padStart(2, "0")}s`;
+}
+
 function LoginPage() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { login } = useAuth();
   const usernameId = useId();
   const passwordId = useId();
@@ -45,12 +78,72 @@ function LoginPage() {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [rememberMe, setRememberMe] = useState(false);
-  const [errors, setErrors] = useState<FormErrors>({});
+  const [errors, setErrors] = useState<FormErrors>(() => {
+    const ssoError = searchParams.get("sso_error");
+    if (!ssoError) {
+      return {};
+    }
+    return {
+      general:
+        SSO_ERROR_MESSAGES[ssoError] ??
+        "Single sign-on failed. Please try again.",
+    };
+  });
   const [touched, setTouched] = useState<FormTouched>({
     username: false,
     password: false,
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isPasskeySubmitting, setIsPasskeySubmitting] = useState(false);
+  const [pendingToken, setPendingToken] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [ssoConfig, setSsoConfig] = useState<SsoConfig | null>(null);
+
+  // Check whether single sign-on is configured
+  useEffect(() => {
+    const fetchSsoConfig = async () => {
+      try {
+        const response = await fetch(`${API_URL}/api/auth/oidc/config`, {
+          method: "GET",
+          credentials: "include",
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          setSsoConfig({
+            enabled: data.enabled as boolean,
+            providerName: data.providerName as string,
+          });
+        }
+      } catch {
+        // SSO is optional - the password form still works without it
+      }
+    };
+
+    void fetchSsoConfig();
+  }, []);
+
+  // Tick once a second while locked so the countdown stays current
+  useEffect(() => {
+    if (lockedUntil === null) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      const currentTime = Date.now();
+      setNow(currentTime);
+      if (currentTime >= lockedUntil) {
+        setLockedUntil(null);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const lockSecondsRemaining =
+    lockedUntil !== null ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0;
+  const isLocked = lockSecondsRemaining > 0;
 
   // Validation functions
   const validateUsername = useCallback((value: string): string | undefined => {
@@ -64,12 +157,10 @@ function LoginPage() {
     return undefined;
   }, []);
 
+  // Only presence is checked - older passwords may predate the current policy
   const validatePassword = useCallback((value: string): string | undefined => {
-    if (value.length < PASSWORD_MIN_LENGTH) {
-      return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
-    }
-    if (value.length > PASSWORD_MAX_LENGTH) {
-      return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+    if (!value) {
+      return "Password is required";
     }
     return undefined;
   }, []);
@@ -133,6 +224,12 @@ function LoginPage() {
       if (!response.ok) {
         if (data.error === "INVALID_CREDENTIALS") {
           setErrors({ general: "Invalid username or password" });
+        } else if (data.error === "ACCOUNT_DISABLED") {
+          setErrors({ general: "This account has been disabled." });
+        } else if (data.error === "ACCOUNT_LOCKED") {
+          const retryAfterSeconds = Number(data.retryAfter) || 60;
+          setNow(Date.now());
+          setLockedUntil(Date.now() + retryAfterSeconds * 1000);
         } else if (data.error === "RATE_LIMIT_EXCEEDED") {
           setErrors({ general: "Too many login attempts. Please try again later." });
         } else {
@@ -141,6 +238,13 @@ function LoginPage() {
         return;
       }
 
+      // Password accepted but a second factor is required
+      if (data.twoFactorRequired) {
+        setPassword("");
+        setPendingToken(data.pendingToken);
+        return;
+      }
+
       // Success - update auth context and redirect to lists page
       login(data.user);
       navigate("/lists");
@@ -151,6 +255,93 @@ function LoginPage() {
     }
   };
 
+  // Sign in with a discoverable passkey - no username or password needed
+  const handlePasskeySignIn = async () => {
+    setIsPasskeySubmitting(true);
+    setErrors({});
+
+    try {
+      const optionsResponse = await fetch(`${API_URL}/api/auth/login/passkey/options`, {
+        method: "POST",
+        credentials: "include",
+      });
+
+      const optionsData = await optionsResponse.json();
+
+      if (!optionsResponse.ok) {
+        throw new Error(optionsData.message || "Passkey sign-in failed");
+      }
+
+      const assertion = await startAuthentication({
+        optionsJSON: optionsData.options,
+      });
+
+      const response = await fetch(`${API_URL}/api/auth/login/passkey`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          challengeToken: optionsData.challengeToken,
+          response: assertion,
+          rememberMe,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Passkey sign-in failed");
+      }
+
+      login(data.user);
+      navigate("/lists");
+    } catch (err) {
+      // The user dismissed the browser prompt - nothing to report
+      if (err instanceof Error && err.name === "NotAllowedError") {
+        return;
+      }
+      setErrors({
+        general: err instanceof Error ? err.message : "Passkey sign-in failed",
+      });
+    } finally {
+      setIsPasskeySubmitting(false);
+    }
+  };
+
+  const handleTwoFactorSuccess = (user: User) => {
+    login(user);
+    navigate("/lists");
+  };
+
+  const handleTwoFactorCancel = (message?: string) => {
+    setPendingToken(null);
+    setErrors(message ? { general: message } : {});
+  };
+
+  if (pendingToken) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Two-Factor Verification</CardTitle>
+            <CardDescription>
+              Confirm it's you to finish signing in
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TwoFactorLoginForm
+              pendingToken={pendingToken}
+              onSuccess={handleTwoFactorSuccess}
+              onCancel={handleTwoFactorCancel}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -162,6 +353,17 @@ function LoginPage() {
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
+            {/* Account lockout */}
+            {isLocked && (
+              <div
+                role="alert"
+                className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+              >
+                Too many failed sign-in attempts. This account is locked for{" "}
+                {formatLockDuration(lockSecondsRemaining)}.
+              </div>
+            )}
+
             {/* General error */}
             {errors.general && (
               <div
@@ -231,52 +433,80 @@ function LoginPage() {
                     ? passwordErrorId
                     : undefined
                 }
-                maxLength={PASSWORD_MAX_LENGTH}
               />
-              <div className="flex justify-between items-center min-h-[1.25rem]">
-                {touched.password && errors.password ? (
+              <div className="min-h-[1.25rem]">
+                {touched.password && errors.password && (
                   <span
                     id={passwordErrorId}
                     className="text-sm text-destructive"
                   >
                     {errors.password}
                   </span>
-                ) : (
-                  <span />
                 )}
-                <span
-                  className={`text-xs ${
-                    password.length >= PASSWORD_MAX_LENGTH
-                      ? "text-destructive"
-                      : "text-muted-foreground"
-                  }`}
-                >
-                  {password.length}/{PASSWORD_MAX_LENGTH}
-                </span>
               </div>
             </div>
 
-            {/* Remember me checkbox */}
-            <div className="flex items-center space-x-2">
-              <Checkbox
-                id={rememberMeId}
-                checked={rememberMe}
-                onCheckedChange={setRememberMe}
-                disabled={isSubmitting}
-              />
-              <Label
-                htmlFor={rememberMeId}
-                className="text-sm font-normal cursor-pointer"
+            {/* Remember me checkbox and password recovery */}
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={rememberMeId}
+                  checked={rememberMe}
+                  onCheckedChange={setRememberMe}
+                  disabled={isSubmitting}
+                />
+                <Label
+                  htmlFor={rememberMeId}
+                  className="text-sm font-normal cursor-pointer"
+                >
+                  Remember me
+                </Label>
+              </div>
+              <Link
+                to="/forgot-password"
+                className="text-sm text-primary underline-offset-4 hover:underline"
               >
-                Remember me
-              </Label>
+                Forgot password?
+              </Link>
             </div>
 
             {/* Submit button */}
-            <Button type="submit" className="w-full" disabled={isSubmitting}>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isSubmitting || isPasskeySubmitting || isLocked}
+            >
               {isSubmitting ? "Signing in..." : "Sign In"}
             </Button>
 
+            {/* Passwordless sign-in */}
+            {browserSupportsWebAuthn() && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={handlePasskeySignIn}
+                disabled={isSubmitting || isPasskeySubmitting}
+              >
+                {isPasskeySubmitting ? "Waiting for passkey..." : "Sign in with a passkey"}
+              </Button>
+            )}
+
+            {/* Single sign-on - a full-page redirect to the identity provider */}
+            {ssoConfig?.enabled && (
+              <Button
+                asChild
+                variant="outline"
+                className="w-full"
+              >
+                <a
+                  href={`${API_URL}/api/auth/oidc/login?rememberMe=${rememberMe}`}
+                >
+                  Sign in with {ssoConfig.providerName}
+                </a>
+              </Button>
+            )}
+
             {/* Link to registration */}
             <p className="text-center text-sm text-muted-foreground">
               Don't have an account?{" "}
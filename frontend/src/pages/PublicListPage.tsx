@@ -0,0 +1,165 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+/**
+ * Public list type from the API
+ */
+interface PublicList {
+  title: string;
+  taskCount: number;
+  completedCount: number;
+  updatedAt: string;
+}
+
+/**
+ * Public task type from the API
+ */
+interface PublicTask {
+  id: string;
+  title: string;
+  isCompleted: boolean;
+  order: number;
+}
+
+type LoadStatus = "loading" | "loaded" | "invalid" | "error";
+
+/**
+ * Public list page - a read-only view opened from a share link, no account needed
+ */
+function PublicListPage() {
+  const { token } = useParams<{ token: string }>();
+  const [list, setList] = useState<PublicList | null>(null);
+  const [tasks, setTasks] = useState<PublicTask[]>([]);
+  const [status, setStatus] = useState<LoadStatus>("loading");
+
+  useEffect(() => {
+    const loadList = async () => {
+      try {
+        // The link is the credential - no cookies or CSRF token
+        const response = await fetch(
+          `${API_URL}/api/public/lists/${encodeURIComponent(token ?? "")}`,
+          {
+            method: "GET",
+            credentials: "omit",
+          }
+        );
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          setStatus(data.error === "SHARE_LINK_INVALID" ? "invalid" : "error");
+          return;
+        }
+
+        setList(data.list as PublicList);
+        setTasks(data.tasks as PublicTask[]);
+        setStatus("loaded");
+      } catch {
+        setStatus("error");
+      }
+    };
+
+    void loadList();
+  }, [token]);
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-6">
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">Loading list...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (status !== "loaded" || !list) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-6">
+          <div className="text-center py-8">
+            <p className="text-destructive mb-4">
+              {status === "invalid"
+                ? "This link is invalid, has expired or was revoked."
+                : "Something went wrong. Please try again."}
+            </p>
+            <Button variant="outline" asChild>
+              <Link to="/login">Sign in</Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const formattedDate = new Date(list.updatedAt).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <h1 className="text-2xl font-bold truncate">{list.title}</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Updated: {formattedDate} &middot; Shared read-only
+          </p>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-6">
+        <div className="mb-6 text-sm text-muted-foreground">
+          {list.taskCount === 0 ? (
+            <span>No tasks yet</span>
+          ) : (
+            <span>
+              {list.completedCount} of {list.taskCount} tasks completed
+            </span>
+          )}
+        </div>
+
+        <ul className="space-y-2">
+          {tasks.map((task) => (
+            <li
+              key={task.id}
+              className="flex items-start gap-3 p-3 rounded-lg border bg-card"
+            >
+              <span
+                className={`flex h-4 w-4 shrink-0 items-center justify-center rounded-[4px] border mt-0.5 ${
+                  task.isCompleted
+                    ? "bg-primary border-primary text-primary-foreground"
+                    : "border-input"
+                }`}
+                aria-hidden="true"
+              >
+                {task.isCompleted && <Check className="h-3 w-3" />}
+              </span>
+              <span
+                className={`text-sm break-words ${
+                  task.isCompleted ? "line-through text-muted-foreground" : ""
+                }`}
+              >
+                {task.title}
+                <span className="sr-only">
+                  {task.isCompleted ? " (completed)" : " (not completed)"}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      </main>
+    </div>
+  );
+}
+
+export default PublicListPage;
@@ -1,6 +1,10 @@
 import { useState, useCallback, useId } from "react";
 import { useNavigate, Link } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
+import { getPasswordError } from "@/lib/passwordPolicy";
+import { getEmailError } from "@/lib/email";
+import { PasswordStrengthMeter } from "@/components/auth/PasswordStrengthMeter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -15,8 +19,7 @@ import {
 // Validation constants
 const USERNAME_MIN_LENGTH = 6;
 const USERNAME_MAX_LENGTH = 12;
-const PASSWORD_MIN_LENGTH = 8;
-const PASSWORD_MAX_LENGTH = 16;
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
 
 // API URL from environment
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
@@ -24,28 +27,35 @@ const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 interface FormErrors {
   username?: string;
   password?: string;
+  email?: string;
   general?: string;
 }
 
 interface FormTouched {
   username: boolean;
   password: boolean;
+  email: boolean;
 }
 
 function RegisterPage() {
   const navigate = useNavigate();
   const { login } = useAuth();
+  const passwordPolicy = usePasswordPolicy();
   const usernameId = useId();
   const passwordId = useId();
   const usernameErrorId = useId();
   const passwordErrorId = useId();
+  const emailId = useId();
+  const emailErrorId = useId();
 
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [email, setEmail] = useState("");
   const [errors, setErrors] = useState<FormErrors>({});
   const [touched, setTouched] = useState<FormTouched>({
     username: false,
     password: false,
+    email: false,
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -58,19 +68,25 @@ function RegisterPage() {
     if (trimmed.length > USERNAME_MAX_LENGTH) {
       return `Username must be at most ${USERNAME_MAX_LENGTH} characters`;
     }
-    return undefined;
-  }, []);
-
-  const validatePassword = useCallback((value: string): string | undefined => {
-    if (value.length < PASSWORD_MIN_LENGTH) {
-      return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
-    }
-    if (value.length > PASSWORD_MAX_LENGTH) {
-      return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+    if (!USERNAME_PATTERN.test(trimmed)) {
+      return "Username may only contain letters, numbers, underscores, hyphens and periods";
     }
     return undefined;
   }, []);
 
+  const validatePassword = useCallback(
+    (value: string): string | undefined =>
+      getPasswordError(passwordPolicy, value, username),
+    [passwordPolicy, username]
+  );
+
+  // Email is optional - only check it once something is entered
+  const validateEmail = useCallback(
+    (value: string): string | undefined =>
+      value.trim() ? getEmailError(value) : undefined,
+    []
+  );
+
   // Handle blur events for validation
   const handleUsernameBlur = useCallback(() => {
     setTouched((prev) => ({ ...prev, username: true }));
@@ -84,6 +100,12 @@ function RegisterPage() {
     setErrors((prev) => ({ ...prev, password: error }));
   }, [password, validatePassword]);
 
+  const handleEmailBlur = useCallback(() => {
+    setTouched((prev) => ({ ...prev, email: true }));
+    const error = validateEmail(email);
+    setErrors((prev) => ({ ...prev, email: error }));
+  }, [email, validateEmail]);
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -91,11 +113,13 @@ function RegisterPage() {
     // Validate all fields
     const usernameError = validateUsername(username);
     const passwordError = validatePassword(password);
+    const emailError = validateEmail(email);
 
-    setTouched({ username: true, password: true });
+    setTouched({ username: true, password: true, email: true });
     setErrors({
       username: usernameError,
       password: passwordError,
+      email: emailError,
     });
 
     // Focus first invalid field
@@ -107,6 +131,10 @@ function RegisterPage() {
       document.getElementById(passwordId)?.focus();
       return;
     }
+    if (emailError) {
+      document.getElementById(emailId)?.focus();
+      return;
+    }
 
     setIsSubmitting(true);
     setErrors({});
@@ -121,16 +149,23 @@ function RegisterPage() {
         body: JSON.stringify({
           username: username.trim(),
           password,
+          email: email.trim() || undefined,
         }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
-        if (data.code === "USERNAME_TAKEN") {
+        if (data.error === "USERNAME_TAKEN") {
           setErrors({ username: "Username already taken" });
           document.getElementById(usernameId)?.focus();
-        } else if (data.code === "VALIDATION_ERROR") {
+        } else if (data.error === "USERNAME_RESERVED") {
+          setErrors({ username: "This username is reserved" });
+          document.getElementById(usernameId)?.focus();
+        } else if (data.error === "PASSWORD_BREACHED") {
+          setErrors({ password: data.message });
+          document.getElementById(passwordId)?.focus();
+        } else if (data.error === "VALIDATION_ERROR") {
           setErrors({ general: data.message });
         } else {
           setErrors({ general: "Something went wrong. Please try again." });
@@ -228,29 +263,44 @@ function RegisterPage() {
                     ? passwordErrorId
                     : undefined
                 }
-                maxLength={PASSWORD_MAX_LENGTH}
+                maxLength={passwordPolicy.maxLength}
               />
-              <div className="flex justify-between items-center min-h-[1.25rem]">
-                {touched.password && errors.password ? (
-                  <span
-                    id={passwordErrorId}
-                    className="text-sm text-destructive"
-                  >
-                    {errors.password}
-                  </span>
-                ) : (
-                  <span />
-                )}
-                <span
-                  className={`text-xs ${
-                    password.length >= PASSWORD_MAX_LENGTH
-                      ? "text-destructive"
-                      : "text-muted-foreground"
-                  }`}
-                >
-                  {password.length}/{PASSWORD_MAX_LENGTH}
+              {touched.password && errors.password && (
+                <span id={passwordErrorId} className="text-sm text-destructive">
+                  {errors.password}
                 </span>
-              </div>
+              )}
+              <PasswordStrengthMeter policy={passwordPolicy} password={password} />
+            </div>
+
+            {/* Email field */}
+            <div className="space-y-2">
+              <Label htmlFor={emailId}>
+                Email <span className="text-muted-foreground">(optional)</span>
+              </Label>
+              <Input
+                id={emailId}
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onBlur={handleEmailBlur}
+                disabled={isSubmitting}
+                autoComplete="email"
+                aria-invalid={touched.email && !!errors.email}
+                aria-describedby={
+                  touched.email && errors.email ? emailErrorId : undefined
+                }
+              />
+              {touched.email && errors.email ? (
+                <span id={emailErrorId} className="text-sm text-destructive">
+                  {errors.email}
+                </span>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Lets you reset your password if you forget it
+                </p>
+              )}
             </div>
 
             {/* Submit button */}
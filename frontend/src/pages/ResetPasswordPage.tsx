@@ -0,0 +1,218 @@
+import { useState, useId } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
+import { getPasswordError } from "@/lib/passwordPolicy";
+import { PasswordStrengthMeter } from "@/components/auth/PasswordStrengthMeter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+interface FormErrors {
+  password?: string;
+  confirmPassword?: string;
+  general?: string;
+}
+
+/**
+ * Reset password page - opened from the emailed reset link
+ */
+function ResetPasswordPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const passwordPolicy = usePasswordPolicy();
+  const passwordId = useId();
+  const confirmPasswordId = useId();
+  const passwordErrorId = useId();
+  const confirmPasswordErrorId = useId();
+
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLinkInvalid, setIsLinkInvalid] = useState(!token);
+  const [isReset, setIsReset] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // The username isn't known here - the server checks it isn't reused
+    const passwordError = getPasswordError(passwordPolicy, password);
+    const confirmPasswordError =
+      password !== confirmPassword ? "Passwords do not match" : undefined;
+
+    setErrors({
+      password: passwordError,
+      confirmPassword: confirmPasswordError,
+    });
+
+    if (passwordError) {
+      document.getElementById(passwordId)?.focus();
+      return;
+    }
+    if (confirmPasswordError) {
+      document.getElementById(confirmPasswordId)?.focus();
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`${API_URL}/api/auth/reset`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ token, password }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.error === "EMAIL_TOKEN_INVALID") {
+          setIsLinkInvalid(true);
+        } else if (
+          data.error === "VALIDATION_ERROR" ||
+          data.error === "PASSWORD_BREACHED"
+        ) {
+          setErrors({ password: data.message });
+          document.getElementById(passwordId)?.focus();
+        } else if (data.error === "ACCOUNT_DISABLED") {
+          setErrors({ general: "This account has been disabled." });
+        } else if (data.error === "RATE_LIMIT_EXCEEDED") {
+          setErrors({ general: "Too many attempts. Please try again later." });
+        } else {
+          setErrors({ general: "Something went wrong. Please try again." });
+        }
+        return;
+      }
+
+      setIsReset(true);
+    } catch {
+      setErrors({ general: "Something went wrong. Please try again." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isReset) {
+      return (
+        <div className="space-y-4">
+          <p role="status" className="text-sm">
+            Your password has been reset and you've been signed out everywhere.
+            Sign in with your new password.
+          </p>
+          <Button className="w-full" asChild>
+            <Link to="/login">Sign in</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    if (isLinkInvalid) {
+      return (
+        <div className="space-y-4">
+          <div
+            role="alert"
+            className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+          >
+            This reset link is invalid or has expired. Reset links work once
+            and only for a short time.
+          </div>
+          <Button variant="outline" className="w-full" asChild>
+            <Link to="/forgot-password">Request a new link</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {errors.general && (
+          <div
+            role="alert"
+            className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+          >
+            {errors.general}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor={passwordId}>New password</Label>
+          <Input
+            id={passwordId}
+            type="password"
+            placeholder="Enter new password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={isSubmitting}
+            autoComplete="new-password"
+            aria-invalid={!!errors.password}
+            aria-describedby={errors.password ? passwordErrorId : undefined}
+            maxLength={passwordPolicy.maxLength}
+          />
+          {errors.password && (
+            <span id={passwordErrorId} className="text-sm text-destructive">
+              {errors.password}
+            </span>
+          )}
+          <PasswordStrengthMeter policy={passwordPolicy} password={password} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={confirmPasswordId}>Confirm new password</Label>
+          <Input
+            id={confirmPasswordId}
+            type="password"
+            placeholder="Re-enter new password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            disabled={isSubmitting}
+            autoComplete="new-password"
+            aria-invalid={!!errors.confirmPassword}
+            aria-describedby={
+              errors.confirmPassword ? confirmPasswordErrorId : undefined
+            }
+          />
+          {errors.confirmPassword && (
+            <span
+              id={confirmPasswordErrorId}
+              className="text-sm text-destructive"
+            >
+              {errors.confirmPassword}
+            </span>
+          )}
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting ? "Resetting..." : "Reset password"}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Reset Password</CardTitle>
+          <CardDescription>Choose a new password for your account</CardDescription>
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default ResetPasswordPage;
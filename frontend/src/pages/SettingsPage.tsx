@@ -0,0 +1,138 @@
+import { useState, useCallback } from "react";
+import { useNavigate, Link } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ActiveSessions } from "@/components/settings/ActiveSessions";
+import { ApiTokens } from "@/components/settings/ApiTokens";
+import { ChangePasswordForm } from "@/components/settings/ChangePasswordForm";
+import { ChangeUsernameForm } from "@/components/settings/ChangeUsernameForm";
+import { DeleteAccountDialog } from "@/components/settings/DeleteAccountDialog";
+import { EmailSettings } from "@/components/settings/EmailSettings";
+import { Passkeys } from "@/components/settings/Passkeys";
+import { SingleSignOn } from "@/components/settings/SingleSignOn";
+import { TwoFactorSettings } from "@/components/settings/TwoFactorSettings";
+
+/**
+ * Settings page - account management for the signed-in user
+ */
+function SettingsPage() {
+  const navigate = useNavigate();
+  const { user, deleteAccount } = useAuth();
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  // Bumped to reload the sessions panel after other sessions are revoked
+  const [sessionsKey, setSessionsKey] = useState(0);
+
+  const handleDeleteConfirm = useCallback(
+    async (password: string) => {
+      await deleteAccount(password);
+      navigate("/login");
+    },
+    [deleteAccount, navigate]
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="mb-4">
+            <Link
+              to="/lists"
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              &larr; Back to Lists
+            </Link>
+          </div>
+          <h1 className="text-2xl font-bold">Settings</h1>
+          <p className="text-sm text-muted-foreground">
+            Signed in as {user?.username}
+          </p>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-6 max-w-2xl space-y-6">
+        <ChangeUsernameForm />
+
+        <EmailSettings />
+
+        <ChangePasswordForm
+          onPasswordChanged={() => setSessionsKey((key) => key + 1)}
+        />
+
+        <TwoFactorSettings />
+
+        <Passkeys />
+
+        <SingleSignOn />
+
+        <ActiveSessions key={sessionsKey} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Account Activity</CardTitle>
+            <CardDescription>
+              Review sign-ins, failed attempts and security changes
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" asChild>
+              <Link to="/settings/activity">View activity</Link>
+            </Button>
+          </CardContent>
+        </Card>
+
+        <ApiTokens />
+
+        {user?.role === "admin" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Administration</CardTitle>
+              <CardDescription>
+                Manage user accounts across the app
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button variant="outline" asChild>
+                <Link to="/admin">Open admin area</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Danger zone */}
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle>Delete Account</CardTitle>
+            <CardDescription>
+              Permanently remove your account and all of your lists and tasks
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button
+              variant="destructive"
+              onClick={() => setIsDeleteDialogOpen(true)}
+            >
+              Delete Account
+            </Button>
+          </CardContent>
+        </Card>
+
+        <DeleteAccountDialog
+          open={isDeleteDialogOpen}
+          onOpenChange={setIsDeleteDialogOpen}
+          onConfirm={handleDeleteConfirm}
+        />
+      </main>
+    </div>
+  );
+}
+
+export default SettingsPage;
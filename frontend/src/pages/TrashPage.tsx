@@ -0,0 +1,425 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { ListTodo, Check } from "lucide-react";
+import { Button, buttonVariants } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useLists } from "@/hooks/useLists";
+import { apiFetch } from "@/lib/api";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+/**
+ * Trashed list type from the API
+ */
+interface TrashedList {
+  id: string;
+  title: string;
+  taskCount: number;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+/**
+ * Trashed task type from the API
+ */
+interface TrashedTask {
+  id: string;
+  listId: string;
+  listTitle: string;
+  title: string;
+  isCompleted: boolean;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Trash page - recover or permanently delete lists and tasks
+ */
+function TrashPage() {
+  const { refreshLists } = useLists();
+  const [lists, setLists] = useState<TrashedList[]>([]);
+  const [tasks, setTasks] = useState<TrashedTask[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Key of the item being restored or deleted, e.g. "list:abc" or "task:abc"
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [isEmptyDialogOpen, setIsEmptyDialogOpen] = useState(false);
+  const [isEmptying, setIsEmptying] = useState(false);
+
+  /**
+   * Load the trash from the backend
+   */
+  const refreshTrash = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/trash`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to fetch trash");
+      }
+
+      setLists(data.lists as TrashedList[]);
+      setTasks(data.tasks as TrashedTask[]);
+      setRetentionDays(data.retentionDays as number);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch trash");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load the trash on mount
+  useEffect(() => {
+    void refreshTrash();
+  }, [refreshTrash]);
+
+  /**
+   * Run a trash action for one item, then drop it from the page
+   */
+  const runItemAction = async (
+    key: string,
+    url: string,
+    method: "POST" | "DELETE",
+    fallbackMessage: string,
+    onSuccess: () => void
+  ) => {
+    setPendingKey(key);
+    setError(null);
+
+    try {
+      const response = await apiFetch(url, { method });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || fallbackMessage);
+      }
+
+      onSuccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackMessage);
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  const handleRestoreList = (list: TrashedList) =>
+    runItemAction(
+      `list:${list.id}`,
+      `${API_URL}/api/trash/lists/${list.id}/restore`,
+      "POST",
+      "Failed to restore list",
+      () => {
+        setLists((prev) => prev.filter((item) => item.id !== list.id));
+        void refreshLists();
+      }
+    );
+
+  const handleDeleteList = (list: TrashedList) =>
+    runItemAction(
+      `list:${list.id}`,
+      `${API_URL}/api/trash/lists/${list.id}`,
+      "DELETE",
+      "Failed to delete list",
+      () => setLists((prev) => prev.filter((item) => item.id !== list.id))
+    );
+
+  const handleRestoreTask = (task: TrashedTask) =>
+    runItemAction(
+      `task:${task.id}`,
+      `${API_URL}/api/trash/lists/${task.listId}/tasks/${task.id}/restore`,
+      "POST",
+      "Failed to restore task",
+      () => {
+        setTasks((prev) => prev.filter((item) => item.id !== task.id));
+        void refreshLists();
+      }
+    );
+
+  const handleDeleteTask = (task: TrashedTask) =>
+    runItemAction(
+      `task:${task.id}`,
+      `${API_URL}/api/trash/lists/${task.listId}/tasks/${task.id}`,
+      "DELETE",
+      "Failed to delete task",
+      () => setTasks((prev) => prev.filter((item) => item.id !== task.id))
+    );
+
+  const handleEmptyTrash = async () => {
+    setIsEmptying(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_URL}/api/trash`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to empty trash");
+      }
+
+      setLists([]);
+      setTasks([]);
+      setIsEmptyDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to empty trash");
+      setIsEmptyDialogOpen(false);
+    } finally {
+      setIsEmptying(false);
+    }
+  };
+
+  const isEmpty = lists.length === 0 && tasks.length === 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="mb-4">
+            <Link
+              to="/lists"
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              &larr; Back to Lists
+            </Link>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold">Trash</h1>
+              {retentionDays !== null && (
+                <p className="text-sm text-muted-foreground">
+                  Items are deleted for good {retentionDays} days after they
+                  were moved here
+                </p>
+              )}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsEmptyDialogOpen(true)}
+              disabled={isEmpty || isEmptying}
+            >
+              Empty trash
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-6 max-w-2xl space-y-6">
+        {error && (
+          <div
+            role="alert"
+            className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+          >
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading trash...</p>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Lists</CardTitle>
+                <CardDescription>
+                  Restoring a list brings back its tasks, collaborators and
+                  share links
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {lists.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No lists in the trash.
+                  </p>
+                ) : (
+                  <ul className="divide-y rounded-md border">
+                    {lists.map((list) => {
+                      const isPending = pendingKey === `list:${list.id}`;
+
+                      return (
+                        <li
+                          key={list.id}
+                          className="flex items-center justify-between gap-4 p-3"
+                        >
+                          <div className="flex items-start gap-3 min-w-0">
+                            <ListTodo
+                              className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0"
+                              aria-hidden="true"
+                            />
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium truncate">
+                                {list.title}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {list.taskCount === 1
+                                  ? "1 task"
+                                  : `${list.taskCount} tasks`}{" "}
+                                &middot; Deleted {formatDate(list.deletedAt)}{" "}
+                                &middot; Gone for good {formatDate(list.purgeAt)}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRestoreList(list)}
+                              disabled={isPending}
+                              aria-label={`Restore list ${list.title}`}
+                            >
+                              Restore
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteList(list)}
+                              disabled={isPending}
+                              aria-label={`Permanently delete list ${list.title}`}
+                            >
+                              Delete
+                            </Button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Tasks</CardTitle>
+                <CardDescription>
+                  Tasks deleted from your lists return to their old position
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {tasks.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No tasks in the trash.
+                  </p>
+                ) : (
+                  <ul className="divide-y rounded-md border">
+                    {tasks.map((task) => {
+                      const isPending = pendingKey === `task:${task.id}`;
+
+                      return (
+                        <li
+                          key={task.id}
+                          className="flex items-center justify-between gap-4 p-3"
+                        >
+                          <div className="flex items-start gap-3 min-w-0">
+                            <span
+                              className={`flex h-4 w-4 shrink-0 items-center justify-center rounded-[4px] border mt-0.5 ${
+                                task.isCompleted
+                                  ? "bg-primary border-primary text-primary-foreground"
+                                  : "border-input"
+                              }`}
+                              aria-hidden="true"
+                            >
+                              {task.isCompleted && <Check className="h-3 w-3" />}
+                            </span>
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium break-words">
+                                {task.title}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                From {task.listTitle} &middot; Deleted{" "}
+                                {formatDate(task.deletedAt)}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRestoreTask(task)}
+                              disabled={isPending}
+                              aria-label={`Restore task ${task.title}`}
+                            >
+                              Restore
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteTask(task)}
+                              disabled={isPending}
+                              aria-label={`Permanently delete task ${task.title}`}
+                            >
+                              Delete
+                            </Button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+
+      <AlertDialog open={isEmptyDialogOpen} onOpenChange={setIsEmptyDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Empty Trash</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete everything in the trash. This cannot
+              be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isEmptying}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleEmptyTrash}
+              disabled={isEmptying}
+              className={buttonVariants({ variant: "destructive" })}
+            >
+              {isEmptying ? "Emptying..." : "Empty trash"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default TrashPage;
@@ -0,0 +1,121 @@
+import { useState, useEffect, useRef } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+// API URL from environment
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+type VerifyStatus = "verifying" | "verified" | "invalid" | "error";
+
+/**
+ * Verify email page - opened from the emailed verification link
+ */
+function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const { isAuthenticated } = useAuth();
+  const [status, setStatus] = useState<VerifyStatus>(
+    token ? "verifying" : "invalid"
+  );
+  // Tokens are single-use, so never send one twice (e.g. StrictMode remounts)
+  const requestedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || requestedToken.current === token) {
+      return;
+    }
+    requestedToken.current = token;
+
+    const verify = async () => {
+      try {
+        const response = await fetch(`${API_URL}/api/auth/email/verify`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({ token }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          setStatus(data.error === "EMAIL_TOKEN_INVALID" ? "invalid" : "error");
+          return;
+        }
+
+        setStatus("verified");
+      } catch {
+        setStatus("error");
+      }
+    };
+
+    void verify();
+  }, [token]);
+
+  const continueLink = isAuthenticated ? (
+    <Link to="/settings">Go to Settings</Link>
+  ) : (
+    <Link to="/login">Sign in</Link>
+  );
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Verify Email</CardTitle>
+          <CardDescription>Confirming your email address</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status === "verifying" && (
+            <p role="status" className="text-sm text-muted-foreground">
+              Verifying...
+            </p>
+          )}
+
+          {status === "verified" && (
+            <p role="status" className="text-sm">
+              Your email address is verified. You can now use it to reset your
+              password.
+            </p>
+          )}
+
+          {status === "invalid" && (
+            <div
+              role="alert"
+              className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+            >
+              This verification link is invalid or has expired. You can send a
+              new one from Settings.
+            </div>
+          )}
+
+          {status === "error" && (
+            <div
+              role="alert"
+              className="text-sm text-destructive bg-destructive/10 p-3 rounded-md"
+            >
+              Something went wrong. Please try again.
+            </div>
+          )}
+
+          {status !== "verifying" && (
+            <Button variant="outline" className="w-full" asChild>
+              {continueLink}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default VerifyEmailPage;